@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "vending_machines" ADD COLUMN     "apiKeyIssuedAt" TIMESTAMP(3);
+
+-- Existing plaintext keys cannot be verified against hashes, so they are cleared and must be re-issued
+UPDATE "vending_machines" SET "apiKey" = NULL;
+
+-- CreateTable
+CREATE TABLE "machine_request_nonces" (
+    "id" TEXT NOT NULL,
+    "machineId" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "machine_request_nonces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "machine_request_nonces_expiresAt_idx" ON "machine_request_nonces"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "machine_request_nonces_machineId_nonce_key" ON "machine_request_nonces"("machineId", "nonce");
+
+-- AddForeignKey
+ALTER TABLE "machine_request_nonces" ADD CONSTRAINT "machine_request_nonces_machineId_fkey" FOREIGN KEY ("machineId") REFERENCES "vending_machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "VendingSessionStatus" AS ENUM ('CREATED', 'SCANNED', 'PAID', 'DISPENSED', 'EXPIRED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "vending_sessions" (
+    "id" TEXT NOT NULL,
+    "machineId" TEXT NOT NULL,
+    "userId" TEXT,
+    "drinkType" "DrinkType" NOT NULL,
+    "drinkFlavour" "DrinkFlavour" NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "status" "VendingSessionStatus" NOT NULL DEFAULT 'CREATED',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "scannedAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "dispensedAt" TIMESTAMP(3),
+    "failedAt" TIMESTAMP(3),
+    "consumptionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vending_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vending_sessions_consumptionId_key" ON "vending_sessions"("consumptionId");
+
+-- CreateIndex
+CREATE INDEX "vending_sessions_machineId_status_idx" ON "vending_sessions"("machineId", "status");
+
+-- CreateIndex
+CREATE INDEX "vending_sessions_status_expiresAt_idx" ON "vending_sessions"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "vending_sessions_userId_idx" ON "vending_sessions"("userId");
+
+-- AddForeignKey
+ALTER TABLE "vending_sessions" ADD CONSTRAINT "vending_sessions_machineId_fkey" FOREIGN KEY ("machineId") REFERENCES "vending_machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vending_sessions" ADD CONSTRAINT "vending_sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
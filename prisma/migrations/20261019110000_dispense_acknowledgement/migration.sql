@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "vending_sessions" ADD COLUMN     "dispenseErrorCode" TEXT;
+
+-- CreateIndex
+CREATE INDEX "vending_sessions_status_paidAt_idx" ON "vending_sessions"("status", "paidAt");
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "machine_telemetry" (
+    "id" TEXT NOT NULL,
+    "machineId" TEXT NOT NULL,
+    "version" TEXT,
+    "temperature" DECIMAL(5,2),
+    "waterLevel" INTEGER,
+    "errorCodes" TEXT[],
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "machine_telemetry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "machine_telemetry_machineId_recordedAt_idx" ON "machine_telemetry"("machineId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "machine_telemetry_recordedAt_idx" ON "machine_telemetry"("recordedAt");
+
+-- CreateIndex
+CREATE INDEX "vending_machines_isOnline_lastPing_idx" ON "vending_machines"("isOnline", "lastPing");
+
+-- AddForeignKey
+ALTER TABLE "machine_telemetry" ADD CONSTRAINT "machine_telemetry_machineId_fkey" FOREIGN KEY ("machineId") REFERENCES "vending_machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
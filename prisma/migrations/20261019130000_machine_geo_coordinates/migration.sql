@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "vending_machines" ADD COLUMN     "latitude" DECIMAL(9,6),
+ADD COLUMN     "longitude" DECIMAL(9,6);
+
+-- CreateIndex
+CREATE INDEX "vending_machines_latitude_longitude_idx" ON "vending_machines"("latitude", "longitude");
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "vending_sessions" ADD COLUMN     "slotId" TEXT;
+
+-- CreateTable
+CREATE TABLE "machine_slots" (
+    "id" TEXT NOT NULL,
+    "machineId" TEXT NOT NULL,
+    "slotNumber" INTEGER NOT NULL,
+    "drinkType" "DrinkType" NOT NULL,
+    "drinkFlavour" "DrinkFlavour" NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "stock" INTEGER NOT NULL DEFAULT 0,
+    "capacity" INTEGER NOT NULL,
+    "lastRefilledAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "machine_slots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "machine_slots_machineId_drinkType_drinkFlavour_idx" ON "machine_slots"("machineId", "drinkType", "drinkFlavour");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "machine_slots_machineId_slotNumber_key" ON "machine_slots"("machineId", "slotNumber");
+
+-- AddForeignKey
+ALTER TABLE "machine_slots" ADD CONSTRAINT "machine_slots_machineId_fkey" FOREIGN KEY ("machineId") REFERENCES "vending_machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vending_sessions" ADD CONSTRAINT "vending_sessions_slotId_fkey" FOREIGN KEY ("slotId") REFERENCES "machine_slots"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "StockAlertStatus" AS ENUM ('OPEN', 'ACKNOWLEDGED', 'RESOLVED');
+
+-- CreateTable
+CREATE TABLE "stock_alert_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "city" TEXT,
+    "machineId" TEXT,
+    "drinkType" "DrinkType",
+    "drinkFlavour" "DrinkFlavour",
+    "thresholdPercent" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_alerts" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "machineId" TEXT NOT NULL,
+    "slotId" TEXT NOT NULL,
+    "stock" INTEGER NOT NULL,
+    "capacity" INTEGER NOT NULL,
+    "thresholdPercent" INTEGER NOT NULL,
+    "status" "StockAlertStatus" NOT NULL DEFAULT 'OPEN',
+    "acknowledgedAt" TIMESTAMP(3),
+    "acknowledgedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_alert_rules_isActive_idx" ON "stock_alert_rules"("isActive");
+
+-- CreateIndex
+CREATE INDEX "stock_alerts_status_createdAt_idx" ON "stock_alerts"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "stock_alerts_slotId_ruleId_status_idx" ON "stock_alerts"("slotId", "ruleId", "status");
+
+-- CreateIndex
+CREATE INDEX "stock_alerts_machineId_idx" ON "stock_alerts"("machineId");
+
+-- AddForeignKey
+ALTER TABLE "stock_alert_rules" ADD CONSTRAINT "stock_alert_rules_machineId_fkey" FOREIGN KEY ("machineId") REFERENCES "vending_machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_alert_rules" ADD CONSTRAINT "stock_alert_rules_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_alerts" ADD CONSTRAINT "stock_alerts_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "stock_alert_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_alerts" ADD CONSTRAINT "stock_alerts_machineId_fkey" FOREIGN KEY ("machineId") REFERENCES "vending_machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_alerts" ADD CONSTRAINT "stock_alerts_slotId_fkey" FOREIGN KEY ("slotId") REFERENCES "machine_slots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_alerts" ADD CONSTRAINT "stock_alerts_acknowledgedById_fkey" FOREIGN KEY ("acknowledgedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
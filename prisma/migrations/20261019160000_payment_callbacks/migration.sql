@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "PaymentCallbackOutcome" AS ENUM ('RECEIVED', 'PROCESSED', 'IGNORED', 'REJECTED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "payment_callbacks" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL DEFAULT 'phonepe',
+    "merchantTransactionId" TEXT,
+    "state" TEXT,
+    "signatureValid" BOOLEAN NOT NULL,
+    "rawPayload" TEXT,
+    "payload" JSONB,
+    "outcome" "PaymentCallbackOutcome" NOT NULL DEFAULT 'RECEIVED',
+    "outcomeMessage" TEXT,
+    "transactionId" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "payment_callbacks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_callbacks_merchantTransactionId_state_idx" ON "payment_callbacks"("merchantTransactionId", "state");
+
+-- CreateIndex
+CREATE INDEX "payment_callbacks_outcome_receivedAt_idx" ON "payment_callbacks"("outcome", "receivedAt");
+
+-- AddForeignKey
+ALTER TABLE "payment_callbacks" ADD CONSTRAINT "payment_callbacks_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
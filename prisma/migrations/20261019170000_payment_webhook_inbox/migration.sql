@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "PaymentWebhookEventStatus" AS ENUM ('PENDING', 'PROCESSING', 'PROCESSED', 'IGNORED', 'FAILED', 'DEAD_LETTER');
+
+-- AlterTable
+ALTER TABLE "payment_callbacks" ADD COLUMN     "eventId" TEXT;
+
+-- CreateTable
+CREATE TABLE "payment_webhook_events" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL DEFAULT 'phonepe',
+    "merchantTransactionId" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "PaymentWebhookEventStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "resultMessage" TEXT,
+    "receivedCount" INTEGER NOT NULL DEFAULT 1,
+    "transactionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "processedAt" TIMESTAMP(3),
+    "deadLetteredAt" TIMESTAMP(3),
+
+    CONSTRAINT "payment_webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_events_status_nextAttemptAt_idx" ON "payment_webhook_events"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_webhook_events_provider_merchantTransactionId_state_key" ON "payment_webhook_events"("provider", "merchantTransactionId", "state");
+
+-- AddForeignKey
+ALTER TABLE "payment_callbacks" ADD CONSTRAINT "payment_callbacks_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "payment_webhook_events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_webhook_events" ADD CONSTRAINT "payment_webhook_events_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
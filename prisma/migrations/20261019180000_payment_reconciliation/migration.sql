@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "lastReconciledAt" TIMESTAMP(3),
+ADD COLUMN     "reconcileAttempts" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "payment_reconciliation_reports" (
+    "id" TEXT NOT NULL,
+    "reportDate" DATE NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "transactionCount" INTEGER NOT NULL,
+    "localSuccessCount" INTEGER NOT NULL,
+    "localSuccessAmount" DECIMAL(12,2) NOT NULL,
+    "gatewaySuccessCount" INTEGER NOT NULL,
+    "gatewaySuccessAmount" DECIMAL(12,2) NOT NULL,
+    "gatewayErrorCount" INTEGER NOT NULL,
+    "mismatchCount" INTEGER NOT NULL,
+    "mismatches" JSONB NOT NULL,
+    "generatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_reconciliation_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_reconciliation_reports_reportDate_key" ON "payment_reconciliation_reports"("reportDate");
+
+-- CreateIndex
+CREATE INDEX "transactions_status_createdAt_idx" ON "transactions"("status", "createdAt");
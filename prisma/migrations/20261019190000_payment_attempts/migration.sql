@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "attemptNumber" INTEGER,
+ADD COLUMN     "initiatedAt" TIMESTAMP(3);
+
+-- Number existing payment transactions per order in creation order
+UPDATE "transactions" AS t
+SET "attemptNumber" = ranked."rowNumber"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "orderId" ORDER BY "createdAt", "id") AS "rowNumber"
+    FROM "transactions"
+    WHERE "type" = 'PAYMENT' AND "orderId" IS NOT NULL
+) AS ranked
+WHERE t."id" = ranked."id";
+
+-- Transactions that reached PhonePe have a stored response
+UPDATE "transactions"
+SET "initiatedAt" = "createdAt"
+WHERE "type" = 'PAYMENT' AND "phonepeResponse" IS NOT NULL;
+
+-- Close pending transactions created at order time that were superseded by a later attempt
+UPDATE "transactions" AS t
+SET "status" = 'CANCELLED',
+    "failureReason" = 'Superseded by a later payment attempt',
+    "processedAt" = CURRENT_TIMESTAMP
+WHERE t."type" = 'PAYMENT'
+  AND t."status" = 'PENDING'
+  AND t."initiatedAt" IS NULL
+  AND EXISTS (
+      SELECT 1 FROM "transactions" AS later
+      WHERE later."orderId" = t."orderId"
+        AND later."type" = 'PAYMENT'
+        AND later."attemptNumber" > t."attemptNumber"
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transactions_orderId_attemptNumber_key" ON "transactions"("orderId", "attemptNumber");
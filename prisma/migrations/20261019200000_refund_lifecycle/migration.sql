@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'REFUNDED';
+
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'PARTIALLY_REFUNDED' BEFORE 'REFUNDED';
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "parentTransactionId" TEXT,
+ADD COLUMN     "refundReason" TEXT,
+ADD COLUMN     "refundedDrinks" INTEGER;
+
+-- Link existing refunds to the successful payment of their order
+UPDATE "transactions" AS r
+SET "parentTransactionId" = p."id"
+FROM "transactions" AS p
+WHERE r."type" = 'REFUND'
+  AND p."type" = 'PAYMENT'
+  AND p."orderId" = r."orderId"
+  AND p."status" IN ('SUCCESS', 'REFUNDED');
+
+-- CreateIndex
+CREATE INDEX "transactions_parentTransactionId_idx" ON "transactions"("parentTransactionId");
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_parentTransactionId_fkey" FOREIGN KEY ("parentTransactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
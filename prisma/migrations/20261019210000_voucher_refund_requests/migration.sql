@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "RefundRequestStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "voucher_refund_requests" (
+    "id" TEXT NOT NULL,
+    "voucherId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "paymentTransactionId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "requestedDrinks" INTEGER NOT NULL,
+    "eligibleAmount" DECIMAL(10,2) NOT NULL,
+    "status" "RefundRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedById" TEXT,
+    "reviewComment" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "refundTransactionId" TEXT,
+    "failureReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "voucher_refund_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "voucher_refund_requests_refundTransactionId_key" ON "voucher_refund_requests"("refundTransactionId");
+
+-- CreateIndex
+CREATE INDEX "voucher_refund_requests_status_createdAt_idx" ON "voucher_refund_requests"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "voucher_refund_requests_voucherId_status_idx" ON "voucher_refund_requests"("voucherId", "status");
+
+-- CreateIndex
+CREATE INDEX "voucher_refund_requests_userId_idx" ON "voucher_refund_requests"("userId");
+
+-- AddForeignKey
+ALTER TABLE "voucher_refund_requests" ADD CONSTRAINT "voucher_refund_requests_voucherId_fkey" FOREIGN KEY ("voucherId") REFERENCES "drink_vouchers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_refund_requests" ADD CONSTRAINT "voucher_refund_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_refund_requests" ADD CONSTRAINT "voucher_refund_requests_paymentTransactionId_fkey" FOREIGN KEY ("paymentTransactionId") REFERENCES "transactions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_refund_requests" ADD CONSTRAINT "voucher_refund_requests_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_refund_requests" ADD CONSTRAINT "voucher_refund_requests_refundTransactionId_fkey" FOREIGN KEY ("refundTransactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
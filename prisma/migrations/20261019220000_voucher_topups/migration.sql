@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "topupExpiryDays" INTEGER,
+ADD COLUMN     "topupVoucherId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "orders_topupVoucherId_idx" ON "orders"("topupVoucherId");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_topupVoucherId_fkey" FOREIGN KEY ("topupVoucherId") REFERENCES "drink_vouchers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "voucher_packages" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "totalDrinks" INTEGER NOT NULL,
+    "pricePerDrink" DECIMAL(10,2) NOT NULL,
+    "totalPrice" DECIMAL(10,2) NOT NULL,
+    "originalPrice" DECIMAL(10,2) NOT NULL,
+    "recommended" BOOLEAN NOT NULL DEFAULT false,
+    "validityDays" INTEGER,
+    "availableFrom" TIMESTAMP(3),
+    "availableUntil" TIMESTAMP(3),
+    "cities" TEXT[],
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "voucher_packages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "voucher_packages_isActive_sortOrder_idx" ON "voucher_packages"("isActive", "sortOrder");
+
+-- Packages previously hard-coded in config/voucherPackages.ts
+INSERT INTO "voucher_packages" ("id", "name", "totalDrinks", "pricePerDrink", "totalPrice", "originalPrice", "recommended", "validityDays", "cities", "sortOrder", "updatedAt")
+VALUES
+    ('small', 'Small Pack', 10, 25, 250, 300, false, 90, ARRAY[]::TEXT[], 10, CURRENT_TIMESTAMP),
+    ('medium', 'Medium Pack', 20, 23, 460, 600, true, 90, ARRAY[]::TEXT[], 20, CURRENT_TIMESTAMP),
+    ('large', 'Large Pack', 50, 20, 1000, 1500, false, 90, ARRAY[]::TEXT[], 30, CURRENT_TIMESTAMP),
+    ('jumbo', 'Jumbo Pack', 100, 18, 1800, 3000, false, 90, ARRAY[]::TEXT[], 40, CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "packageId" TEXT,
+ADD COLUMN     "packageSnapshot" JSONB;
+
+-- Attribute existing purchase orders to the package with the same drinks and price
+UPDATE "orders" AS o
+SET "packageId" = p."id",
+    "packageSnapshot" = jsonb_build_object(
+        'id', p."id",
+        'name', p."name",
+        'totalDrinks', p."totalDrinks",
+        'pricePerDrink', p."pricePerDrink",
+        'totalPrice', p."totalPrice",
+        'originalPrice', p."originalPrice",
+        'validityDays', p."validityDays"
+    )
+FROM "voucher_packages" AS p
+WHERE o."orderType" = 'VOUCHER_PURCHASE'
+  AND o."totalDrinks" = p."totalDrinks"
+  AND o."totalAmount" = p."totalPrice";
+
+-- CreateIndex
+CREATE INDEX "orders_packageId_idx" ON "orders"("packageId");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_packageId_fkey" FOREIGN KEY ("packageId") REFERENCES "voucher_packages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "voucher_packages" ADD COLUMN     "validityStartsOnFirstUse" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "drink_vouchers" ADD COLUMN     "firstUseValidityDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "voucher_expiry_extensions" (
+    "id" TEXT NOT NULL,
+    "voucherId" TEXT NOT NULL,
+    "extendedById" TEXT,
+    "days" INTEGER NOT NULL,
+    "previousExpiryDate" TIMESTAMP(3) NOT NULL,
+    "newExpiryDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "voucher_expiry_extensions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "voucher_expiry_extensions_voucherId_createdAt_idx" ON "voucher_expiry_extensions"("voucherId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "voucher_expiry_extensions" ADD CONSTRAINT "voucher_expiry_extensions_voucherId_fkey" FOREIGN KEY ("voucherId") REFERENCES "drink_vouchers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_expiry_extensions" ADD CONSTRAINT "voucher_expiry_extensions_extendedById_fkey" FOREIGN KEY ("extendedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
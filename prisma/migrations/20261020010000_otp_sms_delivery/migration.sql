@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "SmsDeliveryStatus" AS ENUM ('PENDING', 'SENT', 'DELIVERED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "otp_codes" ADD COLUMN     "smsProvider" TEXT,
+ADD COLUMN     "providerMessageId" TEXT,
+ADD COLUMN     "deliveryStatus" "SmsDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "deliveryError" TEXT,
+ADD COLUMN     "deliveredAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "otp_codes_providerMessageId_idx" ON "otp_codes"("providerMessageId");
@@ -0,0 +1,15 @@
+-- Plaintext codes cannot be hashed here without OTP_HASH_SECRET; pending OTPs expire within minutes, so drop them
+DELETE FROM "otp_codes";
+
+-- DropIndex
+DROP INDEX "otp_codes_code_idx";
+
+-- AlterTable
+ALTER TABLE "otp_codes" DROP COLUMN "code",
+ADD COLUMN     "requestId" TEXT NOT NULL,
+ADD COLUMN     "codeSalt" TEXT NOT NULL,
+ADD COLUMN     "codeHash" TEXT NOT NULL,
+ADD COLUMN     "deviceFingerprintHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "otp_codes_requestId_key" ON "otp_codes"("requestId");
@@ -0,0 +1,7 @@
+-- Access tokens are revoked through their session; the token blacklist is no longer used
+
+-- AlterTable
+ALTER TABLE "user_sessions" ADD COLUMN "location" TEXT;
+
+-- DropTable
+DROP TABLE "blacklisted_tokens";
@@ -1,4 +1,4 @@
-import { PrismaClient, UserRole, VoucherStatus, ConsumptionStatus, OrderStatus, PaymentStatus, TransactionStatus, PaymentType } from '@prisma/client';
+import { PrismaClient, UserRole, VoucherStatus, ConsumptionStatus, OrderStatus, PaymentStatus, TransactionStatus, PaymentType, DrinkType, DrinkFlavour } from '@prisma/client';
 import bcrypt from 'bcrypt';
 
 const prisma = new PrismaClient();
@@ -12,8 +12,9 @@ async function main() {
   await prisma.transaction.deleteMany();
   await prisma.order.deleteMany();
   await prisma.paymentMethod.deleteMany();
+  await prisma.machineSlot.deleteMany();
   await prisma.vendingMachine.deleteMany();
-  await prisma.blacklistedToken.deleteMany();
+  await prisma.userSession.deleteMany();
   await prisma.otpCode.deleteMany();
   await prisma.user.deleteMany();
 
@@ -94,6 +95,8 @@ async function main() {
         city: 'Mumbai',
         state: 'Maharashtra',
         pincode: '400058',
+        latitude: 19.136300,
+        longitude: 72.827700,
         isActive: true,
         isOnline: true,
         qrCode: 'QR_VM_GYM_ANDHERI_01',
@@ -113,6 +116,8 @@ async function main() {
         city: 'Mumbai',
         state: 'Maharashtra',
         pincode: '400076',
+        latitude: 19.118900,
+        longitude: 72.907800,
         isActive: true,
         isOnline: true,
         qrCode: 'QR_VM_OFFICE_POWAI_01',
@@ -132,6 +137,8 @@ async function main() {
         city: 'Pune',
         state: 'Maharashtra',
         pincode: '411004',
+        latitude: 18.516700,
+        longitude: 73.841200,
         isActive: true,
         isOnline: false,
         qrCode: 'QR_VM_COLLEGE_PUNE_01',
@@ -151,6 +158,8 @@ async function main() {
         city: 'Delhi',
         state: 'Delhi',
         pincode: '110017',
+        latitude: 28.528600,
+        longitude: 77.219000,
         isActive: false, // Maintenance
         isOnline: false,
         qrCode: 'QR_VM_MALL_DELHI_01',
@@ -164,6 +173,18 @@ async function main() {
 
   console.log('🤖 Created vending machines');
 
+  // Create product slots for each machine
+  await prisma.machineSlot.createMany({
+    data: vendingMachines.flatMap((machine) => [
+      { machineId: machine.id, slotNumber: 1, drinkType: DrinkType.MILK, drinkFlavour: DrinkFlavour.COFFEE, price: 25.00, capacity: 40, stock: 32, lastRefilledAt: new Date() },
+      { machineId: machine.id, slotNumber: 2, drinkType: DrinkType.MILK, drinkFlavour: DrinkFlavour.VANILLA, price: 25.00, capacity: 40, stock: 18, lastRefilledAt: new Date() },
+      { machineId: machine.id, slotNumber: 3, drinkType: DrinkType.MILK, drinkFlavour: DrinkFlavour.STRAWBERRY, price: 25.00, capacity: 40, stock: 0 },
+      { machineId: machine.id, slotNumber: 4, drinkType: DrinkType.WATER, drinkFlavour: DrinkFlavour.STRAWBERRY, price: 20.00, capacity: 60, stock: 45, lastRefilledAt: new Date() },
+    ]),
+  });
+
+  console.log('🧃 Created machine slots');
+
   // Create Sample Payment Methods
   await prisma.paymentMethod.createMany({
     data: [
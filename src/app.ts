@@ -6,6 +6,7 @@ import dotenv from 'dotenv';
 import { routes } from './routes';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { PaymentService } from './services/paymentService';
+import { SmsService } from './services/smsService';
 
 // Load environment variables
 dotenv.config();
@@ -20,9 +21,25 @@ try {
   // The app can still function without payment service
 }
 
+// Initialize SmsService
+try {
+  SmsService.initialize();
+  console.log(`✅ SmsService initialized with the ${SmsService.getProviderName()} provider`);
+} catch (error) {
+  console.error('❌ SmsService initialization failed:', error);
+  // OTPs cannot be sent until SMS is configured; the rest of the app keeps working
+}
+
 // Create Express application
 const app = express();
 
+// Behind a load balancer or CDN, take the client IP (req.ip) from X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  const hops = Number(trustProxy);
+  app.set('trust proxy', trustProxy === 'true' || (Number.isInteger(hops) ? hops : trustProxy));
+}
+
 // Security middleware
 app.use(helmet()); // Set security headers
 
@@ -32,8 +49,13 @@ app.use(cors({
   credentials: true,
 }));
 
-// Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+// Body parsing middleware (raw body is kept for machine request signature verification)
+app.use(express.json({
+  limit: '10mb',
+  verify: (req, res, buf) => {
+    (req as express.Request).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Request logging in development
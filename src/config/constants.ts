@@ -1,6 +1,16 @@
 export const SESSION_CONFIG = {
   EXPIRATION_MINUTES: 10,
   EXPIRATION_MS: 10 * 60 * 1000, // 10 minutes in milliseconds
+  
+  // Dispense acknowledgement
+  DISPENSE_ACK_TIMEOUT_MINUTES: 2,
+  DISPENSE_ACK_TIMEOUT_MS: 2 * 60 * 1000, // Paid sessions without a dispense result are refunded after this
+  DISPENSE_TIMEOUT_SWEEP_INTERVAL_MS: 30 * 1000,
+  MAX_DISPENSE_ERROR_CODE_LENGTH: 50,
+  
+  // Machine event stream (SSE)
+  EVENT_STREAM_HEARTBEAT_MS: 25 * 1000, // Keeps proxies from closing idle streams
+  MAX_EVENT_STREAM_SESSION_FILTER: 20,
 } as const;
 
 export const VALIDATION_LIMITS = {
@@ -16,18 +26,34 @@ export const DRINK_CONFIG = {
   MIN_PRICE: 1,    // Minimum price in currency units
 } as const;
 
+export const QR_CODE_CONFIG = {
+  FORMAT_PREFIX: 'SS2',
+  PAYLOAD_VERSION: 2,
+  NONCE_BYTES: 8,
+} as const;
+
 // Authentication related constants
 export const AUTH_CONFIG = {
   // OTP Configuration
   OTP_EXPIRY_MINUTES: 5,
   OTP_EXPIRY_MS: 5 * 60 * 1000,
   OTP_LENGTH: 6,
+  OTP_REQUEST_ID_BYTES: 24,
+  OTP_SALT_BYTES: 16,
+  MAX_DEVICE_FINGERPRINT_LENGTH: 512,
   
   // Rate Limiting
   MAX_OTP_ATTEMPTS_PER_HOUR: 5,
   MAX_LOGIN_ATTEMPTS_PER_HOUR: 10,
   RATE_LIMIT_WINDOW_MINUTES: 60,
   RATE_LIMIT_WINDOW_MS: 60 * 60 * 1000,
+
+  // OTP brute-force protection
+  MAX_OTP_VERIFY_ATTEMPTS: 5,             // Wrong codes before an OTP is invalidated
+  MAX_FAILED_OTP_ATTEMPTS_PER_PHONE: 10,  // Wrong codes before the phone number is locked out
+  OTP_LOCKOUT_BASE_MS: 5 * 60 * 1000,     // First lockout; doubles with each further lockout
+  OTP_LOCKOUT_MAX_MS: 24 * 60 * 60 * 1000,
+  OTP_FAILURE_RESET_MS: 24 * 60 * 60 * 1000, // Failures and lockout history are forgotten after this long
   
   // User Verification
   RECENT_REGISTRATION_THRESHOLD_HOURS: 1,
@@ -38,6 +64,17 @@ export const AUTH_CONFIG = {
   JWT_EXPIRY_SECONDS: 7 * 24 * 60 * 60,
   REFRESH_TOKEN_EXPIRY_DAYS: 30,
   REFRESH_TOKEN_EXPIRY_SECONDS: 30 * 24 * 60 * 60,
+  REFRESH_TOKEN_EXPIRY_MS: 30 * 24 * 60 * 60 * 1000,
+  REFRESH_TOKEN_BYTES: 48,
+
+  // Sessions
+  MAX_DEVICE_NAME_LENGTH: 100,
+  MAX_USER_AGENT_LENGTH: 512,
+  MAX_LOCATION_LENGTH: 100,
+  SESSION_ACTIVITY_UPDATE_INTERVAL_MS: 5 * 60 * 1000, // How stale lastUsedAt may get before a request refreshes it
+  // Geolocation headers added by CloudFront, Cloudflare and Vercel, in order of preference
+  GEO_CITY_HEADERS: ['cloudfront-viewer-city', 'cf-ipcity', 'x-vercel-ip-city'],
+  GEO_COUNTRY_HEADERS: ['cloudfront-viewer-country', 'cf-ipcountry', 'x-vercel-ip-country'],
   
   // Security
   BCRYPT_SALT_ROUNDS: 12,
@@ -45,19 +82,156 @@ export const AUTH_CONFIG = {
   MAX_PHONE_LENGTH: 15,
 } as const;
 
+// SMS delivery constants
+export const SMS_CONFIG = {
+  REQUEST_TIMEOUT_MS: 10000,
+  // Must match the DLT-registered template text when sending to Indian numbers
+  DEFAULT_OTP_TEMPLATE: '{code} is your SmartShake verification code. It is valid for {minutes} minutes.',
+  DEFAULT_OUTBOX_FILE: 'tmp/sms-outbox.jsonl', // SMS_PROVIDER=file
+  MAX_DEV_MESSAGES: 100,                       // Messages the dev provider keeps in memory
+} as const;
+
+// Vending machine authentication constants
+export const MACHINE_AUTH_CONFIG = {
+  // API keys
+  API_KEY_PREFIX: 'ssmk_',
+  API_KEY_BYTES: 32,
+  ENCRYPTED_KEY_PREFIX: 'enc1', // Stored signing keys: enc1:<iv>:<auth tag>:<ciphertext>
+  KEY_ENCRYPTION_IV_BYTES: 12,
+
+  // Request signing
+  TIMESTAMP_TOLERANCE_SECONDS: 5 * 60,
+  TIMESTAMP_TOLERANCE_MS: 5 * 60 * 1000,
+  MIN_NONCE_LENGTH: 16,
+  MAX_NONCE_LENGTH: 64,
+
+  // Headers sent by machines
+  HEADERS: {
+    MACHINE_ID: 'x-machine-id',
+    TIMESTAMP: 'x-timestamp',
+    NONCE: 'x-nonce',
+    SIGNATURE: 'x-signature',
+  },
+} as const;
+
+// Vending machine management constants
+export const MACHINE_CONFIG = {
+  MACHINE_ID_PATTERN: /^[A-Za-z0-9_-]{3,50}$/,
+  MAX_NAME_LENGTH: 100,
+  MAX_LOCATION_LENGTH: 255,
+  MAX_CITY_LENGTH: 100,
+  PINCODE_PATTERN: /^\d{6}$/,
+
+  // Slot catalog
+  MAX_SLOT_NUMBER: 99,
+  MAX_SLOT_CAPACITY: 500,
+
+  // Refill planning
+  DEFAULT_REFILL_THRESHOLD_PERCENT: 25,
+
+  // Nearby search
+  EARTH_RADIUS_KM: 6371,
+  DEFAULT_NEARBY_RADIUS_KM: 5,
+  MAX_NEARBY_RADIUS_KM: 50,
+  MAX_NEARBY_RESULTS: 50,
+} as const;
+
+// Vending machine heartbeat and telemetry constants
+export const MACHINE_HEARTBEAT_CONFIG = {
+  // Machines are expected to send a heartbeat at this interval
+  HEARTBEAT_INTERVAL_SECONDS: 60,
+  HEARTBEAT_INTERVAL_MS: 60 * 1000,
+
+  // Machines that miss this many consecutive heartbeats are marked offline
+  MAX_MISSED_HEARTBEATS: 3,
+  OFFLINE_SWEEP_INTERVAL_MS: 60 * 1000,
+
+  // Telemetry limits
+  MIN_TEMPERATURE: -50,
+  MAX_TEMPERATURE: 150,
+  MAX_ERROR_CODES: 20,
+  MAX_ERROR_CODE_LENGTH: 50,
+  MAX_VERSION_LENGTH: 50,
+  TELEMETRY_RETENTION_DAYS: 30,
+} as const;
+
+// Payment webhook inbox constants
+export const WEBHOOK_CONFIG = {
+  MAX_ATTEMPTS: 6,
+  BASE_RETRY_DELAY_MS: 30 * 1000,      // Doubles after each failed attempt
+  MAX_RETRY_DELAY_MS: 60 * 60 * 1000,  // Cap backoff at 1 hour
+  RETRY_SWEEP_INTERVAL_MS: 30 * 1000,
+  RETRY_BATCH_SIZE: 20,
+  PROCESSING_TIMEOUT_MS: 5 * 60 * 1000, // Events stuck in PROCESSING longer than this are retried
+} as const;
+
+// Payment reconciliation constants
+export const RECONCILIATION_CONFIG = {
+  PENDING_THRESHOLD_MINUTES: 15,      // Only reconcile transactions pending longer than this
+  RECHECK_INTERVAL_MINUTES: 10,       // Minimum gap between status checks of the same transaction
+  ABANDON_AFTER_HOURS: 24,            // Close attempts PhonePe has no record of after this
+  UNPAID_ORDER_EXPIRY_HOURS: 48,      // Cancel orders with no open or successful attempt after this
+  SWEEP_INTERVAL_MS: 5 * 60 * 1000,
+  BATCH_SIZE: 25,
+  REPORT_MAX_TRANSACTIONS: 5000,
+  GATEWAY_NOT_FOUND_CODE: 'TRANSACTION_NOT_FOUND',
+} as const;
+
+// Local payment simulator constants (PAYMENT_PROVIDER=simulated)
+export const PAYMENT_SIMULATOR_CONFIG = {
+  DEFAULT_SETTLE_DELAY_MS: 2000,        // Settle payments automatically after this delay; 0 settles only on request
+  DEFAULT_OUTCOME: 'COMPLETED',
+  REFUND_SETTLE_DELAY_MS: 1000,
+} as const;
+
+// Voucher package catalog constants
+export const VOUCHER_PACKAGE_CONFIG = {
+  ID_PATTERN: /^[a-z0-9][a-z0-9-]{1,39}$/,
+  MAX_NAME_LENGTH: 100,
+  MAX_DESCRIPTION_LENGTH: 500,
+  MAX_DRINKS: 500,
+  MAX_TOTAL_PRICE: 100000,
+  MAX_VALIDITY_DAYS: 3650,
+  MAX_CITIES: 50,
+} as const;
+
+// Voucher expiry constants
+export const VOUCHER_EXPIRY_CONFIG = {
+  DEFAULT_VALIDITY_DAYS: 90,            // Orders placed before packages carried validity rules
+  MAX_EXTENSION_DAYS: 365,              // Per admin extension
+  MAX_REASON_LENGTH: 500,
+} as const;
+
+// Voucher top-up constants
+export const TOPUP_CONFIG = {
+  MIN_DRINKS: 1,
+  MAX_DRINKS: 100,
+  MAX_EXPIRY_EXTENSION_DAYS: 365,
+  MAX_VERSION_RETRIES: 3,               // Optimistic locking retries when adding drinks
+} as const;
+
 // Error codes for consistent client-side handling
 export const ERROR_CODES = {
   // Authentication
   INVALID_CREDENTIALS: 'INVALID_CREDENTIALS',
   TOKEN_EXPIRED: 'TOKEN_EXPIRED',
   TOKEN_INVALID: 'TOKEN_INVALID',
-  TOKEN_BLACKLISTED: 'TOKEN_BLACKLISTED',
+  SESSION_REVOKED: 'SESSION_REVOKED',
+  REFRESH_TOKEN_INVALID: 'REFRESH_TOKEN_INVALID',
+  REFRESH_TOKEN_REUSED: 'REFRESH_TOKEN_REUSED',
   
   // OTP
   OTP_EXPIRED: 'OTP_EXPIRED',
   OTP_INVALID: 'OTP_INVALID',
   OTP_RATE_LIMITED: 'OTP_RATE_LIMITED',
   
+  // Machine authentication
+  MACHINE_AUTH_REQUIRED: 'MACHINE_AUTH_REQUIRED',
+  MACHINE_AUTH_FAILED: 'MACHINE_AUTH_FAILED',
+  SIGNATURE_INVALID: 'SIGNATURE_INVALID',
+  REQUEST_EXPIRED: 'REQUEST_EXPIRED',
+  REQUEST_REPLAYED: 'REQUEST_REPLAYED',
+  
   // User
   USER_NOT_FOUND: 'USER_NOT_FOUND',
   USER_ALREADY_EXISTS: 'USER_ALREADY_EXISTS',
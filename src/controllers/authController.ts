@@ -1,19 +1,82 @@
 import { Request, Response } from 'express';
 import { OtpService } from '../services/otpService';
+import { SmsService } from '../services/smsService';
 import { UserService } from '../services/userService';
 import { JwtService } from '../services/jwtService';
+import { SessionService, SessionClientInfo } from '../services/sessionService';
 import { AuthValidation } from '../validation/authValidation';
-import { AUTH_CONFIG } from '../config/constants';
-import { SendOtpRequest, VerifyOtpRequest, TypedRequest, ApiResponse, LoginResponse, OtpResponse, OtpPurpose } from '../types';
+import { AUTH_CONFIG, ERROR_CODES } from '../config/constants';
+import { SendOtpRequest, VerifyOtpRequest, TypedRequest, ApiResponse, LoginResponse, OtpResponse, OtpPurpose, SessionResponse } from '../types';
 
 export class AuthController {
+  // Client details stored with a refresh token session
+  private static getSessionClient(req: Request, deviceName?: string): SessionClientInfo {
+    return {
+      deviceName,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      location: AuthController.getRequestLocation(req),
+    };
+  }
+
+  // "City, CC" from the geolocation headers a CDN in front of the API adds, if any
+  private static getRequestLocation(req: Request): string | undefined {
+    const firstHeader = (names: readonly string[]): string | undefined => {
+      for (const name of names) {
+        const value = req.get(name);
+        if (value) {
+          try {
+            return decodeURIComponent(value).trim();
+          } catch {
+            return value.trim();
+          }
+        }
+      }
+      return undefined;
+    };
+
+    const city = firstHeader(AUTH_CONFIG.GEO_CITY_HEADERS);
+    const country = firstHeader(AUTH_CONFIG.GEO_COUNTRY_HEADERS);
+    const parts = [city, country].filter((part): part is string => !!part);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+  }
+
+  // Responds 429 OTP_RATE_LIMITED when the phone number has hit the send limit or is locked out
+  private static async rejectIfOtpBlocked(phone: string, res: Response): Promise<boolean> {
+    const lockedUntil = await OtpService.getLockout(phone);
+    if (lockedUntil) {
+      res.setHeader('Retry-After', String(Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)));
+      const response: ApiResponse = {
+        success: false,
+        error: 'Too many invalid OTP attempts. Please try again later.',
+        code: ERROR_CODES.OTP_RATE_LIMITED,
+      };
+      res.status(429).json(response);
+      return true;
+    }
+
+    const attempts = await OtpService.getOtpAttempts(phone, AUTH_CONFIG.RATE_LIMIT_WINDOW_MINUTES);
+    const rateLimitValidation = AuthValidation.validateRateLimit(attempts);
+    if (!rateLimitValidation.isValid) {
+      const response: ApiResponse = {
+        success: false,
+        error: rateLimitValidation.errors[0],
+        code: ERROR_CODES.OTP_RATE_LIMITED,
+      };
+      res.status(429).json(response);
+      return true;
+    }
+
+    return false;
+  }
+
   // POST /api/auth/send-otp
   static async sendOtp(req: TypedRequest<SendOtpRequest>, res: Response): Promise<void> {
     try {
-      const { phone, purpose = OtpPurpose.LOGIN } = req.body;
+      const { phone, purpose = OtpPurpose.LOGIN, deviceFingerprint } = req.body;
       
       // Validate request
-      const validation = AuthValidation.validateSendOtpRequest({ phone, purpose });
+      const validation = AuthValidation.validateSendOtpRequest({ phone, purpose, deviceFingerprint });
       if (!validation.isValid) {
         const response: ApiResponse = {
           success: false,
@@ -23,15 +86,8 @@ export class AuthController {
         return;
       }
 
-      // Rate limiting check
-      const attempts = await OtpService.getOtpAttempts(phone!, AUTH_CONFIG.RATE_LIMIT_WINDOW_MINUTES);
-      const rateLimitValidation = AuthValidation.validateRateLimit(attempts);
-      if (!rateLimitValidation.isValid) {
-        const response: ApiResponse = {
-          success: false,
-          error: rateLimitValidation.errors[0],
-        };
-        res.status(429).json(response);
+      // Rate limiting and lockout check
+      if (await AuthController.rejectIfOtpBlocked(phone!, res)) {
         return;
       }
 
@@ -64,12 +120,13 @@ export class AuthController {
       }
 
       try {
-        const { code, expiresAt } = await OtpService.sendOtp(phone!, purpose);
+        const { otpRequestId, expiresAt } = await OtpService.sendOtp(phone!, purpose, deviceFingerprint);
         
         const response: ApiResponse<OtpResponse> = {
           success: true,
           data: {
             message: `OTP sent to ${phone}`,
+            otpRequestId,
             expiresAt,
           },
           message: 'OTP sent successfully',
@@ -101,10 +158,10 @@ export class AuthController {
   // POST /api/auth/verify-otp
   static async verifyOtp(req: TypedRequest<VerifyOtpRequest>, res: Response): Promise<void> {
     try {
-      const { phone, code, purpose = OtpPurpose.LOGIN } = req.body;
+      const { phone, otpRequestId, code, purpose = OtpPurpose.LOGIN, deviceFingerprint, deviceName } = req.body;
       
       // Validate request
-      const validation = AuthValidation.validateVerifyOtpRequest({ phone, code, purpose });
+      const validation = AuthValidation.validateVerifyOtpRequest({ phone, otpRequestId, code, purpose, deviceFingerprint, deviceName });
       if (!validation.isValid) {
         const response: ApiResponse = {
           success: false,
@@ -115,14 +172,18 @@ export class AuthController {
       }
 
       // Verify OTP
-      const isValid = await OtpService.verifyOtp(phone!, code!, purpose);
+      const verification = await OtpService.verifyOtp(phone!, otpRequestId!, code!, purpose, deviceFingerprint);
       
-      if (!isValid) {
+      if (!verification.success) {
+        if (verification.retryAfterSeconds) {
+          res.setHeader('Retry-After', String(verification.retryAfterSeconds));
+        }
         const response: ApiResponse = {
           success: false,
-          error: 'Invalid or expired OTP code',
+          error: verification.error,
+          code: verification.code,
         };
-        res.status(400).json(response);
+        res.status(verification.code === ERROR_CODES.OTP_RATE_LIMITED ? 429 : 400).json(response);
         return;
       }
 
@@ -220,9 +281,12 @@ export class AuthController {
         }
       }
 
-      // Generate JWT tokens (for login and registration, not for phone verification)
-      const token = JwtService.generateToken(user);
-      const refreshToken = JwtService.generateRefreshToken(user);
+      // Start a session and generate tokens (for login and registration, not for phone verification)
+      const { refreshToken, session } = await SessionService.createSession(
+        user.id,
+        AuthController.getSessionClient(req, deviceName)
+      );
+      const token = JwtService.generateToken(user, session.familyId);
 
       const response: ApiResponse<LoginResponse> = {
         success: true,
@@ -250,12 +314,12 @@ export class AuthController {
   }
 
   // POST /api/auth/register
-  static async registerWithPhone(req: TypedRequest<{ phone: string; name?: string }>, res: Response): Promise<void> {
+  static async registerWithPhone(req: TypedRequest<{ phone: string; name?: string; deviceFingerprint?: string }>, res: Response): Promise<void> {
     try {
-      const { phone, name } = req.body;
+      const { phone, name, deviceFingerprint } = req.body;
       
       // Validate request
-      const validation = AuthValidation.validateRegistrationRequest({ phone, name });
+      const validation = AuthValidation.validateRegistrationRequest({ phone, name, deviceFingerprint });
       if (!validation.isValid) {
         const response: ApiResponse = {
           success: false,
@@ -277,17 +341,23 @@ export class AuthController {
         return;
       }
 
+      // Rate limiting and lockout check, before the user is created
+      if (await AuthController.rejectIfOtpBlocked(phone!, res)) {
+        return;
+      }
+
       // Create user with isVerified: false
       await UserService.createUserWithPhone(phone!, name!, false);
 
       // Send OTP for registration
       try {
-        const { expiresAt } = await OtpService.sendOtp(phone!, OtpPurpose.REGISTRATION);
+        const { otpRequestId, expiresAt } = await OtpService.sendOtp(phone!, OtpPurpose.REGISTRATION, deviceFingerprint);
         
         const response: ApiResponse<OtpResponse> = {
           success: true,
           data: {
             message: `OTP sent to ${phone} for registration`,
+            otpRequestId,
             expiresAt,
           },
           message: 'Registration initiated. Please verify OTP to complete registration.',
@@ -318,12 +388,12 @@ export class AuthController {
   }
 
   // POST /api/auth/login
-  static async loginWithPhone(req: TypedRequest<{ phone: string }>, res: Response): Promise<void> {
+  static async loginWithPhone(req: TypedRequest<{ phone: string; deviceFingerprint?: string }>, res: Response): Promise<void> {
     try {
-      const { phone } = req.body;
+      const { phone, deviceFingerprint } = req.body;
       
       // Validate request
-      const validation = AuthValidation.validateLoginRequest({ phone });
+      const validation = AuthValidation.validateLoginRequest({ phone, deviceFingerprint });
       if (!validation.isValid) {
         const response: ApiResponse = {
           success: false,
@@ -361,14 +431,20 @@ export class AuthController {
         return;
       }
 
+      // Rate limiting and lockout check
+      if (await AuthController.rejectIfOtpBlocked(phone!, res)) {
+        return;
+      }
+
       // Send OTP for login
       try {
-        const { expiresAt } = await OtpService.sendOtp(phone!, OtpPurpose.LOGIN);
+        const { otpRequestId, expiresAt } = await OtpService.sendOtp(phone!, OtpPurpose.LOGIN, deviceFingerprint);
         
         const response: ApiResponse<OtpResponse> = {
           success: true,
           data: {
             message: `OTP sent to ${phone} for login`,
+            otpRequestId,
             expiresAt,
           },
           message: 'Login OTP sent. Please verify to complete login.',
@@ -413,46 +489,44 @@ export class AuthController {
         return;
       }
 
-      // Verify refresh token
-      try {
-        const decoded = JwtService.verifyToken(refreshToken!);
-        
-        // Get user from database
-        const user = await UserService.getUserById(decoded.userId.toString());
-        if (!user) {
-          const response: ApiResponse = {
-            success: false,
-            error: 'User not found',
-          };
-          res.status(404).json(response);
-          return;
-        }
-
-        // Generate new tokens
-        const newToken = JwtService.generateToken(user);
-        const newRefreshToken = JwtService.generateRefreshToken(user);
-
-        const response: ApiResponse<{ token: string; refreshToken: string; expiresIn: string }> = {
-          success: true,
-          data: {
-            token: newToken,
-            refreshToken: newRefreshToken,
-            expiresIn: '7d',
-          },
-          message: 'Token refreshed successfully',
+      // Exchange the refresh token for the next one in its session
+      const rotation = await SessionService.rotateRefreshToken(refreshToken!, AuthController.getSessionClient(req));
+      if (!rotation.success) {
+        const response: ApiResponse = {
+          success: false,
+          error: rotation.error,
+          code: rotation.code,
         };
+        res.status(401).json(response);
+        return;
+      }
 
-        res.status(200).json(response);
-      } catch (tokenError) {
-        console.error('Invalid refresh token:', tokenError);
-        
+      const session = rotation.session!;
+
+      // Get user from database
+      const user = await UserService.getUserById(session.userId);
+      if (!user) {
         const response: ApiResponse = {
           success: false,
-          error: 'Invalid or expired refresh token',
+          error: 'User not found',
         };
-        res.status(401).json(response);
+        res.status(404).json(response);
         return;
       }
+
+      const newToken = JwtService.generateToken(user, session.familyId);
+
+      const response: ApiResponse<{ token: string; refreshToken: string; expiresIn: string }> = {
+        success: true,
+        data: {
+          token: newToken,
+          refreshToken: rotation.refreshToken!,
+          expiresIn: '7d',
+        },
+        message: 'Token refreshed successfully',
+      };
+
+      res.status(200).json(response);
     } catch (error) {
       console.error('Error in refreshToken controller:', error);
       
@@ -507,7 +581,7 @@ export class AuthController {
     }
   }
 
-  // POST /api/auth/logout - Logout with token blacklisting
+  // POST /api/auth/logout - Logout by revoking the current session
   static async logout(req: Request, res: Response): Promise<void> {
     try {
       if (!req.user) {
@@ -519,30 +593,50 @@ export class AuthController {
         return;
       }
 
-      // Extract token from Authorization header
-      const authHeader = req.headers.authorization;
-      const token = JwtService.extractTokenFromHeader(authHeader);
+      // Revoke the session; its access and refresh tokens stop working
+      await SessionService.revokeSession(req.user.sessionId, req.user.id, 'logout');
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Logged out successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in logout controller:', error);
+      
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      };
+      
+      res.status(500).json(response);
+    }
+  }
 
-      if (!token) {
+  // POST /api/auth/logout-all - Logout from all devices
+  static async logoutAll(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
         const response: ApiResponse = {
           success: false,
-          error: 'No token provided',
+          error: 'Authentication required',
         };
-        res.status(400).json(response);
+        res.status(401).json(response);
         return;
       }
 
-      // Blacklist the current token
-      await JwtService.blacklistToken(token, req.user.id, 'logout');
+      // Revoke every session for this user
+      await SessionService.revokeAllUserSessions(req.user.id, 'logout_all_devices');
 
       const response: ApiResponse = {
         success: true,
-        message: 'Logged out successfully',
+        message: 'Logged out from all devices successfully',
       };
 
       res.status(200).json(response);
     } catch (error) {
-      console.error('Error in logout controller:', error);
+      console.error('Error in logoutAll controller:', error);
       
       const response: ApiResponse = {
         success: false,
@@ -553,8 +647,8 @@ export class AuthController {
     }
   }
 
-  // POST /api/auth/logout-all - Logout from all devices
-  static async logoutAll(req: Request, res: Response): Promise<void> {
+  // GET /api/auth/sessions - List the current user's active sessions
+  static async getSessions(req: Request, res: Response): Promise<void> {
     try {
       if (!req.user) {
         const response: ApiResponse = {
@@ -565,17 +659,59 @@ export class AuthController {
         return;
       }
 
-      // Blacklist all tokens for this user
-      await JwtService.blacklistAllUserTokens(req.user.id, 'logout_all_devices');
+      const sessions = await SessionService.listActiveSessions(req.user.id, req.user.sessionId);
+
+      const response: ApiResponse<{ sessions: SessionResponse[] }> = {
+        success: true,
+        data: { sessions },
+        message: 'Sessions retrieved successfully',
+      };
 
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in getSessions controller:', error);
+      
       const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      };
+      
+      res.status(500).json(response);
+    }
+  }
+
+  // DELETE /api/auth/sessions/:id - Revoke one of the current user's sessions
+  static async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Authentication required',
+        };
+        res.status(401).json(response);
+        return;
+      }
+
+      const revoked = await SessionService.revokeSession(req.params.id, req.user.id, 'revoked_by_user');
+      if (revoked === 0) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Session not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const current = req.params.id === req.user.sessionId;
+      const response: ApiResponse<{ current: boolean }> = {
         success: true,
-        message: 'Logged out from all devices successfully',
+        data: { current },
+        message: current ? 'Current session revoked. Please login again.' : 'Session revoked successfully',
       };
 
       res.status(200).json(response);
     } catch (error) {
-      console.error('Error in logoutAll controller:', error);
+      console.error('Error in revokeSession controller:', error);
       
       const response: ApiResponse = {
         success: false,
@@ -587,12 +723,12 @@ export class AuthController {
   }
 
   // POST /api/auth/resend-phone-verification-otp - Resend OTP for phone verification
-  static async resendPhoneVerificationOtp(req: TypedRequest<{ phone: string }>, res: Response): Promise<void> {
+  static async resendPhoneVerificationOtp(req: TypedRequest<{ phone: string; deviceFingerprint?: string }>, res: Response): Promise<void> {
     try {
-      const { phone } = req.body;
+      const { phone, deviceFingerprint } = req.body;
 
       // Validate request
-      const validation = AuthValidation.validateLoginRequest({ phone });
+      const validation = AuthValidation.validateLoginRequest({ phone, deviceFingerprint });
       if (!validation.isValid) {
         const response: ApiResponse = {
           success: false,
@@ -624,14 +760,20 @@ export class AuthController {
         return;
       }
 
+      // Rate limiting and lockout check
+      if (await AuthController.rejectIfOtpBlocked(phone!, res)) {
+        return;
+      }
+
       // Send OTP for phone verification
       try {
-        const { expiresAt } = await OtpService.sendOtp(phone!, OtpPurpose.PHONE_VERIFICATION);
+        const { otpRequestId, expiresAt } = await OtpService.sendOtp(phone!, OtpPurpose.PHONE_VERIFICATION, deviceFingerprint);
         
         const response: ApiResponse<OtpResponse> = {
           success: true,
           data: {
             message: `OTP sent to ${phone} for phone verification`,
+            otpRequestId,
             expiresAt,
           },
           message: 'Phone verification OTP sent. Please verify your phone number.',
@@ -660,5 +802,39 @@ export class AuthController {
     }
   }
 
+  // POST /api/auth/sms-delivery-report - Delivery status callback from the SMS provider
+  static async handleSmsDeliveryReport(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await SmsService.handleDeliveryReport({
+        url: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+        headers: req.headers,
+        query: req.query,
+        body: req.body,
+      });
+
+      if (!result.accepted) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Delivery report could not be verified',
+        };
+        res.status(401).json(response);
+        return;
+      }
 
+      const response: ApiResponse<{ updated: number }> = {
+        success: true,
+        data: { updated: result.updated },
+        message: 'Delivery report processed',
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in handleSmsDeliveryReport controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to process delivery report',
+      };
+      res.status(500).json(response);
+    }
+  }
 } 
\ No newline at end of file
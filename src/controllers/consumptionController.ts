@@ -1,12 +1,14 @@
-import { Request } from 'express';
+import { Request, Response } from 'express';
 import { ConsumptionService, ConsumptionRequest } from '../services/consumptionService';
-import { MachineService, MachineSessionService } from '../services/machineService';
+import { MachineService, MachineSessionService, VendingSessionWithMachine } from '../services/machineService';
 import { ValidationService } from '../validation/machineValidation';
-import { TypedRequest, TypedResponse, GenerateMachineQRRequest, GenerateMachineQRResponse, QRScanRequest } from '../types';
+import { TypedRequest, TypedResponse, GenerateMachineQRRequest, GenerateMachineQRResponse, QRScanRequest, DispenseResultRequest } from '../types';
 import { SESSION_CONFIG, VALIDATION_LIMITS } from '../config/constants';
 import { prisma } from '../config/database';
-import { DrinkFlavour, DrinkType } from '@prisma/client';
+import { DrinkFlavour, DrinkType, VendingSessionStatus } from '@prisma/client';
 import { isUUID } from '../utils/validationHelper';
+import { MachineEventService, MachineEvent } from '../services/machineEventService';
+import { MachineCatalogService } from '../services/machineCatalogService';
 
 export class ConsumptionController {
 
@@ -29,6 +31,14 @@ export class ConsumptionController {
 
       const { machineId, drinkType, drinkFlavour, price } = requestData;
 
+      // Machines can only generate QR codes for themselves
+      if (req.machine?.machineId !== machineId) {
+        return res.status(403).json({
+          success: false,
+          error: 'Machine ID does not match authenticated machine',
+        });
+      }
+
       // Validate machine
       const machineValidation = await MachineService.validateMachineById(machineId);
       if (!machineValidation.valid) {
@@ -39,26 +49,51 @@ export class ConsumptionController {
         });
       }
 
-      // Generate session and QR code
-      const sessionId = MachineSessionService.generateSessionId();
+      // Product must be configured in one of the machine's slots and in stock
+      const slotResult = await MachineCatalogService.findAvailableSlot(req.machine!.id, drinkType, drinkFlavour);
+      if (!slotResult.available) {
+        return res.status(409).json({
+          success: false,
+          error: slotResult.error!,
+        });
+      }
+
+      const slot = slotResult.slot!;
+      const configuredPrice = Number(slot.price);
+      if (price !== undefined && price !== configuredPrice) {
+        return res.status(400).json({
+          success: false,
+          error: `Price does not match the configured price of ${configuredPrice} for this product`,
+        });
+      }
+
+      // Persist session and generate QR code
+      const session = await MachineSessionService.createSession({
+        vendingMachineId: req.machine!.id,
+        drinkType,
+        drinkFlavour,
+        price: configuredPrice,
+        slotId: slot.id,
+      });
       const qrCodeData = MachineSessionService.createQRCodeData({
         machineQrCode: machineValidation.machine!.qrCode,
-        sessionId,
+        sessionId: session.id,
         drinkType,
         drinkFlavour,
-        price,
+        price: configuredPrice,
+        expiresAt: session.expiresAt,
       });
 
       const responseData: GenerateMachineQRResponse = {
         qrCode: qrCodeData,
-        sessionId,
+        sessionId: session.id,
         machineId,
         drinkDetails: {
           type: drinkType,
           flavour: drinkFlavour,
-          price,
+          price: configuredPrice,
         },
-        expiresAt: new Date(Date.now() + SESSION_CONFIG.EXPIRATION_MS),
+        expiresAt: session.expiresAt,
       };
 
       res.status(200).json({
@@ -95,46 +130,62 @@ export class ConsumptionController {
         });
       }
 
-      // Check if session has expired
-      if (MachineSessionService.isSessionExpired(sessionId)) {
+      const session = await MachineSessionService.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+      }
+
+      // Machines can only poll their own sessions
+      if (session.machineId !== req.machine?.id) {
+        return res.status(403).json({
+          success: false,
+          error: 'Session does not belong to this machine',
+        });
+      }
+
+      // Check if session has expired before payment
+      if (session.status === VendingSessionStatus.EXPIRED ||
+          (!session.consumptionId && MachineSessionService.isSessionExpired(session))) {
+        await MachineSessionService.expireSession(sessionId);
         return res.status(400).json({
           success: false,
           error: 'Session has expired',
         });
       }
 
-      // Check if there's a completed consumption for this session
-      const consumption = await prisma.consumption.findFirst({
-        where: {
-          vendingSessionId: sessionId,
-          status: 'COMPLETED',
-        },
-        include: {
-          voucher: {
-            select: {
-              voucherNumber: true,
+      // Check if there's a consumption recorded for this session
+      const consumption = session.consumptionId
+        ? await prisma.consumption.findUnique({
+            where: { id: session.consumptionId },
+            include: {
+              voucher: {
+                select: {
+                  voucherNumber: true,
+                },
+              },
             },
-          },
-        },
-        orderBy: {
-          consumedAt: 'desc',
-        },
-      });
+          })
+        : null;
 
       if (consumption) {
+        const canDispense = session.status === VendingSessionStatus.PAID;
         return res.status(200).json({
           success: true,
           data: {
             paymentCompleted: true,
             sessionId,
+            status: session.status,
             consumptionId: consumption.id,
             voucherNumber: consumption.voucher.voucherNumber,
             drinkType: consumption.drinkType as DrinkType,
             drinkFlavour: consumption.drinkFlavour as DrinkFlavour,
             consumedAt: consumption.consumedAt,
-            canDispense: true,
+            canDispense,
           },
-          message: 'Payment completed - ready to dispense',
+          message: canDispense ? 'Payment completed - ready to dispense' : `Session is ${session.status.toLowerCase()}`,
         });
       }
 
@@ -143,6 +194,7 @@ export class ConsumptionController {
         data: {
           paymentCompleted: false,
           sessionId,
+          status: session.status,
           canDispense: false,
         },
         message: 'Payment not completed yet',
@@ -156,36 +208,174 @@ export class ConsumptionController {
     }
   }
 
+  // Step 5 (push): Server-Sent Events stream of payment events for the authenticated machine
+  static async streamMachineEvents(req: Request, res: Response) {
+    try {
+      const vendingMachineId = req.machine!.id;
+
+      // Optional comma separated filter: ?sessionIds=<id>,<id>
+      const sessionIds = typeof req.query.sessionIds === 'string' && req.query.sessionIds.trim() !== ''
+        ? req.query.sessionIds.split(',').map((id) => id.trim())
+        : [];
+
+      if (sessionIds.length > SESSION_CONFIG.MAX_EVENT_STREAM_SESSION_FILTER) {
+        return res.status(400).json({
+          success: false,
+          error: `At most ${SESSION_CONFIG.MAX_EVENT_STREAM_SESSION_FILTER} session IDs can be watched per stream`,
+        });
+      }
+
+      if (sessionIds.some((id) => !MachineSessionService.isValidSessionId(id))) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid session ID format',
+        });
+      }
+
+      res.status(200);
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+      res.flushHeaders();
+
+      const writeEvent = (type: string, data: unknown) => {
+        res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      writeEvent('CONNECTED', {
+        machineId: req.machine!.machineId,
+        sessionIds,
+      });
+
+      const unsubscribe = MachineEventService.subscribe(vendingMachineId, (event: MachineEvent) => {
+        if (sessionIds.length > 0 && !sessionIds.includes(event.sessionId)) {
+          return;
+        }
+
+        writeEvent(event.type, {
+          sessionId: event.sessionId,
+          ...event.data,
+          occurredAt: event.occurredAt,
+        });
+      });
+
+      const heartbeat = setInterval(() => {
+        res.write(': heartbeat\n\n');
+      }, SESSION_CONFIG.EVENT_STREAM_HEARTBEAT_MS);
+
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    } catch (error) {
+      console.error('Error opening machine event stream:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to open event stream',
+        });
+      } else {
+        res.end();
+      }
+    }
+  }
+
+  // Step 6: Machine reports whether the drink was dispensed
+  static async reportDispenseResult(
+    req: TypedRequest<DispenseResultRequest>,
+    res: TypedResponse
+  ) {
+    try {
+      const sessionId = req.params.id;
+
+      if (!MachineSessionService.isValidSessionId(sessionId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid session ID format',
+        });
+      }
+
+      const validation = ValidationService.validateDispenseResultRequest(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          error: validation.errors.join(', '),
+        });
+      }
+
+      const session = await MachineSessionService.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+      }
+
+      // Machines can only report results for their own sessions
+      if (session.machineId !== req.machine?.id) {
+        return res.status(403).json({
+          success: false,
+          error: 'Session does not belong to this machine',
+        });
+      }
+
+      const { success, errorCode, message } = req.body;
+      const result = success
+        ? await ConsumptionService.confirmDispense(sessionId)
+        : await ConsumptionService.reverseDispense(sessionId, { errorCode: errorCode!.trim(), message });
+
+      if (!result.success) {
+        return res.status(409).json({
+          success: false,
+          error: result.error,
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          sessionId,
+          status: result.session!.status,
+          consumptionId: result.session!.consumptionId,
+          refunded: result.refunded,
+        },
+        message: success
+          ? 'Dispense confirmed'
+          : result.refunded ? 'Dispense failure recorded and voucher refunded' : 'Dispense failure recorded',
+      });
+    } catch (error) {
+      console.error('Error reporting dispense result:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to record dispense result',
+      });
+    }
+  }
+
   // Helper method to validate session
-  private static async validateSession(sessionId: string) {
-    // Check session ID format
-    if (!MachineSessionService.isValidSessionId(sessionId)) {
+  private static async validateSession(session: VendingSessionWithMachine) {
+    // Check if payment already exists for this session
+    if (session.consumptionId) {
       return {
         valid: false,
-        error: 'Invalid session ID format',
+        error: 'Payment already completed for this QR code',
       };
     }
 
     // Check if session has expired
-    if (MachineSessionService.isSessionExpired(sessionId)) {
+    if (session.status === VendingSessionStatus.EXPIRED || MachineSessionService.isSessionExpired(session)) {
+      await MachineSessionService.expireSession(session.id);
       return {
         valid: false,
         error: 'Session has expired',
       };
     }
 
-    // Check if payment already exists for this session
-    const existingConsumption = await prisma.consumption.findFirst({
-      where: {
-        vendingSessionId: sessionId,
-        status: 'COMPLETED',
-      },
-    });
-
-    if (existingConsumption) {
+    if (!MachineSessionService.isSessionPayable(session)) {
       return {
         valid: false,
-        error: 'Payment already completed for this QR code',
+        error: 'Session is no longer active',
       };
     }
 
@@ -194,48 +384,43 @@ export class ConsumptionController {
 
   // Helper method to validate QR code and extract session
   private static validateAndParseQRCode(qrCode: string) {
-    try {
-      // Parse QR code data
-      const qrData = ConsumptionService.parseDrinkFromQRCode(qrCode);
-      
-      // Extract session ID from QR
-      const sessionId = MachineSessionService.extractSessionId(qrCode);
-
-      if (!sessionId) {
-        return {
-          valid: false,
-          error: 'Invalid QR code - no session ID found',
-        };
-      }
-
+    // Verify signature/expiry and parse QR code data
+    const parseResult = ConsumptionService.parseDrinkFromQRCode(qrCode);
+    if (!parseResult.valid || !parseResult.data) {
       return {
-        valid: true,
-        qrData,
-        sessionId,
+        valid: false,
+        error: parseResult.error || 'Invalid QR code format',
       };
-    } catch (error) {
-      console.error('Error parsing QR code:', error);
+    }
+
+    const qrData = parseResult.data;
+    if (!qrData.sessionId) {
       return {
         valid: false,
-        error: 'Invalid QR code format',
+        error: 'Invalid QR code - no session ID found',
       };
     }
+
+    return {
+      valid: true,
+      qrData,
+      sessionId: qrData.sessionId,
+    };
   }
 
   // Helper method to prepare consumption request
   private static prepareConsumptionRequest(
     voucherId: string,
-    machineId: string,
-    sessionId: string,
-    qrData: { drinkType?: string; drinkFlavour?: string }
+    session: VendingSessionWithMachine
   ): ConsumptionRequest {
+    // Drink details come from the stored session, never from the scanned QR string
     return {
       voucherId,
-      machineId,
+      machineId: session.machine.machineId,
       quantity: 1,
-      drinkType: qrData.drinkType,
-      drinkFlavour: qrData.drinkFlavour,
-      sessionId,
+      drinkType: session.drinkType,
+      drinkFlavour: session.drinkFlavour,
+      sessionId: session.id,
     };
   }
 
@@ -285,8 +470,24 @@ export class ConsumptionController {
 
       const { qrData, sessionId } = qrValidation;
 
-      // Validate session (format, expiration, duplicate payment check)
-      const sessionValidation = await ConsumptionController.validateSession(sessionId!);
+      const session = await MachineSessionService.getSession(sessionId!);
+      if (!session) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid QR code - session not found',
+        });
+      }
+
+      // The QR code must have been generated for the session's machine
+      if (qrData!.machineQrCode !== session.machine.qrCode) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid QR code - machine does not match session',
+        });
+      }
+
+      // Validate session (expiration, duplicate payment check)
+      const sessionValidation = await ConsumptionController.validateSession(session);
       if (!sessionValidation.valid) {
         return res.status(400).json({
           success: false,
@@ -295,7 +496,7 @@ export class ConsumptionController {
       }
 
       // Validate machine
-      const machineValidation = await ConsumptionService.validateMachineQR(qrData!.machineQrCode);
+      const machineValidation = await ConsumptionService.validateMachineQR(session.machine.qrCode);
       if (!machineValidation.valid) {
         return res.status(400).json({
           success: false,
@@ -312,13 +513,17 @@ export class ConsumptionController {
         });
       }
 
+      // Only claim the session once the payment can go ahead, so a rejected scan leaves it untouched
+      const claimed = await MachineSessionService.markSessionScanned(session.id, userId);
+      if (!claimed) {
+        return res.status(409).json({
+          success: false,
+          error: 'This QR code is being used by another customer',
+        });
+      }
+
       // Prepare and process consumption
-      const consumptionRequest = ConsumptionController.prepareConsumptionRequest(
-        voucherIdString,
-        machineValidation.machine!.id,
-        sessionId!,
-        qrData!
-      );
+      const consumptionRequest = ConsumptionController.prepareConsumptionRequest(voucherIdString, session);
 
       const result = await ConsumptionService.processConsumption(userId, consumptionRequest);
 
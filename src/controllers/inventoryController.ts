@@ -0,0 +1,299 @@
+import { Request, Response } from 'express';
+import { StockAlertStatus } from '@prisma/client';
+import { MachineCatalogService } from '../services/machineCatalogService';
+import { StockAlertService, StockAlertRuleResult } from '../services/stockAlertService';
+import { ValidationService } from '../validation/machineValidation';
+import { ApiResponse, StockAlertRuleRequest, TypedRequest } from '../types';
+import { isUUID } from '../utils/validationHelper';
+
+export class InventoryController {
+  // Maps a failed rule operation to the matching HTTP status
+  private static sendRuleError(res: Response, result: StockAlertRuleResult): void {
+    const notFound = result.error === 'Alert rule not found' || result.error === 'Machine not found';
+    const response: ApiResponse = {
+      success: false,
+      error: result.error || 'Alert rule operation failed',
+    };
+    res.status(notFound ? 404 : 400).json(response);
+  }
+
+  private static sendInvalidId(res: Response, error: string): void {
+    const response: ApiResponse = {
+      success: false,
+      error,
+    };
+    res.status(400).json(response);
+  }
+
+  // GET /api/inventory/refill-plan?city=&thresholdPercent=
+  static async getRefillPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const thresholdPercent = req.query.thresholdPercent !== undefined
+        ? Number(req.query.thresholdPercent)
+        : undefined;
+
+      if (thresholdPercent !== undefined &&
+        (!Number.isInteger(thresholdPercent) || thresholdPercent < 1 || thresholdPercent > 100)) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'thresholdPercent must be an integer between 1 and 100',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const plan = await MachineCatalogService.getRefillPlan({
+        city: typeof req.query.city === 'string' ? req.query.city : undefined,
+        thresholdPercent,
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          cities: plan,
+          totalMachines: plan.reduce((total, city) => total + city.machineCount, 0),
+        },
+        message: 'Refill plan generated successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in getRefillPlan controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to generate refill plan',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // GET /api/inventory/alerts?status=&city=
+  static async getAlerts(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as StockAlertStatus | undefined;
+
+      if (status !== undefined && !Object.values(StockAlertStatus).includes(status)) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Status must be one of: ${Object.values(StockAlertStatus).join(', ')}`,
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const alerts = await StockAlertService.listAlerts({
+        status,
+        city: typeof req.query.city === 'string' ? req.query.city : undefined,
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: alerts,
+        message: 'Stock alerts retrieved successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in getAlerts controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to fetch stock alerts',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // POST /api/inventory/alerts/:id/acknowledge
+  static async acknowledgeAlert(req: Request, res: Response): Promise<void> {
+    try {
+      const alertId = req.params.id;
+
+      if (!isUUID(alertId)) {
+        InventoryController.sendInvalidId(res, 'Invalid alert ID');
+        return;
+      }
+
+      const result = await StockAlertService.acknowledgeAlert(alertId, req.user!.id);
+
+      if (!result.success) {
+        const response: ApiResponse = {
+          success: false,
+          error: result.error,
+        };
+        res.status(result.error === 'Alert not found' ? 404 : 409).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.alert,
+        message: 'Stock alert acknowledged',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in acknowledgeAlert controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to acknowledge stock alert',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // GET /api/inventory/alert-rules
+  static async getAlertRules(req: Request, res: Response): Promise<void> {
+    try {
+      const rules = await StockAlertService.listRules();
+
+      const response: ApiResponse = {
+        success: true,
+        data: rules,
+        message: 'Alert rules retrieved successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in getAlertRules controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to fetch alert rules',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // POST /api/inventory/alert-rules
+  static async createAlertRule(req: TypedRequest<StockAlertRuleRequest>, res: Response): Promise<void> {
+    try {
+      const body = req.body || {};
+      const validation = ValidationService.validateStockAlertRuleRequest(body as unknown as Record<string, unknown>);
+      if (!validation.isValid) {
+        const response: ApiResponse = {
+          success: false,
+          error: validation.errors.join(', '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const result = await StockAlertService.createRule(body, req.user!.id);
+
+      if (!result.success) {
+        InventoryController.sendRuleError(res, result);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.rule,
+        message: 'Alert rule created successfully',
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Error in createAlertRule controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to create alert rule',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // PUT /api/inventory/alert-rules/:id
+  static async updateAlertRule(req: TypedRequest<StockAlertRuleRequest>, res: Response): Promise<void> {
+    try {
+      const ruleId = req.params.id;
+
+      if (!isUUID(ruleId)) {
+        InventoryController.sendInvalidId(res, 'Invalid alert rule ID');
+        return;
+      }
+
+      const body = req.body || {};
+      const validation = ValidationService.validateStockAlertRuleRequest(body as unknown as Record<string, unknown>);
+      if (!validation.isValid) {
+        const response: ApiResponse = {
+          success: false,
+          error: validation.errors.join(', '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const result = await StockAlertService.updateRule(ruleId, body);
+
+      if (!result.success) {
+        InventoryController.sendRuleError(res, result);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.rule,
+        message: 'Alert rule updated successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in updateAlertRule controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to update alert rule',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // DELETE /api/inventory/alert-rules/:id
+  static async deleteAlertRule(req: Request, res: Response): Promise<void> {
+    try {
+      const ruleId = req.params.id;
+
+      if (!isUUID(ruleId)) {
+        InventoryController.sendInvalidId(res, 'Invalid alert rule ID');
+        return;
+      }
+
+      const deleted = await StockAlertService.deleteRule(ruleId);
+
+      if (!deleted) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Alert rule not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Alert rule deleted successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in deleteAlertRule controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to delete alert rule',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+}
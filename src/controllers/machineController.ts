@@ -0,0 +1,681 @@
+import { Request, Response } from 'express';
+import { MachineAuthService, MachineApiKeyResult } from '../services/machineAuthService';
+import { MachineHeartbeatService } from '../services/machineHeartbeatService';
+import { MachineService } from '../services/machineService';
+import { MachineCatalogService, SlotResult } from '../services/machineCatalogService';
+import { ValidationService } from '../validation/machineValidation';
+import { ApiResponse, ConfigureSlotRequest, CreateMachineRequest, RefillSlotRequest, MachineHeartbeatRequest, MachineListFilters, MachineResponse, TypedRequest, UpdateMachineRequest } from '../types';
+import { MACHINE_CONFIG, VALIDATION_LIMITS } from '../config/constants';
+
+export class MachineController {
+  // Maps a failed key operation to the matching HTTP status
+  private static sendKeyError(res: Response, error?: string): void {
+    const response: ApiResponse = {
+      success: false,
+      error: error || 'Machine API key operation failed',
+    };
+    res.status(error === 'Machine not found' ? 404 : 409).json(response);
+  }
+
+  // Sends a freshly issued key; the plaintext key is only ever returned here
+  private static sendKey(res: Response, statusCode: number, result: MachineApiKeyResult, message: string): void {
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        ...result.key,
+        note: 'Store this API key on the machine now. It cannot be retrieved again.',
+      },
+      message,
+    };
+    res.status(statusCode).json(response);
+  }
+
+  // Parses an optional "true"/"false" query parameter; undefined when absent, null when invalid
+  private static parseBooleanQuery(value: unknown): boolean | undefined | null {
+    if (value === undefined) return undefined;
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return null;
+  }
+
+  private static sendMachineNotFound(res: Response): void {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Machine not found',
+    };
+    res.status(404).json(response);
+  }
+
+  // GET /api/machines/nearby?lat=&lng=&radius= (public)
+  static async getNearbyMachines(req: Request, res: Response): Promise<void> {
+    try {
+      if (typeof req.query.lat !== 'string' || req.query.lat.trim() === '' ||
+        typeof req.query.lng !== 'string' || req.query.lng.trim() === '') {
+        const response: ApiResponse = {
+          success: false,
+          error: 'lat and lng query parameters are required',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const latitude = Number(req.query.lat);
+      const longitude = Number(req.query.lng);
+      const radiusKm = req.query.radius === undefined
+        ? MACHINE_CONFIG.DEFAULT_NEARBY_RADIUS_KM
+        : Number(req.query.radius);
+
+      const validation = ValidationService.validateNearbySearch({ latitude, longitude, radiusKm });
+      if (!validation.isValid) {
+        const response: ApiResponse = {
+          success: false,
+          error: validation.errors.join(', '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const machines = await MachineService.findNearbyMachines({ latitude, longitude, radiusKm });
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          machines,
+          radiusKm,
+        },
+        message: 'Nearby machines retrieved successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in getNearbyMachines controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to fetch nearby machines',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // GET /api/machines?city=&isOnline=&isActive=&version=
+  static async listMachines(req: Request, res: Response): Promise<void> {
+    try {
+      const isOnline = MachineController.parseBooleanQuery(req.query.isOnline);
+      const isActive = MachineController.parseBooleanQuery(req.query.isActive);
+
+      if (isOnline === null || isActive === null) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'isOnline and isActive must be "true" or "false"',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const filters: MachineListFilters = {
+        city: typeof req.query.city === 'string' ? req.query.city : undefined,
+        version: typeof req.query.version === 'string' ? req.query.version : undefined,
+        isOnline,
+        isActive,
+      };
+
+      const machines = await MachineService.listMachines(filters);
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          machines,
+          total: machines.length,
+        },
+        message: 'Machines retrieved successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in listMachines controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to fetch machines',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // GET /api/machines/:machineId
+  static async getMachine(req: Request, res: Response): Promise<void> {
+    try {
+      const machine = await MachineService.getMachineDetails(req.params.machineId);
+
+      if (!machine) {
+        MachineController.sendMachineNotFound(res);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: machine,
+        message: 'Machine retrieved successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in getMachine controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to fetch machine',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // POST /api/machines
+  static async createMachine(req: TypedRequest<CreateMachineRequest>, res: Response): Promise<void> {
+    try {
+      const body = req.body || {};
+      const validation = ValidationService.validateCreateMachineRequest(body as unknown as Record<string, unknown>);
+      if (!validation.isValid) {
+        const response: ApiResponse = {
+          success: false,
+          error: validation.errors.join(', '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { machineId, name, location, address, city, state, pincode, latitude, longitude, apiEndpoint, isActive } = body;
+      const machine = await MachineService.createMachine({
+        machineId: machineId.trim(),
+        name: name.trim(),
+        location: location.trim(),
+        address,
+        city: city.trim(),
+        state,
+        pincode,
+        latitude,
+        longitude,
+        apiEndpoint,
+        isActive,
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: machine,
+        message: 'Machine created successfully. Issue an API key before deploying it.',
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Error in createMachine controller:', error);
+
+      const isConflict = error instanceof Error && error.message === 'Machine ID already exists';
+      const response: ApiResponse = {
+        success: false,
+        error: isConflict ? 'Machine ID already exists' : 'Failed to create machine',
+      };
+
+      res.status(isConflict ? 409 : 500).json(response);
+    }
+  }
+
+  // PUT /api/machines/:machineId
+  static async updateMachine(req: TypedRequest<UpdateMachineRequest>, res: Response): Promise<void> {
+    try {
+      const body = req.body || {};
+      const validation = ValidationService.validateUpdateMachineRequest(body as Record<string, unknown>);
+      if (!validation.isValid) {
+        const response: ApiResponse = {
+          success: false,
+          error: validation.errors.join(', '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { name, location, address, city, state, pincode, latitude, longitude, apiEndpoint } = body;
+      const machine = await MachineService.updateMachine(req.params.machineId, {
+        name: name?.trim(),
+        location: location?.trim(),
+        address,
+        city: city?.trim(),
+        state,
+        pincode,
+        latitude,
+        longitude,
+        apiEndpoint,
+      });
+
+      if (!machine) {
+        MachineController.sendMachineNotFound(res);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: machine,
+        message: 'Machine updated successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in updateMachine controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to update machine',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // POST /api/machines/:machineId/activate
+  static async activateMachine(req: Request, res: Response): Promise<void> {
+    await MachineController.setMachineActive(req, res, true);
+  }
+
+  // POST /api/machines/:machineId/deactivate
+  static async deactivateMachine(req: Request, res: Response): Promise<void> {
+    await MachineController.setMachineActive(req, res, false);
+  }
+
+  private static async setMachineActive(req: Request, res: Response, isActive: boolean): Promise<void> {
+    try {
+      const machine = await MachineService.setMachineActive(req.params.machineId, isActive);
+
+      if (!machine) {
+        MachineController.sendMachineNotFound(res);
+        return;
+      }
+
+      const response: ApiResponse<MachineResponse> = {
+        success: true,
+        data: machine,
+        message: isActive ? 'Machine activated successfully' : 'Machine deactivated successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in setMachineActive controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: isActive ? 'Failed to activate machine' : 'Failed to deactivate machine',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // POST /api/machines/:machineId/qr-code/regenerate
+  static async regenerateQRCode(req: Request, res: Response): Promise<void> {
+    try {
+      const machine = await MachineService.regenerateQRCode(req.params.machineId);
+
+      if (!machine) {
+        MachineController.sendMachineNotFound(res);
+        return;
+      }
+
+      const response: ApiResponse<MachineResponse> = {
+        success: true,
+        data: machine,
+        message: 'Machine QR code regenerated successfully. Open sessions have been expired.',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in regenerateQRCode controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to regenerate machine QR code',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // Maps a failed slot operation to the matching HTTP status
+  private static sendSlotError(res: Response, result: SlotResult): void {
+    const notFound = result.error === 'Machine not found' || result.error === 'Slot not found';
+    const response: ApiResponse = {
+      success: false,
+      error: result.error || 'Slot operation failed',
+    };
+    res.status(notFound ? 404 : 400).json(response);
+  }
+
+  // GET /api/machines/:machineId/slots
+  static async getSlots(req: Request, res: Response): Promise<void> {
+    try {
+      const slots = await MachineCatalogService.getSlots(req.params.machineId);
+
+      if (!slots) {
+        MachineController.sendMachineNotFound(res);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: slots,
+        message: 'Machine slots retrieved successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in getSlots controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to fetch machine slots',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // PUT /api/machines/:machineId/slots/:slotNumber
+  static async configureSlot(req: TypedRequest<ConfigureSlotRequest>, res: Response): Promise<void> {
+    try {
+      const slotNumber = Number(req.params.slotNumber);
+      const body = req.body || {};
+
+      const validation = ValidationService.validateConfigureSlotRequest(slotNumber, body as unknown as Record<string, unknown>);
+      if (!validation.isValid) {
+        const response: ApiResponse = {
+          success: false,
+          error: validation.errors.join(', '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { drinkType, drinkFlavour, price, capacity, stock, isActive } = body;
+      const result = await MachineCatalogService.configureSlot(req.params.machineId, slotNumber, {
+        drinkType,
+        drinkFlavour,
+        price,
+        capacity,
+        stock,
+        isActive,
+      });
+
+      if (!result.success) {
+        MachineController.sendSlotError(res, result);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.slot,
+        message: 'Machine slot configured successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in configureSlot controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to configure machine slot',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // POST /api/machines/:machineId/slots/:slotNumber/refill
+  static async refillSlot(req: TypedRequest<RefillSlotRequest>, res: Response): Promise<void> {
+    try {
+      const slotNumber = Number(req.params.slotNumber);
+      const body = req.body || {};
+
+      const validation = ValidationService.validateRefillSlotRequest(slotNumber, body as Record<string, unknown>);
+      if (!validation.isValid) {
+        const response: ApiResponse = {
+          success: false,
+          error: validation.errors.join(', '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const result = await MachineCatalogService.refillSlot(req.params.machineId, slotNumber, body.stock);
+
+      if (!result.success) {
+        MachineController.sendSlotError(res, result);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.slot,
+        message: 'Machine slot refilled successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in refillSlot controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to refill machine slot',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // DELETE /api/machines/:machineId/slots/:slotNumber
+  static async removeSlot(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await MachineCatalogService.removeSlot(req.params.machineId, Number(req.params.slotNumber));
+
+      if (!result.success) {
+        MachineController.sendSlotError(res, result);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Machine slot removed successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in removeSlot controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to remove machine slot',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // POST /api/machines/:machineId/api-key
+  static async issueApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await MachineAuthService.issueApiKey(req.params.machineId);
+
+      if (!result.success) {
+        MachineController.sendKeyError(res, result.error);
+        return;
+      }
+
+      MachineController.sendKey(res, 201, result, 'Machine API key issued successfully');
+    } catch (error) {
+      console.error('Error in issueApiKey controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to issue machine API key',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // POST /api/machines/:machineId/api-key/rotate
+  static async rotateApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await MachineAuthService.rotateApiKey(req.params.machineId);
+
+      if (!result.success) {
+        MachineController.sendKeyError(res, result.error);
+        return;
+      }
+
+      MachineController.sendKey(res, 200, result, 'Machine API key rotated successfully');
+    } catch (error) {
+      console.error('Error in rotateApiKey controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to rotate machine API key',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // DELETE /api/machines/:machineId/api-key
+  static async revokeApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await MachineAuthService.revokeApiKey(req.params.machineId);
+
+      if (!result.success) {
+        MachineController.sendKeyError(res, result.error);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Machine API key revoked successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in revokeApiKey controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to revoke machine API key',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // POST /api/machines/:machineId/heartbeat (machine authenticated)
+  static async heartbeat(req: Request, res: Response): Promise<void> {
+    try {
+      const { machineId } = req.params;
+
+      // A machine may only report its own heartbeat
+      if (req.machine?.machineId !== machineId) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Machine credentials do not match the requested machine',
+        };
+        res.status(403).json(response);
+        return;
+      }
+
+      const body = req.body || {};
+      const validation = ValidationService.validateHeartbeatRequest(body);
+      if (!validation.isValid) {
+        const response: ApiResponse = {
+          success: false,
+          error: validation.errors.join(', '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { version, temperature, waterLevel, errorCodes }: MachineHeartbeatRequest = body;
+      const result = await MachineHeartbeatService.recordHeartbeat(req.machine.id, {
+        version,
+        temperature,
+        waterLevel,
+        errorCodes,
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        message: 'Heartbeat recorded',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in heartbeat controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to record heartbeat',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // GET /api/machines/:machineId/telemetry
+  static async getTelemetry(req: Request, res: Response): Promise<void> {
+    try {
+      const limit = parseInt(req.query.limit as string) || VALIDATION_LIMITS.DEFAULT_HISTORY_LIMIT;
+
+      const validation = ValidationService.validatePaginationParams({ limit }, VALIDATION_LIMITS.MAX_HISTORY_LIMIT);
+      if (!validation.isValid) {
+        const response: ApiResponse = {
+          success: false,
+          error: validation.errors.join(', '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const machine = await MachineService.getMachineById(req.params.machineId);
+      if (!machine) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Machine not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const telemetry = await MachineHeartbeatService.getRecentTelemetry(machine.id, limit);
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          machineId: machine.machineId,
+          isOnline: machine.isOnline,
+          lastPing: machine.lastPing,
+          version: machine.version,
+          telemetry,
+        },
+        message: 'Machine telemetry fetched successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error in getTelemetry controller:', error);
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to fetch machine telemetry',
+      };
+
+      res.status(500).json(response);
+    }
+  }
+}
@@ -1,9 +1,13 @@
 import { Request, Response } from 'express';
+import { PaymentCallbackOutcome, PaymentWebhookEventStatus } from '@prisma/client';
 import { VoucherService } from '../services/voucherService';
 import { ApiResponse, TypedRequest, TypedResponse } from '../types';
 import { isUUID } from '../utils/validationHelper';
 import { prisma } from '../config/database';
 import { PaymentService } from '../services/paymentService';
+import { PaymentWebhookService } from '../services/paymentWebhookService';
+import { PaymentReconciliationService } from '../services/paymentReconciliationService';
+import { RefundService } from '../services/refundService';
 import { PaymentInitiationRequest } from '../types/payment.types';
 
 // ========================================
@@ -86,7 +90,7 @@ export class PaymentController {
         amount: Number(order.totalAmount), // Convert Decimal to number
         userId: userId,
         userPhone: user.phone,
-        description: `Voucher purchase - ${order.totalDrinks} drinks`,
+        description: `${order.orderType === 'VOUCHER_TOPUP' ? 'Voucher top-up' : 'Voucher purchase'} - ${order.totalDrinks} drinks`,
       };
 
       // Initiate payment with PhonePe
@@ -163,8 +167,32 @@ export class PaymentController {
         });
       }
 
-      // Check payment status with PhonePe
-      const statusResponse = await PaymentService.checkPaymentStatus(merchantTransactionId);
+      // Refunds settle through RefundService so the voucher stays in step with them
+      if (transaction.type === 'REFUND') {
+        if (transaction.status === 'PENDING') {
+          await RefundService.syncRefundStatus(transaction);
+        }
+        const refund = await PaymentService.getTransactionByMerchantId(merchantTransactionId);
+
+        return res.status(200).json({
+          success: true,
+          data: {
+            refundStatus: refund!.status,
+            transaction: {
+              id: refund!.id,
+              type: refund!.type,
+              status: refund!.status,
+              amount: refund!.amount,
+              phonepeTransactionId: refund!.phonepeTransactionId,
+              failureReason: refund!.failureReason,
+            },
+          },
+          message: 'Refund status retrieved successfully',
+        });
+      }
+
+      // Read the gateway state, then apply it through the webhook inbox like a callback
+      const statusResponse = await PaymentService.fetchPaymentStatus(merchantTransactionId);
 
       if (!statusResponse.success) {
         return res.status(400).json({
@@ -174,88 +202,71 @@ export class PaymentController {
         });
       }
 
-      // Refresh transaction data after status check (it should be updated)
-      const updatedTransaction = await PaymentService.getTransactionByMerchantId(merchantTransactionId);
-
-      // If payment is successful and voucher hasn't been created yet
-      if (statusResponse.data?.state === 'COMPLETED' && 
-          updatedTransaction?.status === 'SUCCESS' && 
-          updatedTransaction.order?.status === 'PENDING') {
-        
-        try {
-          // Complete voucher creation
-          const voucher = await VoucherService.completeVoucherPurchase(
-            updatedTransaction.orderId!,
-            statusResponse.data.transactionId,
-            statusResponse.data
-          );
-
-          return res.status(200).json({
-            success: true,
-            data: {
-              paymentStatus: statusResponse.data.state,
-              transaction: {
-                id: updatedTransaction.id,
-                status: updatedTransaction.status,
-                amount: updatedTransaction.amount,
-                phonepeTransactionId: statusResponse.data.transactionId,
-              },
-              voucher: {
-                id: voucher.id,
-                voucherNumber: voucher.voucherNumber,
-                totalDrinks: voucher.totalDrinks,
-                consumedDrinks: voucher.consumedDrinks,
-                remainingDrinks: voucher.remainingDrinks,
-                pricePerDrink: voucher.pricePerDrink,
-                totalPrice: voucher.totalPrice,
-                status: voucher.status,
-                purchaseDate: voucher.purchaseDate,
-                expiryDate: voucher.expiryDate,
-              },
-              order: voucher.order,
-            },
-            message: 'Payment completed and voucher created successfully',
-          });
-        } catch (voucherError) {
-          console.error('Error creating voucher after successful payment:', voucherError);
-          // Payment was successful but voucher creation failed
-          // This needs manual intervention
-          return res.status(200).json({
-            success: true,
-            data: {
-              paymentStatus: statusResponse.data.state,
-              transaction: {
-                id: transaction.id,
-                status: transaction.status,
-                amount: transaction.amount,
-                phonepeTransactionId: statusResponse.data.transactionId,
-              },
-              voucherCreated: false,
-              error: 'Payment successful but voucher creation failed. Please contact support.',
-            },
-            message: 'Payment completed but voucher creation pending',
-          });
-        }
+      await PaymentWebhookService.applyStatusCheck(merchantTransactionId, statusResponse);
+
+      const finalTransaction = (await PaymentService.getTransactionByMerchantId(merchantTransactionId)) || transaction;
+      const paymentStatus = statusResponse.data?.state || 'UNKNOWN';
+      const order = finalTransaction.order ? {
+        id: finalTransaction.order.id,
+        orderNumber: finalTransaction.order.orderNumber,
+        status: finalTransaction.order.status,
+        paymentStatus: finalTransaction.order.paymentStatus,
+      } : null;
+      const transactionData = {
+        id: finalTransaction.id,
+        status: finalTransaction.status,
+        amount: finalTransaction.amount,
+        phonepeTransactionId: statusResponse.data?.transactionId || finalTransaction.phonepeTransactionId,
+      };
+
+      // This attempt paid for the order
+      if (paymentStatus === 'COMPLETED' && finalTransaction.status === 'SUCCESS' && order?.status === 'COMPLETED') {
+        const voucher = await VoucherService.getOrderVoucher(order.id, userId);
+
+        return res.status(200).json({
+          success: true,
+          data: {
+            paymentStatus,
+            transaction: transactionData,
+            voucher: voucher ? {
+              id: voucher.id,
+              voucherNumber: voucher.voucherNumber,
+              totalDrinks: voucher.totalDrinks,
+              consumedDrinks: voucher.consumedDrinks,
+              remainingDrinks: voucher.remainingDrinks,
+              pricePerDrink: voucher.pricePerDrink,
+              totalPrice: voucher.totalPrice,
+              status: voucher.status,
+              purchaseDate: voucher.purchaseDate,
+              expiryDate: voucher.expiryDate,
+            } : null,
+            order,
+          },
+          message: 'Payment completed successfully',
+        });
+      }
+
+      if (paymentStatus === 'COMPLETED' && order?.status === 'PENDING') {
+        // Completing the order failed; the webhook inbox and the reconciliation job retry it
+        return res.status(200).json({
+          success: true,
+          data: {
+            paymentStatus,
+            transaction: transactionData,
+            order,
+            voucherCreated: false,
+            error: 'Payment successful but voucher creation failed. Please contact support.',
+          },
+          message: 'Payment completed but voucher creation pending',
+        });
       }
 
-      // Return current status (use updated transaction data)
-      const finalTransaction = updatedTransaction || transaction;
       res.status(200).json({
         success: true,
         data: {
-          paymentStatus: statusResponse.data?.state || 'UNKNOWN',
-          transaction: {
-            id: finalTransaction.id,
-            status: finalTransaction.status,
-            amount: finalTransaction.amount,
-            phonepeTransactionId: statusResponse.data?.transactionId || finalTransaction.phonepeTransactionId,
-          },
-          order: finalTransaction.order ? {
-            id: finalTransaction.order.id,
-            orderNumber: finalTransaction.order.orderNumber,
-            status: finalTransaction.order.status,
-            paymentStatus: finalTransaction.order.paymentStatus,
-          } : null,
+          paymentStatus,
+          transaction: transactionData,
+          order,
         },
         message: 'Payment status retrieved successfully',
       });
@@ -274,89 +285,328 @@ export class PaymentController {
   // ========================================
 
   /**
-   * Handle PhonePe webhook callbacks
+   * Handle payment gateway webhook callbacks (PhonePe, or the local simulator)
    * POST /api/payments/webhook
    */
   static async handleWebhook(req: Request, res: Response) {
     try {
-      const xVerify = req.headers['x-verify'] as string;
-      const response = req.body.response;
+      const xVerify = req.headers['x-verify'] as string | undefined;
+      const response = req.body?.response;
+
+      // Every callback is stored with its outcome before we respond
+      const result = await PaymentWebhookService.handleCallback(xVerify, response);
 
-      if (!xVerify || !response) {
+      if (result.outcome === PaymentCallbackOutcome.REJECTED) {
+        console.error('Rejected webhook callback:', result.message);
         return res.status(400).json({
           success: false,
-          error: 'Missing required webhook headers or body',
+          error: result.message,
         });
       }
 
-      // Verify callback authenticity
-      const verificationResult = await PaymentService.verifyCallback(xVerify, response);
+      // Acknowledge receipt; events that failed to apply stay in the inbox and are retried
+      res.status(200).json({
+        success: true,
+        data: {
+          callbackId: result.callbackId,
+          outcome: result.outcome,
+          eventId: result.eventId,
+          eventStatus: result.eventStatus,
+        },
+        message: 'Webhook processed successfully',
+      });
 
-      if (!verificationResult.isValid) {
-        console.error('Invalid webhook callback:', verificationResult.error);
+    } catch (error) {
+      console.error('Webhook processing error:', error);
+      
+      // The callback could not be stored; let PhonePe redeliver it
+      res.status(500).json({
+        success: false,
+        error: 'Failed to record webhook',
+      });
+    }
+  }
+
+  /**
+   * List payment webhook inbox events (Admin only)
+   * GET /api/payments/webhook-events
+   */
+  static async listWebhookEvents(req: Request, res: Response) {
+    try {
+      const { status, merchantTransactionId } = req.query;
+
+      if (status !== undefined && !Object.values(PaymentWebhookEventStatus).includes(status as PaymentWebhookEventStatus)) {
         return res.status(400).json({
           success: false,
-          error: 'Invalid webhook signature',
-        });
-      }
-
-      const transactionData = verificationResult.transactionData;
-      console.log('Valid webhook received:', transactionData);
-
-      // If payment is successful, complete voucher creation
-      if (transactionData.state === 'COMPLETED') {
-        try {
-          // Get transaction from database
-          const transaction = await PaymentService.getTransactionByMerchantId(
-            transactionData.merchantTransactionId
-          );
-
-          if (transaction && transaction.orderId && transaction.order?.status === 'PENDING') {
-            // Complete voucher creation
-            await VoucherService.completeVoucherPurchase(
-              transaction.orderId,
-              transactionData.transactionId,
-              transactionData
-            );
-            
-            console.log(`Voucher created successfully for transaction ${transactionData.merchantTransactionId}`);
-          }
-        } catch (voucherError) {
-          console.error('Error creating voucher from webhook:', voucherError);
-          // Don't fail the webhook response, just log the error
-          // The voucher creation can be handled separately
-        }
+          error: `Status must be one of: ${Object.values(PaymentWebhookEventStatus).join(', ')}`,
+        });
       }
 
-      // Always return success to PhonePe to acknowledge webhook receipt
+      const events = await PaymentWebhookService.listEvents({
+        status: status as PaymentWebhookEventStatus | undefined,
+        merchantTransactionId: typeof merchantTransactionId === 'string' ? merchantTransactionId : undefined,
+      });
+
       res.status(200).json({
         success: true,
-        message: 'Webhook processed successfully',
+        data: events,
+        message: 'Webhook events retrieved successfully',
       });
 
     } catch (error) {
-      console.error('Webhook processing error:', error);
-      
-      // Return success even on error to avoid PhonePe retries
-      // Log the error for manual investigation
+      console.error('Error listing webhook events:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve webhook events',
+      });
+    }
+  }
+
+  /**
+   * Replay a failed or dead-lettered webhook event (Admin only)
+   * POST /api/payments/webhook-events/:id/replay
+   */
+  static async replayWebhookEvent(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      if (!isUUID(id)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Valid webhook event ID is required',
+        });
+      }
+
+      const result = await PaymentWebhookService.replayEvent(id);
+
+      if (!result.success) {
+        return res.status(result.error === 'Webhook event not found' ? 404 : 409).json({
+          success: false,
+          error: result.error,
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.event,
+        message: `Webhook event replayed (${result.event!.status.toLowerCase()})`,
+      });
+
+    } catch (error) {
+      console.error('Error replaying webhook event:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to replay webhook event',
+      });
+    }
+  }
+
+  /**
+   * Settle a simulated payment and fire its signed callback (PAYMENT_PROVIDER=simulated only)
+   * POST /api/payments/simulator/:merchantTransactionId/settle
+   */
+  static async settleSimulatedPayment(req: TypedRequest<{ state?: string }>, res: TypedResponse) {
+    try {
+      const { merchantTransactionId } = req.params;
+      const state = (req.body?.state || 'COMPLETED').toUpperCase();
+
+      if (PaymentService.getConfig().provider !== 'simulated') {
+        return res.status(404).json({
+          success: false,
+          error: 'Payment simulator is not enabled',
+        });
+      }
+
+      if (state !== 'COMPLETED' && state !== 'FAILED' && state !== 'CANCELLED') {
+        return res.status(400).json({
+          success: false,
+          error: 'State must be COMPLETED, FAILED or CANCELLED',
+        });
+      }
+
+      const settled = await PaymentService.settleSimulatedPayment(merchantTransactionId, state);
+
+      if (!settled) {
+        return res.status(409).json({
+          success: false,
+          error: 'Simulated payment not found or already settled',
+        });
+      }
+
       res.status(200).json({
         success: true,
-        message: 'Webhook received',
+        data: { merchantTransactionId, state },
+        message: 'Simulated payment settled and callback sent',
+      });
+
+    } catch (error) {
+      console.error('Error settling simulated payment:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to settle simulated payment',
       });
     }
   }
 
+  // ========================================
+  // RECONCILIATION
+  // ========================================
+
+  /**
+   * Reconcile stuck pending payments now (Admin only)
+   * POST /api/payments/reconciliation/run
+   */
+  static async runReconciliation(req: Request, res: Response) {
+    try {
+      const summary = await PaymentReconciliationService.reconcilePendingTransactions();
+
+      res.status(200).json({
+        success: true,
+        data: summary,
+        message: `Reconciled ${summary.checked} pending payment(s)`,
+      });
+
+    } catch (error) {
+      console.error('Error running payment reconciliation:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to run payment reconciliation',
+      });
+    }
+  }
+
+  /**
+   * List daily reconciliation reports (Admin only)
+   * GET /api/payments/reconciliation/reports
+   */
+  static async listReconciliationReports(req: Request, res: Response) {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 30;
+
+      if (isNaN(limit) || limit < 1 || limit > 366) {
+        return res.status(400).json({
+          success: false,
+          error: 'Limit must be between 1 and 366',
+        });
+      }
+
+      const reports = await PaymentReconciliationService.listReports(limit);
+
+      res.status(200).json({
+        success: true,
+        data: reports,
+        message: 'Reconciliation reports retrieved successfully',
+      });
+
+    } catch (error) {
+      console.error('Error listing reconciliation reports:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve reconciliation reports',
+      });
+    }
+  }
+
+  /**
+   * Get the reconciliation report for a day, including mismatches (Admin only)
+   * GET /api/payments/reconciliation/reports/:date
+   */
+  static async getReconciliationReport(req: Request, res: Response) {
+    try {
+      const reportDate = PaymentController.parseReportDate(req.params.date);
+
+      if (!reportDate) {
+        return res.status(400).json({
+          success: false,
+          error: 'Date must be in YYYY-MM-DD format',
+        });
+      }
+
+      const report = await PaymentReconciliationService.getReport(reportDate);
+
+      if (!report) {
+        return res.status(404).json({
+          success: false,
+          error: 'Reconciliation report not found',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: report,
+        message: 'Reconciliation report retrieved successfully',
+      });
+
+    } catch (error) {
+      console.error('Error retrieving reconciliation report:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve reconciliation report',
+      });
+    }
+  }
+
+  /**
+   * Generate or regenerate the reconciliation report for a past day (Admin only)
+   * POST /api/payments/reconciliation/reports
+   */
+  static async generateReconciliationReport(req: TypedRequest<{ date: string }>, res: TypedResponse) {
+    try {
+      const reportDate = PaymentController.parseReportDate(req.body?.date);
+
+      if (!reportDate) {
+        return res.status(400).json({
+          success: false,
+          error: 'Date must be in YYYY-MM-DD format',
+        });
+      }
+
+      const today = new Date();
+      if (reportDate.getTime() >= Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate())) {
+        return res.status(400).json({
+          success: false,
+          error: 'Reports can only be generated for past days',
+        });
+      }
+
+      const report = await PaymentReconciliationService.generateDailyReport(reportDate);
+
+      res.status(200).json({
+        success: true,
+        data: report,
+        message: `Reconciliation report generated with ${report.mismatchCount} mismatch(es)`,
+      });
+
+    } catch (error) {
+      console.error('Error generating reconciliation report:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to generate reconciliation report',
+      });
+    }
+  }
+
+  // Parses a YYYY-MM-DD report date as a UTC day
+  private static parseReportDate(value: unknown): Date | null {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return null;
+    }
+
+    const date = new Date(`${value}T00:00:00.000Z`);
+    return isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+  }
+
   // ========================================
   // REFUND PROCESSING
   // ========================================
 
   /**
-   * Process refund for a transaction
+   * Refund unused drinks on a voucher (Admin only)
    * POST /api/payments/refund
    */
   static async processRefund(req: TypedRequest<{
     transactionId: string;
-    amount?: number;
+    drinks?: number;
     reason?: string;
   }>, res: TypedResponse) {
     try {
@@ -371,7 +621,7 @@ export class PaymentController {
         });
       }
 
-      const { transactionId, amount, reason } = req.body;
+      const { transactionId, drinks, reason } = req.body;
 
       if (!transactionId || !isUUID(transactionId)) {
         return res.status(400).json({
@@ -380,77 +630,89 @@ export class PaymentController {
         });
       }
 
-      // Get transaction details
-      const transaction = await PaymentService.getTransactionByMerchantId(transactionId);
-      if (!transaction) {
-        return res.status(404).json({
-          success: false,
-          error: 'Transaction not found',
-        });
-      }
-
-      if (transaction.status !== 'SUCCESS') {
+      if (drinks !== undefined && (!Number.isInteger(drinks) || drinks < 1)) {
         return res.status(400).json({
           success: false,
-          error: 'Only successful transactions can be refunded',
+          error: 'Drinks must be a positive whole number',
         });
       }
 
-      if (!transaction.phonepeTransactionId) {
-        return res.status(400).json({
+      // The amount is calculated from the drinks left on the voucher
+      const result = await RefundService.initiateRefund({
+        paymentTransactionId: transactionId,
+        drinks,
+        reason: reason?.trim() || null,
+      });
+
+      if (!result.success) {
+        return res.status(result.error === 'Payment transaction not found' ? 404 : 400).json({
           success: false,
-          error: 'PhonePe transaction ID not found',
+          error: result.error,
         });
       }
 
-      // Use provided amount or full transaction amount
-      const refundAmount = amount || Number(transaction.amount);
-      
-      if (refundAmount <= 0 || refundAmount > Number(transaction.amount)) {
+      const refund = result.refund!;
+      res.status(200).json({
+        success: true,
+        data: {
+          refundTransactionId: refund.id,
+          merchantTransactionId: refund.phonepeMerchantId,
+          phonepeTransactionId: refund.phonepeTransactionId,
+          status: refund.status,
+          refundAmount: Number(refund.amount),
+          refundedDrinks: refund.refundedDrinks,
+          quote: result.quote,
+        },
+        message: refund.status === 'SUCCESS'
+          ? 'Refund completed successfully'
+          : 'Refund submitted; awaiting confirmation from the gateway',
+      });
+
+    } catch (error) {
+      console.error('Error processing refund:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to process refund',
+      });
+    }
+  }
+
+  /**
+   * Preview the refund for a payment's unused drinks (Admin only)
+   * GET /api/payments/transactions/:id/refund-quote?drinks=
+   */
+  static async getRefundQuote(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      if (!isUUID(id)) {
         return res.status(400).json({
           success: false,
-          error: 'Invalid refund amount',
+          error: 'Valid transaction ID is required',
         });
       }
 
-      // Generate unique merchant transaction ID for refund
-      const refundMerchantTxnId = `REFUND_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
-
-      // Process refund with PhonePe
-      const refundResponse = await PaymentService.processRefund({
-        originalTransactionId: transaction.phonepeTransactionId,
-        merchantTransactionId: refundMerchantTxnId,
-        amount: Math.round(refundAmount * 100), // Convert to paise
-      });
+      const drinks = req.query.drinks !== undefined ? Number(req.query.drinks) : undefined;
+      const result = await RefundService.calculateRefund(id, drinks);
 
-      if (!refundResponse.success) {
-        return res.status(400).json({
+      if (!result.success) {
+        return res.status(result.error === 'Payment transaction not found' ? 404 : 400).json({
           success: false,
-          error: refundResponse.message || 'Refund processing failed',
-          code: refundResponse.code,
+          error: result.error,
         });
       }
 
       res.status(200).json({
         success: true,
-        data: {
-          refundTransactionId: refundResponse.data?.transactionId,
-          merchantTransactionId: refundMerchantTxnId,
-          refundAmount,
-          status: refundResponse.data?.state,
-          originalTransaction: {
-            id: transaction.id,
-            amount: transaction.amount,
-          },
-        },
-        message: 'Refund processed successfully',
+        data: result.quote,
+        message: 'Refund quote calculated successfully',
       });
 
     } catch (error) {
-      console.error('Error processing refund:', error);
+      console.error('Error calculating refund quote:', error);
       res.status(500).json({
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to process refund',
+        error: 'Failed to calculate refund quote',
       });
     }
   }
@@ -470,8 +732,11 @@ export class PaymentController {
       res.status(200).json({
         success: true,
         data: {
+          provider: config.provider,
           merchantId: config.merchantId,
-          environment: config.baseUrl?.includes('preprod') ? 'sandbox' : 'production',
+          environment: config.provider === 'simulated'
+            ? 'simulated'
+            : config.baseUrl?.includes('preprod') ? 'sandbox' : 'production',
           redirectUrl: config.redirectUrl,
         },
         message: 'Payment configuration retrieved successfully',
@@ -350,7 +350,8 @@ export class UserController {
         success: true,
         data: { 
           user: result.user,
-          phoneChangeRequiresVerification: result.phoneChangeRequiresVerification 
+          phoneChangeRequiresVerification: result.phoneChangeRequiresVerification,
+          ...(result.otpRequestId && { otpRequestId: result.otpRequestId }),
         },
         message: result.message || 'Profile updated successfully',
       };
@@ -1,8 +1,14 @@
 import { Request, Response } from 'express';
-import { VoucherService, VoucherPurchaseRequest } from '../services/voucherService';
-import { ApiResponse, TypedRequest, TypedResponse } from '../types';
+import { RefundRequestStatus } from '@prisma/client';
+import { VoucherService, VoucherPurchaseRequest, VoucherTopupRequest } from '../services/voucherService';
+import { PaymentService } from '../services/paymentService';
+import { PaymentWebhookService } from '../services/paymentWebhookService';
+import { RefundRequestService } from '../services/refundRequestService';
+import { VoucherPackageService } from '../services/voucherPackageService';
+import { VoucherValidation } from '../validation/voucherValidation';
+import { ApiResponse, TypedRequest, TypedResponse, VoucherPackageRequest } from '../types';
 import { isUUID } from '../utils/validationHelper';
-import { getAllVoucherPackages, isValidPackageId } from '../config/voucherPackages';
+import { TOPUP_CONFIG, VOUCHER_EXPIRY_CONFIG } from '../config/constants';
 
 export class VoucherController {
   
@@ -18,7 +24,7 @@ export class VoucherController {
         });
       }
 
-      const { packageId, expiryDays } = req.body;
+      const { packageId, city } = req.body;
 
       // Validate input
       if (!packageId) {
@@ -28,16 +34,17 @@ export class VoucherController {
         });
       }
 
-      if (!isValidPackageId(packageId)) {
+      const packageResult = await VoucherPackageService.getAvailablePackage(packageId, city);
+      if (!packageResult.success) {
         return res.status(400).json({
           success: false,
-          error: 'Invalid package ID',
+          error: packageResult.error,
         });
       }
 
       const order = await VoucherService.createVoucherOrder(userId, {
         packageId,
-        expiryDays,
+        city,
       });
 
       res.status(201).json({
@@ -54,11 +61,98 @@ export class VoucherController {
     }
   }
 
-  // Complete payment and create voucher
+  // Create a top-up order for one of the user's vouchers
+  static async createTopupOrder(req: TypedRequest<VoucherTopupRequest>, res: TypedResponse) {
+    try {
+      const userId = req.user?.id;
+      
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+      }
+
+      const voucherId = req.params.id;
+      const { drinks, packageId, extendExpiryDays, city } = req.body;
+
+      if (!isUUID(voucherId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid voucher ID',
+        });
+      }
+
+      if ((drinks === undefined) === (packageId === undefined)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Either drinks or packageId is required',
+        });
+      }
+
+      if (packageId !== undefined) {
+        const packageResult = await VoucherPackageService.getAvailablePackage(packageId, city);
+        if (!packageResult.success) {
+          return res.status(400).json({
+            success: false,
+            error: packageResult.error,
+          });
+        }
+      }
+
+      if (drinks !== undefined && (!Number.isInteger(drinks) || drinks < TOPUP_CONFIG.MIN_DRINKS || drinks > TOPUP_CONFIG.MAX_DRINKS)) {
+        return res.status(400).json({
+          success: false,
+          error: `Drinks must be a whole number between ${TOPUP_CONFIG.MIN_DRINKS} and ${TOPUP_CONFIG.MAX_DRINKS}`,
+        });
+      }
+
+      if (extendExpiryDays !== undefined &&
+          (!Number.isInteger(extendExpiryDays) || extendExpiryDays < 1 || extendExpiryDays > TOPUP_CONFIG.MAX_EXPIRY_EXTENSION_DAYS)) {
+        return res.status(400).json({
+          success: false,
+          error: `extendExpiryDays must be a whole number between 1 and ${TOPUP_CONFIG.MAX_EXPIRY_EXTENSION_DAYS}`,
+        });
+      }
+
+      const order = await VoucherService.createTopupOrder(userId, voucherId, {
+        drinks,
+        packageId,
+        extendExpiryDays,
+        city,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: order,
+        message: 'Top-up order created successfully',
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'Voucher not found') {
+        return res.status(404).json({
+          success: false,
+          error: message,
+        });
+      }
+      if (message.includes('cannot be topped up') || message.startsWith('Voucher has expired') || message === 'Voucher has no expiry date to extend') {
+        return res.status(400).json({
+          success: false,
+          error: message,
+        });
+      }
+
+      console.error('Error creating top-up order:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create top-up order',
+      });
+    }
+  }
+
+  // Complete payment and create voucher once PhonePe confirms the order's current payment attempt
   static async completePayment(req: TypedRequest<{
     orderId: string;
-    phonepeTransactionId: string;
-    phonepeResponse?: any;
   }>, res: TypedResponse) {
     try {
       const userId = req.user?.id;
@@ -70,12 +164,12 @@ export class VoucherController {
         });
       }
 
-      const { orderId, phonepeTransactionId, phonepeResponse } = req.body;
+      const { orderId } = req.body;
 
-      if (!orderId || !phonepeTransactionId) {
+      if (!orderId || !isUUID(orderId)) {
         return res.status(400).json({
           success: false,
-          error: 'Order ID and PhonePe transaction ID are required',
+          error: 'Valid order ID is required',
         });
       }
 
@@ -88,11 +182,32 @@ export class VoucherController {
         });
       }
 
-      const voucher = await VoucherService.completeVoucherPurchase(
-        orderId,
-        phonepeTransactionId,
-        phonepeResponse
-      );
+      if (!order.phonepeMerchantId) {
+        return res.status(400).json({
+          success: false,
+          error: 'Order has no payment attempt',
+        });
+      }
+
+      const statusResponse = await PaymentService.fetchPaymentStatus(order.phonepeMerchantId);
+
+      if (!statusResponse.success || statusResponse.data?.state !== 'COMPLETED') {
+        return res.status(400).json({
+          success: false,
+          error: 'Payment has not been completed',
+        });
+      }
+
+      // The order is completed through the webhook inbox, like the gateway callback
+      await PaymentWebhookService.applyStatusCheck(order.phonepeMerchantId, statusResponse);
+
+      const voucher = await VoucherService.getOrderVoucher(orderId, userId);
+      if (!voucher) {
+        return res.status(500).json({
+          success: false,
+          error: 'Payment successful but voucher creation failed. Please contact support.',
+        });
+      }
 
       res.status(200).json({
         success: true,
@@ -286,14 +401,15 @@ export class VoucherController {
     }
   }
 
-  // Get voucher packages/pricing options
+  // Get voucher packages on sale, optionally for a city (?city=)
   static async getVoucherPackages(req: Request, res: TypedResponse) {
     try {
-      const packages = getAllVoucherPackages();
+      const city = typeof req.query.city === 'string' && req.query.city.trim() ? req.query.city.trim() : undefined;
+      const packages = await VoucherPackageService.listAvailablePackages(city);
 
       res.status(200).json({
         success: true,
-        data: packages,
+        data: packages.map((pkg) => VoucherPackageService.toPublicPackage(pkg)),
         message: 'Voucher packages fetched successfully',
       });
     } catch (error) {
@@ -305,27 +421,406 @@ export class VoucherController {
     }
   }
 
-  // PhonePe webhook handler (for payment notifications)
-  static async handlePaymentWebhook(req: Request, res: Response) {
+  // List every voucher package, including inactive ones (Admin only)
+  static async listAllPackages(req: Request, res: TypedResponse) {
+    try {
+      const packages = await VoucherPackageService.listAllPackages();
+
+      res.status(200).json({
+        success: true,
+        data: packages,
+        message: 'Voucher packages fetched successfully',
+      });
+    } catch (error) {
+      console.error('Error listing voucher packages:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch voucher packages',
+      });
+    }
+  }
+
+  // Create a voucher package (Admin only)
+  static async createPackage(req: TypedRequest<VoucherPackageRequest>, res: TypedResponse) {
+    try {
+      const body = req.body || {};
+      const validation = VoucherValidation.validatePackageRequest(body as unknown as Record<string, unknown>, true);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          error: validation.errors.join(', '),
+        });
+      }
+
+      const result = await VoucherPackageService.createPackage(body);
+
+      if (!result.success) {
+        return res.status(409).json({
+          success: false,
+          error: result.error,
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.package,
+        message: 'Voucher package created successfully',
+      });
+    } catch (error) {
+      console.error('Error creating voucher package:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create voucher package',
+      });
+    }
+  }
+
+  // Replace a voucher package's details (Admin only)
+  static async updatePackage(req: TypedRequest<VoucherPackageRequest>, res: TypedResponse) {
+    try {
+      const body = req.body || {};
+      const validation = VoucherValidation.validatePackageRequest(body as unknown as Record<string, unknown>, false);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          error: validation.errors.join(', '),
+        });
+      }
+
+      const result = await VoucherPackageService.updatePackage(req.params.id, body);
+
+      if (!result.success) {
+        return res.status(404).json({
+          success: false,
+          error: result.error,
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.package,
+        message: 'Voucher package updated successfully',
+      });
+    } catch (error) {
+      console.error('Error updating voucher package:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update voucher package',
+      });
+    }
+  }
+
+  // Delete a voucher package, or deactivate it if it has orders (Admin only)
+  static async deletePackage(req: Request, res: TypedResponse) {
+    try {
+      const result = await VoucherPackageService.deletePackage(req.params.id);
+
+      if (!result.success) {
+        return res.status(404).json({
+          success: false,
+          error: result.error,
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { deactivated: result.deactivated },
+        message: result.deactivated
+          ? 'Voucher package has orders and was deactivated instead of deleted'
+          : 'Voucher package deleted successfully',
+      });
+    } catch (error) {
+      console.error('Error deleting voucher package:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete voucher package',
+      });
+    }
+  }
+
+  // Request a refund of a voucher's unused drinks
+  static async createRefundRequest(req: TypedRequest<{ reason: string }>, res: TypedResponse) {
+    try {
+      const userId = req.user?.id;
+      
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+      }
+
+      const voucherId = req.params.id;
+      const { reason } = req.body;
+
+      if (!isUUID(voucherId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid voucher ID',
+        });
+      }
+
+      if (!reason || typeof reason !== 'string' || !reason.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Reason is required',
+        });
+      }
+
+      if (reason.trim().length > 500) {
+        return res.status(400).json({
+          success: false,
+          error: 'Reason must be at most 500 characters',
+        });
+      }
+
+      const result = await RefundRequestService.createRequest(voucherId, userId, reason);
+
+      if (!result.success) {
+        const status = result.error === 'Voucher not found' ? 404
+          : result.error === 'A refund request for this voucher is already pending' ? 409
+          : 400;
+        return res.status(status).json({
+          success: false,
+          error: result.error,
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.request,
+        message: 'Refund request submitted for review',
+      });
+    } catch (error) {
+      console.error('Error creating refund request:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create refund request',
+      });
+    }
+  }
+
+  // Get refund requests for one of the user's vouchers
+  static async getVoucherRefundRequests(req: Request, res: TypedResponse) {
     try {
-      // This will be implemented based on PhonePe webhook specification
-      const webhookData = req.body;
+      const userId = req.user?.id;
       
-      console.log('PhonePe webhook received:', webhookData);
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+      }
+
+      const voucherId = req.params.id;
+
+      if (!isUUID(voucherId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid voucher ID',
+        });
+      }
+
+      const requests = await RefundRequestService.listRequests({ userId, voucherId });
+
+      res.status(200).json({
+        success: true,
+        data: requests,
+        message: 'Refund requests fetched successfully',
+      });
+    } catch (error) {
+      console.error('Error fetching refund requests:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch refund requests',
+      });
+    }
+  }
+
+  // List refund requests for review (Admin only); pending requests by default
+  static async listRefundRequests(req: Request, res: TypedResponse) {
+    try {
+      const status = req.query.status as RefundRequestStatus | undefined;
+
+      if (status !== undefined && !Object.values(RefundRequestStatus).includes(status)) {
+        return res.status(400).json({
+          success: false,
+          error: `Status must be one of: ${Object.values(RefundRequestStatus).join(', ')}`,
+        });
+      }
+
+      const requests = await RefundRequestService.listRequests({ status });
+
+      res.status(200).json({
+        success: true,
+        data: requests,
+        message: 'Refund requests fetched successfully',
+      });
+    } catch (error) {
+      console.error('Error listing refund requests:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch refund requests',
+      });
+    }
+  }
+
+  // Approve a refund request and start the refund (Admin only)
+  static async approveRefundRequest(req: TypedRequest<{ comment?: string }>, res: TypedResponse) {
+    try {
+      const requestId = req.params.id;
+
+      if (!isUUID(requestId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid refund request ID',
+        });
+      }
+
+      const result = await RefundRequestService.approveRequest(requestId, req.user!.id, req.body?.comment);
+
+      if (!result.success) {
+        return res.status(result.error === 'Refund request not found' ? 404 : 409).json({
+          success: false,
+          error: result.error,
+          data: result.request,
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.request,
+        message: 'Refund request approved and refund started',
+      });
+    } catch (error) {
+      console.error('Error approving refund request:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to approve refund request',
+      });
+    }
+  }
+
+  // Reject a refund request with a comment (Admin only)
+  static async rejectRefundRequest(req: TypedRequest<{ comment: string }>, res: TypedResponse) {
+    try {
+      const requestId = req.params.id;
+      const comment = req.body?.comment;
+
+      if (!isUUID(requestId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid refund request ID',
+        });
+      }
+
+      if (!comment || typeof comment !== 'string' || !comment.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: 'A comment explaining the rejection is required',
+        });
+      }
+
+      const result = await RefundRequestService.rejectRequest(requestId, req.user!.id, comment);
+
+      if (!result.success) {
+        return res.status(result.error === 'Refund request not found' ? 404 : 409).json({
+          success: false,
+          error: result.error,
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.request,
+        message: 'Refund request rejected',
+      });
+    } catch (error) {
+      console.error('Error rejecting refund request:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reject refund request',
+      });
+    }
+  }
+
+  // Extend a voucher's expiry date by some days (Admin only)
+  static async extendVoucherExpiry(req: TypedRequest<{ days: number; reason: string }>, res: TypedResponse) {
+    try {
+      const voucherId = req.params.id;
+      const { days, reason } = req.body || {};
+
+      if (!isUUID(voucherId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid voucher ID',
+        });
+      }
+
+      if (!Number.isInteger(days) || days < 1 || days > VOUCHER_EXPIRY_CONFIG.MAX_EXTENSION_DAYS) {
+        return res.status(400).json({
+          success: false,
+          error: `Days must be a whole number between 1 and ${VOUCHER_EXPIRY_CONFIG.MAX_EXTENSION_DAYS}`,
+        });
+      }
+
+      if (!reason || typeof reason !== 'string' || !reason.trim() || reason.length > VOUCHER_EXPIRY_CONFIG.MAX_REASON_LENGTH) {
+        return res.status(400).json({
+          success: false,
+          error: `A reason of at most ${VOUCHER_EXPIRY_CONFIG.MAX_REASON_LENGTH} characters is required`,
+        });
+      }
+
+      const result = await VoucherService.extendVoucherExpiry(voucherId, req.user!.id, days, reason);
+
+      if (!result.success) {
+        return res.status(result.error === 'Voucher not found' ? 404 : 409).json({
+          success: false,
+          error: result.error,
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          voucher: result.voucher,
+          extension: result.extension,
+        },
+        message: 'Voucher expiry extended successfully',
+      });
+    } catch (error) {
+      console.error('Error extending voucher expiry:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to extend voucher expiry',
+      });
+    }
+  }
+
+  // Get the expiry extension audit trail of a voucher (Admin only)
+  static async getExpiryExtensions(req: Request, res: TypedResponse) {
+    try {
+      const voucherId = req.params.id;
+
+      if (!isUUID(voucherId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid voucher ID',
+        });
+      }
 
-      // Verify webhook signature here (implement based on PhonePe docs)
-      // Process payment status update
-      // Update order and create voucher if payment successful
+      const extensions = await VoucherService.getExpiryExtensions(voucherId);
 
       res.status(200).json({
         success: true,
-        message: 'Webhook processed',
+        data: extensions,
+        message: 'Expiry extensions fetched successfully',
       });
     } catch (error) {
-      console.error('Error processing payment webhook:', error);
+      console.error('Error fetching expiry extensions:', error);
       res.status(500).json({
         success: false,
-        error: 'Failed to process webhook',
+        error: 'Failed to fetch expiry extensions',
       });
     }
   }
@@ -1,6 +1,10 @@
 import { app } from './app';
 import { disconnectDatabase } from './config/database';
 import { CleanupService } from './services/cleanupService';
+import { DispenseTimeoutService } from './services/dispenseTimeoutService';
+import { MachineOfflineService } from './services/machineOfflineService';
+import { WebhookRetryService } from './services/webhookRetryService';
+import { PaymentReconcilerService } from './services/paymentReconcilerService';
 
 const PORT = process.env.PORT || 3000;
 
@@ -12,6 +16,10 @@ const gracefulShutdown = async (signal: string) => {
     // Stop cleanup services
     CleanupService.stopPeriodicCleanup();
     console.log('Cleanup service stopped');
+    DispenseTimeoutService.stopPeriodicSweep();
+    MachineOfflineService.stopPeriodicSweep();
+    WebhookRetryService.stopPeriodicRetry();
+    PaymentReconcilerService.stopPeriodicReconciliation();
     
     await disconnectDatabase();
     console.log('Database disconnected successfully');
@@ -46,9 +54,21 @@ const server = app.listen(PORT, () => {
   console.log(`👥 Users API: http://localhost:${PORT}/api/users`);
   console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
   
-  // Start cleanup service for blacklisted tokens
+  // Start cleanup service for expired sessions
   CleanupService.startPeriodicCleanup(24); // Run every 24 hours
   
+  // Refund paid vending sessions that machines never acknowledged
+  DispenseTimeoutService.startPeriodicSweep();
+  
+  // Mark machines offline once they stop sending heartbeats
+  MachineOfflineService.startPeriodicSweep();
+  
+  // Retry payment webhook events that failed to apply
+  WebhookRetryService.startPeriodicRetry();
+  
+  // Resolve payments whose webhook never arrived and produce the daily reconciliation report
+  PaymentReconcilerService.startPeriodicReconciliation();
+  
 });
 
 export { app, server }; 
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { JwtService, JwtPayload } from '../services/jwtService';
 import { UserService } from '../services/userService';
+import { SessionService } from '../services/sessionService';
+import { ERROR_CODES } from '../config/constants';
 import { ApiResponse } from '../types';
 import { UserRole } from '@prisma/client';
 
@@ -13,6 +15,7 @@ declare global {
         phone: string;
         isVerified: boolean;
         role: UserRole;
+        sessionId: string;
       };
     }
   }
@@ -24,6 +27,7 @@ export interface AuthenticatedRequest extends Request {
     phone: string;
     isVerified: boolean;
     role: UserRole;
+    sessionId: string;
   };
 }
 
@@ -46,24 +50,24 @@ export class AuthMiddleware {
       // Verify the token first
       const decoded: JwtPayload = JwtService.verifyToken(token);
 
-      // Check if token is blacklisted
-      const isBlacklisted = await JwtService.isTokenBlacklisted(token);
-      if (isBlacklisted) {
+      // Tokens issued before sessions existed cannot be revoked, so they are no longer accepted
+      if (!decoded.sid) {
         const response: ApiResponse = {
           success: false,
-          error: 'Token has been invalidated. Please login again.',
+          error: 'Session has expired. Please login again.',
+          code: ERROR_CODES.TOKEN_INVALID,
         };
         res.status(401).json(response);
         return;
       }
 
-      // Check if all tokens for this user are blacklisted (logout from all devices)
-      const tokenIssuedAt = decoded.iat || 0;
-      const allTokensBlacklisted = await JwtService.areAllUserTokensBlacklisted(decoded.userId.toString(), tokenIssuedAt);
-      if (allTokensBlacklisted) {
+      // Check that the session has not been logged out or revoked
+      const sessionActive = await SessionService.validateSession(decoded.sid, decoded.userId.toString());
+      if (!sessionActive) {
         const response: ApiResponse = {
           success: false,
-          error: 'All sessions have been invalidated. Please login again.',
+          error: 'Session has been revoked. Please login again.',
+          code: ERROR_CODES.SESSION_REVOKED,
         };
         res.status(401).json(response);
         return;
@@ -86,6 +90,7 @@ export class AuthMiddleware {
         phone: user.phone,
         isVerified: user.isVerified,
         role: user.role,
+        sessionId: decoded.sid,
       };
 
       next();
@@ -145,24 +150,18 @@ export class AuthMiddleware {
         try {
           const decoded: JwtPayload = JwtService.verifyToken(token);
           
-          // Check if token is blacklisted
-          const isBlacklisted = await JwtService.isTokenBlacklisted(token);
-          if (!isBlacklisted) {
-            // Check if all tokens for this user are blacklisted
-            const tokenIssuedAt = decoded.iat || 0;
-            const allTokensBlacklisted = await JwtService.areAllUserTokensBlacklisted(decoded.userId.toString(), tokenIssuedAt);
+          // Only accept tokens whose session is still active
+          if (decoded.sid && await SessionService.validateSession(decoded.sid, decoded.userId.toString())) {
+            const user = await UserService.getUserById(decoded.userId.toString());
             
-            if (!allTokensBlacklisted) {
-              const user = await UserService.getUserById(decoded.userId.toString());
-              
-              if (user) {
-                req.user = {
-                  id: user.id,
-                  phone: user.phone,
-                  isVerified: user.isVerified,
-                  role: user.role,
-                };
-              }
+            if (user) {
+              req.user = {
+                id: user.id,
+                phone: user.phone,
+                isVerified: user.isVerified,
+                role: user.role,
+                sessionId: decoded.sid,
+              };
             }
           }
         } catch (error) {
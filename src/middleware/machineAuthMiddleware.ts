@@ -0,0 +1,122 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../config/database';
+import { MachineAuthService } from '../services/machineAuthService';
+import { ApiResponse } from '../types';
+import { ERROR_CODES, MACHINE_AUTH_CONFIG } from '../config/constants';
+
+// Extend Request interface to include the authenticated machine and raw body
+declare global {
+  namespace Express {
+    interface Request {
+      machine?: {
+        id: string;
+        machineId: string;
+        name: string;
+        isActive: boolean;
+        isOnline: boolean;
+        qrCode: string;
+      };
+      rawBody?: Buffer;
+    }
+  }
+}
+
+export class MachineAuthMiddleware {
+  // Sends a 401 response for machine authentication failures
+  private static reject(res: Response, error: string, code: string): void {
+    const response: ApiResponse = {
+      success: false,
+      error,
+      code,
+    };
+    res.status(401).json(response);
+  }
+
+  // Middleware to verify machine API key signature (X-Machine-Id, X-Timestamp, X-Nonce, X-Signature)
+  static async authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const headers = MACHINE_AUTH_CONFIG.HEADERS;
+      const machineId = req.header(headers.MACHINE_ID);
+      const timestamp = req.header(headers.TIMESTAMP);
+      const nonce = req.header(headers.NONCE);
+      const signature = req.header(headers.SIGNATURE);
+
+      if (!machineId || !timestamp || !nonce || !signature) {
+        MachineAuthMiddleware.reject(res, 'Machine authentication headers are required', ERROR_CODES.MACHINE_AUTH_REQUIRED);
+        return;
+      }
+
+      if (!MachineAuthService.isTimestampFresh(timestamp)) {
+        MachineAuthMiddleware.reject(res, 'Request timestamp is outside the allowed window', ERROR_CODES.REQUEST_EXPIRED);
+        return;
+      }
+
+      if (!MachineAuthService.isValidNonce(nonce)) {
+        MachineAuthMiddleware.reject(res, 'Invalid request nonce', ERROR_CODES.MACHINE_AUTH_FAILED);
+        return;
+      }
+
+      const machine = await prisma.vendingMachine.findUnique({
+        where: { machineId },
+      });
+
+      // Same response for unknown machines and machines without a key to avoid leaking machine IDs
+      if (!machine || !machine.apiKey) {
+        MachineAuthMiddleware.reject(res, 'Machine authentication failed', ERROR_CODES.MACHINE_AUTH_FAILED);
+        return;
+      }
+
+      const signingString = MachineAuthService.buildSigningString({
+        method: req.method,
+        path: req.originalUrl,
+        timestamp,
+        nonce,
+        body: req.rawBody,
+      });
+
+      const signingKey = MachineAuthService.decryptSigningKey(machine.apiKey);
+      if (!signingKey) {
+        console.error(`Stored API key for machine ${machine.machineId} cannot be decrypted; check MACHINE_KEY_ENCRYPTION_SECRET`);
+        MachineAuthMiddleware.reject(res, 'Machine authentication failed', ERROR_CODES.MACHINE_AUTH_FAILED);
+        return;
+      }
+
+      if (!MachineAuthService.verifySignature(signingKey, signingString, signature)) {
+        MachineAuthMiddleware.reject(res, 'Invalid request signature', ERROR_CODES.SIGNATURE_INVALID);
+        return;
+      }
+
+      // Only record the nonce once the signature is valid so attackers can't burn nonces
+      const nonceAccepted = await MachineAuthService.consumeNonce(machine.id, nonce);
+      if (!nonceAccepted) {
+        MachineAuthMiddleware.reject(res, 'Request has already been processed', ERROR_CODES.REQUEST_REPLAYED);
+        return;
+      }
+
+      if (!machine.isActive) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Machine is currently inactive',
+          code: ERROR_CODES.FORBIDDEN,
+        };
+        res.status(403).json(response);
+        return;
+      }
+
+      // Attach machine information to request
+      req.machine = {
+        id: machine.id,
+        machineId: machine.machineId,
+        name: machine.name,
+        isActive: machine.isActive,
+        isOnline: machine.isOnline,
+        qrCode: machine.qrCode,
+      };
+
+      next();
+    } catch (error) {
+      console.error('Machine authentication error:', error);
+      MachineAuthMiddleware.reject(res, 'Machine authentication failed', ERROR_CODES.MACHINE_AUTH_FAILED);
+    }
+  }
+}
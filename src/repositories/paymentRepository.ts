@@ -1,5 +1,5 @@
 import { prisma } from '../config/database';
-import { Prisma, TransactionStatus, TransactionType } from '@prisma/client';
+import { Prisma, Transaction, TransactionStatus, TransactionType } from '@prisma/client';
 
 export interface CreateTransactionData {
   userId: string;
@@ -20,6 +20,7 @@ export interface UpdateTransactionData {
   status?: TransactionStatus;
   phonepeTransactionId?: string;
   phonepeResponse?: any;
+  initiatedAt?: Date;
   processedAt?: Date | null;
   failureReason?: string | null;
 }
@@ -77,6 +78,53 @@ export class PaymentRepository {
     }
   }
 
+  /**
+   * Create the next payment attempt for an order
+   */
+  static async createPaymentAttempt(data: {
+    userId: string;
+    orderId: string;
+    amount: number;
+    merchantTransactionId: string;
+  }): Promise<Transaction> {
+    const latest = await this.getLatestPaymentAttempt(data.orderId);
+
+    try {
+      return await prisma.transaction.create({
+        data: {
+          userId: data.userId,
+          orderId: data.orderId,
+          amount: new Prisma.Decimal(data.amount),
+          currency: 'INR',
+          status: TransactionStatus.PENDING,
+          type: TransactionType.PAYMENT,
+          attemptNumber: (latest?.attemptNumber ?? 0) + 1,
+          phonepeMerchantId: data.merchantTransactionId,
+        },
+      });
+    } catch (error) {
+      // Two requests raced to create the same attempt number
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error('A payment attempt for this order is already in progress');
+      }
+      console.error('Error creating payment attempt:', error);
+      throw new Error('Failed to create payment attempt');
+    }
+  }
+
+  /**
+   * Get the most recent payment attempt for an order
+   */
+  static async getLatestPaymentAttempt(orderId: string): Promise<Transaction | null> {
+    return await prisma.transaction.findFirst({
+      where: {
+        orderId,
+        type: TransactionType.PAYMENT,
+      },
+      orderBy: [{ attemptNumber: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+    });
+  }
+
   /**
    * Update transaction record by merchant transaction ID
    */
@@ -257,34 +305,33 @@ export class PaymentRepository {
   }
 
   /**
-   * Create refund transaction record
+   * Create a PENDING refund record for a payment; pass `client` to create it inside a transaction
    */
   static async createRefundTransaction(
-    originalTransaction: TransactionWithRelations,
+    originalTransaction: Transaction,
     refundData: {
       amount: number;
       merchantTransactionId: string;
-      phonepeTransactionId?: string;
-      phonepeResponse?: any;
-    }
-  ): Promise<string> {
+      refundedDrinks: number;
+      reason?: string | null;
+    },
+    client: Prisma.TransactionClient = prisma
+  ): Promise<Transaction> {
     try {
-      const refundTransaction = await prisma.transaction.create({
+      return await client.transaction.create({
         data: {
           userId: originalTransaction.userId,
           orderId: originalTransaction.orderId,
+          parentTransactionId: originalTransaction.id,
           amount: new Prisma.Decimal(refundData.amount),
           currency: 'INR',
-          status: TransactionStatus.SUCCESS,
+          status: TransactionStatus.PENDING,
           type: TransactionType.REFUND,
           phonepeMerchantId: refundData.merchantTransactionId,
-          phonepeTransactionId: refundData.phonepeTransactionId,
-          phonepeResponse: refundData.phonepeResponse,
-          processedAt: new Date(),
+          refundedDrinks: refundData.refundedDrinks,
+          refundReason: refundData.reason || null,
         },
       });
-      
-      return refundTransaction.id;
     } catch (error) {
       console.error('Error creating refund transaction record:', error);
       throw new Error('Failed to create refund transaction record');
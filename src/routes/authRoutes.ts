@@ -29,4 +29,13 @@ router.post('/logout', AuthMiddleware.authenticate, asyncHandler(AuthController.
 // POST /api/auth/logout-all - Logout from all devices (requires authentication)
 router.post('/logout-all', AuthMiddleware.authenticate, asyncHandler(AuthController.logoutAll));
 
+// GET /api/auth/sessions - List active sessions (requires authentication)
+router.get('/sessions', AuthMiddleware.authenticate, asyncHandler(AuthController.getSessions));
+
+// DELETE /api/auth/sessions/:id - Revoke a session (requires authentication)
+router.delete('/sessions/:id', AuthMiddleware.authenticate, asyncHandler(AuthController.revokeSession));
+
+// POST /api/auth/sms-delivery-report - SMS provider delivery status callback (provider-authenticated)
+router.post('/sms-delivery-report', asyncHandler(AuthController.handleSmsDeliveryReport));
+
 export { router as authRoutes }; 
\ No newline at end of file
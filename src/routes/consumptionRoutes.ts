@@ -1,17 +1,24 @@
 import { Router } from 'express';
 import { ConsumptionController } from '../controllers/consumptionController';
 import { AuthMiddleware } from '../middleware/authMiddleware';
+import { MachineAuthMiddleware } from '../middleware/machineAuthMiddleware';
 
 const router = Router();
 
 // Step 1: Machine generates QR code with session and drink data
-router.post('/machine/generate-qr', ConsumptionController.generateMachineQR);
+router.post('/machine/generate-qr', MachineAuthMiddleware.authenticate, ConsumptionController.generateMachineQR);
 
 // Steps 2-4: User scans QR and pays with voucher (combined into one endpoint)
 router.post('/qr/scan-and-pay', AuthMiddleware.authenticate, ConsumptionController.scanQRAndPay);
 
 // Step 5: Machine checks if payment has been completed
-router.get('/machine/check-payment/:sessionId', ConsumptionController.checkPaymentStatus);
+router.get('/machine/check-payment/:sessionId', MachineAuthMiddleware.authenticate, ConsumptionController.checkPaymentStatus);
+
+// Step 5 (push): Machine subscribes to PAYMENT_COMPLETED events over Server-Sent Events (polling above stays as fallback)
+router.get('/machine/events', MachineAuthMiddleware.authenticate, ConsumptionController.streamMachineEvents);
+
+// Step 6: Machine reports dispense success or failure (failures refund the voucher)
+router.post('/machine/sessions/:id/dispense-result', MachineAuthMiddleware.authenticate, ConsumptionController.reportDispenseResult);
 
 // User history endpoint (optional)
 router.get('/history', AuthMiddleware.authenticate, ConsumptionController.getConsumptionHistory);
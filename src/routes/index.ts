@@ -5,6 +5,8 @@ import { authRoutes } from './authRoutes';
 import voucherRoutes from './voucherRoutes';
 import consumptionRoutes from './consumptionRoutes';
 import paymentRoutes from './paymentRoutes';
+import { machineRoutes } from './machineRoutes';
+import { inventoryRoutes } from './inventoryRoutes';
 
 const router = Router();
 
@@ -17,5 +19,7 @@ router.use('/api/users', userRoutes);
 router.use('/api/vouchers', voucherRoutes);
 router.use('/api/consumption', consumptionRoutes);
 router.use('/api/payments', paymentRoutes);
+router.use('/api/machines', machineRoutes);
+router.use('/api/inventory', inventoryRoutes);
 
 export { router as routes }; 
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { InventoryController } from '../controllers/inventoryController';
+import { AuthMiddleware } from '../middleware/authMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// GET /api/inventory/refill-plan - Machines with low slots, ranked by urgency and grouped by city (requires admin or tech access)
+router.get('/refill-plan', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(InventoryController.getRefillPlan));
+
+// GET /api/inventory/alerts - Low-stock alerts, unresolved by default (requires admin or tech access)
+router.get('/alerts', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(InventoryController.getAlerts));
+
+// POST /api/inventory/alerts/:id/acknowledge - Mark an alert as picked up (requires admin or tech access)
+router.post('/alerts/:id/acknowledge', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(InventoryController.acknowledgeAlert));
+
+// GET /api/inventory/alert-rules - List low-stock alert rules (requires admin or tech access)
+router.get('/alert-rules', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(InventoryController.getAlertRules));
+
+// POST /api/inventory/alert-rules - Create a low-stock alert rule (requires admin or tech access)
+router.post('/alert-rules', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(InventoryController.createAlertRule));
+
+// PUT /api/inventory/alert-rules/:id - Update a low-stock alert rule (requires admin or tech access)
+router.put('/alert-rules/:id', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(InventoryController.updateAlertRule));
+
+// DELETE /api/inventory/alert-rules/:id - Delete a low-stock alert rule and its alerts (requires admin or tech access)
+router.delete('/alert-rules/:id', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(InventoryController.deleteAlertRule));
+
+export { router as inventoryRoutes };
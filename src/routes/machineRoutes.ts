@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { MachineController } from '../controllers/machineController';
+import { AuthMiddleware } from '../middleware/authMiddleware';
+import { MachineAuthMiddleware } from '../middleware/machineAuthMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// GET /api/machines/nearby - Active machines near a location, sorted by distance (public)
+router.get('/nearby', asyncHandler(MachineController.getNearbyMachines));
+
+// GET /api/machines - List machines, filterable by city, isOnline, isActive and version (requires admin or tech access)
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(MachineController.listMachines));
+
+// POST /api/machines - Register a new machine (requires admin or tech access)
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(MachineController.createMachine));
+
+// GET /api/machines/:machineId - Get machine details (requires admin or tech access)
+router.get('/:machineId', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(MachineController.getMachine));
+
+// PUT /api/machines/:machineId - Update machine details (requires admin or tech access)
+router.put('/:machineId', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(MachineController.updateMachine));
+
+// POST /api/machines/:machineId/activate - Activate a machine (requires admin or tech access)
+router.post('/:machineId/activate', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(MachineController.activateMachine));
+
+// POST /api/machines/:machineId/deactivate - Deactivate a machine and expire its open sessions (requires admin or tech access)
+router.post('/:machineId/deactivate', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(MachineController.deactivateMachine));
+
+// POST /api/machines/:machineId/qr-code/regenerate - Replace the machine's QR code (requires admin or tech access)
+router.post('/:machineId/qr-code/regenerate', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(MachineController.regenerateQRCode));
+
+// GET /api/machines/:machineId/slots - List the machine's product slots and stock (requires admin or tech access)
+router.get('/:machineId/slots', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(MachineController.getSlots));
+
+// PUT /api/machines/:machineId/slots/:slotNumber - Configure the product in a slot (requires admin or tech access)
+router.put('/:machineId/slots/:slotNumber', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(MachineController.configureSlot));
+
+// POST /api/machines/:machineId/slots/:slotNumber/refill - Record a slot refill (requires admin or tech access)
+router.post('/:machineId/slots/:slotNumber/refill', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(MachineController.refillSlot));
+
+// DELETE /api/machines/:machineId/slots/:slotNumber - Remove a slot from the catalog (requires admin or tech access)
+router.delete('/:machineId/slots/:slotNumber', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(MachineController.removeSlot));
+
+// POST /api/machines/:machineId/api-key - Issue API key for a machine (requires admin access)
+router.post('/:machineId/api-key', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, asyncHandler(MachineController.issueApiKey));
+
+// POST /api/machines/:machineId/api-key/rotate - Rotate a machine's API key (requires admin access)
+router.post('/:machineId/api-key/rotate', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, asyncHandler(MachineController.rotateApiKey));
+
+// DELETE /api/machines/:machineId/api-key - Revoke a machine's API key (requires admin access)
+router.delete('/:machineId/api-key', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, asyncHandler(MachineController.revokeApiKey));
+
+// POST /api/machines/:machineId/heartbeat - Report liveness and telemetry (requires signed machine request)
+router.post('/:machineId/heartbeat', MachineAuthMiddleware.authenticate, asyncHandler(MachineController.heartbeat));
+
+// GET /api/machines/:machineId/telemetry - Recent telemetry for a machine (requires admin or tech access)
+router.get('/:machineId/telemetry', AuthMiddleware.authenticate, AuthMiddleware.requireAdminOrTech, asyncHandler(MachineController.getTelemetry));
+
+export { router as machineRoutes };
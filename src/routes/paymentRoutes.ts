@@ -15,6 +15,9 @@ router.post('/webhook', PaymentController.handleWebhook);
 // Get payment configuration (public, for frontend setup)
 router.get('/config', PaymentController.getPaymentConfig);
 
+// Settle a simulated payment (only active with PAYMENT_PROVIDER=simulated, which is refused in production)
+router.post('/simulator/:merchantTransactionId/settle', PaymentController.settleSimulatedPayment);
+
 // ========================================
 // AUTHENTICATED ENDPOINTS
 // ========================================
@@ -32,7 +35,24 @@ router.get('/transactions', AuthMiddleware.authenticate, PaymentController.getTr
 // ADMIN ENDPOINTS
 // ========================================
 
-// Process refunds (Admin only)
+// Refund unused drinks on a voucher (Admin only)
 router.post('/refund', AuthMiddleware.authenticate, PaymentController.processRefund);
 
-export default router;
+// Preview a refund for a payment (Admin only)
+router.get('/transactions/:id/refund-quote', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, PaymentController.getRefundQuote);
+
+// Webhook inbox events that failed or were dead-lettered (Admin only)
+router.get('/webhook-events', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, PaymentController.listWebhookEvents);
+
+// Replay a stuck webhook event (Admin only)
+router.post('/webhook-events/:id/replay', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, PaymentController.replayWebhookEvent);
+
+// Reconcile payments still pending past the threshold (Admin only)
+router.post('/reconciliation/run', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, PaymentController.runReconciliation);
+
+// Daily reconciliation reports (Admin only)
+router.get('/reconciliation/reports', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, PaymentController.listReconciliationReports);
+router.post('/reconciliation/reports', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, PaymentController.generateReconciliationReport);
+router.get('/reconciliation/reports/:date', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, PaymentController.getReconciliationReport);
+
+export default router;
\ No newline at end of file
@@ -1,14 +1,21 @@
 import { Router } from 'express';
 import { VoucherController } from '../controllers/voucherController';
+import { PaymentController } from '../controllers/paymentController';
 import { AuthMiddleware } from '../middleware/authMiddleware';
 
 const router = Router();
 
-// Get voucher packages/pricing options (public endpoint)
+// Get voucher packages on sale, optionally for a city (public endpoint)
 router.get('/packages', VoucherController.getVoucherPackages);
 
-// PhonePe webhook endpoint (public, no auth needed)
-router.post('/webhook/phonepe', VoucherController.handlePaymentWebhook);
+// Voucher package catalog management (Admin only)
+router.get('/packages/all', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, VoucherController.listAllPackages);
+router.post('/packages', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, VoucherController.createPackage);
+router.put('/packages/:id', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, VoucherController.updatePackage);
+router.delete('/packages/:id', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, VoucherController.deletePackage);
+
+// Legacy PhonePe callback URL, handled by the same verified pipeline as /api/payments/webhook
+router.post('/webhook/phonepe', PaymentController.handleWebhook);
 
 // Voucher purchase flow (authenticated)
 router.post('/orders', AuthMiddleware.authenticate, VoucherController.createOrder);
@@ -16,8 +23,24 @@ router.post('/orders/complete', AuthMiddleware.authenticate, VoucherController.c
 router.post('/orders/cancel', AuthMiddleware.authenticate, VoucherController.cancelOrder);
 router.get('/orders/:id', AuthMiddleware.authenticate, VoucherController.getOrderById);
 
+// Refund request review queue (Admin only)
+router.get('/refund-requests', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, VoucherController.listRefundRequests);
+router.post('/refund-requests/:id/approve', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, VoucherController.approveRefundRequest);
+router.post('/refund-requests/:id/reject', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, VoucherController.rejectRefundRequest);
+
 // Voucher management (authenticated)
 router.get('/', AuthMiddleware.authenticate, VoucherController.getUserVouchers);
 router.get('/:id', AuthMiddleware.authenticate, VoucherController.getVoucherById);
 
+// Add drinks to an existing voucher; paid like a purchase order (authenticated)
+router.post('/:id/topup', AuthMiddleware.authenticate, VoucherController.createTopupOrder);
+
+// Voucher expiry extensions and their audit trail (Admin only)
+router.post('/:id/extend-expiry', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, VoucherController.extendVoucherExpiry);
+router.get('/:id/expiry-extensions', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, VoucherController.getExpiryExtensions);
+
+// Refund requests for unused drinks (authenticated)
+router.post('/:id/refund-request', AuthMiddleware.authenticate, VoucherController.createRefundRequest);
+router.get('/:id/refund-requests', AuthMiddleware.authenticate, VoucherController.getVoucherRefundRequests);
+
 export default router; 
\ No newline at end of file
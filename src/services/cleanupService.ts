@@ -1,9 +1,11 @@
-import { JwtService } from './jwtService';
+import { MachineAuthService } from './machineAuthService';
+import { MachineHeartbeatService } from './machineHeartbeatService';
+import { SessionService } from './sessionService';
 
 export class CleanupService {
   private static cleanupInterval: NodeJS.Timeout | null = null;
 
-  // Start periodic cleanup of expired blacklisted tokens
+  // Start periodic cleanup of expired sessions, nonces and old telemetry
   static startPeriodicCleanup(intervalHours: number = 24): void {
     if (this.cleanupInterval) {
       console.log('Cleanup service is already running');
@@ -14,8 +16,10 @@ export class CleanupService {
 
     this.cleanupInterval = setInterval(async () => {
       try {
-        console.log('Starting periodic cleanup of expired blacklisted tokens...');
-        await JwtService.cleanupExpiredBlacklistedTokens();
+        console.log('Starting periodic cleanup of expired sessions...');
+        await SessionService.cleanupExpiredSessions();
+        await MachineAuthService.cleanupExpiredNonces();
+        await MachineHeartbeatService.cleanupOldTelemetry();
         console.log('Cleanup completed successfully');
       } catch (error) {
         console.error('Error during periodic cleanup:', error);
@@ -37,8 +41,10 @@ export class CleanupService {
   // Manual cleanup trigger
   static async runCleanupNow(): Promise<void> {
     try {
-      console.log('Running manual cleanup of expired blacklisted tokens...');
-      await JwtService.cleanupExpiredBlacklistedTokens();
+      console.log('Running manual cleanup of expired sessions...');
+      await SessionService.cleanupExpiredSessions();
+      await MachineAuthService.cleanupExpiredNonces();
+      await MachineHeartbeatService.cleanupOldTelemetry();
       console.log('Manual cleanup completed successfully');
     } catch (error) {
       console.error('Error during manual cleanup:', error);
@@ -1,5 +1,9 @@
 import { prisma } from '../config/database';
-import { VoucherStatus, ConsumptionStatus, Prisma } from '@prisma/client';
+import { VoucherStatus, ConsumptionStatus, Prisma, VendingSessionStatus } from '@prisma/client';
+import { QRCodeService, QRCodeParseResult } from './qrCodeService';
+import { SESSION_CONFIG } from '../config/constants';
+import { MachineEventService } from './machineEventService';
+import { MachineCatalogService } from './machineCatalogService';
 
 export interface ConsumptionRequest {
   voucherId: string;
@@ -55,6 +59,17 @@ export interface ConsumptionResult {
   error?: string;
 }
 
+export interface DispenseResult {
+  success: boolean;
+  session?: {
+    id: string;
+    status: VendingSessionStatus;
+    consumptionId: string | null;
+  };
+  refunded?: boolean;
+  error?: string;
+}
+
 export interface MachineValidationResult {
   valid: boolean;
   machine?: {
@@ -269,6 +284,10 @@ export class ConsumptionService {
             status: newStatus as VoucherStatus,
             isActivated: true, // Mark as activated on first use
             firstUsedAt: voucher.firstUsedAt || new Date(),
+            // Vouchers whose validity starts at first use get their expiry date now
+            ...(!voucher.expiryDate && voucher.firstUseValidityDays && {
+              expiryDate: new Date(Date.now() + voucher.firstUseValidityDays * 24 * 60 * 60 * 1000),
+            }),
             version: voucher.version + 1,
           },
         });
@@ -291,16 +310,49 @@ export class ConsumptionService {
             drinkType: drinkType as any, // Will be cast to DrinkType enum
             drinkFlavour: drinkFlavour as any, // Will be cast to DrinkFlavour enum
             externalTransactionId: null, // Can be set by vending machine
-            vendingSessionId: sessionId || `SESSION_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
-            status: 'COMPLETED',
+            vendingSessionId: sessionId || null,
+            // Session consumptions stay pending until the machine acknowledges the dispense
+            status: sessionId ? 'PENDING' : 'COMPLETED',
             preConsumptionBalance: remainingDrinks,
             postConsumptionBalance: newRemainingDrinks,
             voucherVersion: voucher.version + 1,
           },
         });
 
+        // Mark the vending session as paid; guards against paying the same session twice
+        if (sessionId) {
+          const updatedSession = await tx.vendingSession.updateMany({
+            where: {
+              id: sessionId,
+              status: { in: [VendingSessionStatus.CREATED, VendingSessionStatus.SCANNED] },
+              expiresAt: { gt: new Date() },
+            },
+            data: {
+              status: VendingSessionStatus.PAID,
+              paidAt: new Date(),
+              userId,
+              consumptionId: consumption.id,
+            },
+          });
+
+          if (updatedSession.count === 0) {
+            throw new Error('Session is no longer available for payment');
+          }
+
+          // Reserve the drink now so two sessions can't both pay for the last unit in a slot
+          const session = await tx.vendingSession.findUniqueOrThrow({
+            where: { id: sessionId },
+            select: { slotId: true },
+          });
+
+          if (session.slotId && !(await MachineCatalogService.reserveStock(tx, session.slotId, quantity))) {
+            throw new Error('Product is out of stock');
+          }
+        }
+
         return {
           consumption,
+          vendingMachineId: machine.id,
           voucher: {
             id: voucher.id,
             voucherNumber: voucher.voucherNumber,
@@ -311,6 +363,22 @@ export class ConsumptionService {
         };
       });
 
+      // Push to machines listening on the event stream now that the payment is committed
+      if (result.consumption.vendingSessionId) {
+        MachineEventService.publish(result.vendingMachineId, {
+          type: 'PAYMENT_COMPLETED',
+          sessionId: result.consumption.vendingSessionId,
+          data: {
+            consumptionId: result.consumption.id,
+            voucherNumber: result.voucher.voucherNumber,
+            drinkType: result.consumption.drinkType,
+            drinkFlavour: result.consumption.drinkFlavour,
+            consumedAt: result.consumption.consumedAt,
+            canDispense: true,
+          },
+        });
+      }
+
       return {
         success: true,
         consumption: {
@@ -337,6 +405,203 @@ export class ConsumptionService {
     }
   }
 
+  // Confirm that the machine dispensed the drink for a paid session
+  static async confirmDispense(sessionId: string): Promise<DispenseResult> {
+    try {
+      const session = await prisma.$transaction(async (tx) => {
+        const updatedSession = await tx.vendingSession.updateMany({
+          where: {
+            id: sessionId,
+            status: VendingSessionStatus.PAID,
+          },
+          data: {
+            status: VendingSessionStatus.DISPENSED,
+            dispensedAt: new Date(),
+          },
+        });
+
+        if (updatedSession.count === 0) {
+          throw new Error('Session is not awaiting a dispense result');
+        }
+
+        const session = await tx.vendingSession.findUniqueOrThrow({
+          where: { id: sessionId },
+        });
+
+        if (session.consumptionId) {
+          await tx.consumption.update({
+            where: { id: session.consumptionId },
+            data: { status: ConsumptionStatus.COMPLETED },
+          });
+        }
+
+        return session;
+      });
+
+      return {
+        success: true,
+        session: {
+          id: session.id,
+          status: session.status,
+          consumptionId: session.consumptionId,
+        },
+        refunded: false,
+      };
+    } catch (error) {
+      console.error('Error confirming dispense:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to confirm dispense',
+      };
+    }
+  }
+
+  // Mark a paid session as failed and credit the drink back to the voucher
+  static async reverseDispense(
+    sessionId: string,
+    failure: { errorCode: string; message?: string }
+  ): Promise<DispenseResult> {
+    try {
+      const session = await prisma.$transaction(async (tx) => {
+        const updatedSession = await tx.vendingSession.updateMany({
+          where: {
+            id: sessionId,
+            status: VendingSessionStatus.PAID,
+          },
+          data: {
+            status: VendingSessionStatus.FAILED,
+            failedAt: new Date(),
+            dispenseErrorCode: failure.errorCode,
+          },
+        });
+
+        if (updatedSession.count === 0) {
+          throw new Error('Session is not awaiting a dispense result');
+        }
+
+        const session = await tx.vendingSession.findUniqueOrThrow({
+          where: { id: sessionId },
+        });
+
+        if (!session.consumptionId) {
+          return session;
+        }
+
+        const consumption = await tx.consumption.findUniqueOrThrow({
+          where: { id: session.consumptionId },
+        });
+
+        if (consumption.status !== ConsumptionStatus.PENDING) {
+          throw new Error(`Consumption is ${consumption.status.toLowerCase()} and cannot be reversed`);
+        }
+
+        const voucher = await tx.drinkVoucher.findUniqueOrThrow({
+          where: { id: consumption.voucherId },
+        });
+
+        // Credit the drinks back; an exhausted voucher becomes usable again
+        const newConsumedDrinks = Math.max(voucher.consumedDrinks - consumption.quantity, 0);
+        const newStatus = voucher.status === VoucherStatus.EXHAUSTED && newConsumedDrinks < voucher.totalDrinks
+          ? VoucherStatus.ACTIVE
+          : voucher.status;
+
+        // If this was the voucher's only use, it goes back to unused and a first-use validity starts again later
+        const otherConsumptions = await tx.consumption.count({
+          where: {
+            voucherId: voucher.id,
+            id: { not: consumption.id },
+            status: { not: ConsumptionStatus.REVERSED },
+          },
+        });
+        const firstUseReversed = otherConsumptions === 0;
+
+        // Update voucher with optimistic locking
+        const updatedVoucher = await tx.drinkVoucher.updateMany({
+          where: {
+            id: voucher.id,
+            version: voucher.version, // Optimistic locking
+          },
+          data: {
+            consumedDrinks: newConsumedDrinks,
+            status: newStatus,
+            ...(firstUseReversed && {
+              isActivated: false,
+              firstUsedAt: null,
+              ...(voucher.firstUseValidityDays && { expiryDate: null }),
+            }),
+            version: voucher.version + 1,
+          },
+        });
+
+        if (updatedVoucher.count === 0) {
+          throw new Error('Voucher was modified by another transaction. Please try again.');
+        }
+
+        // Pre/post balances keep describing the original debit; the reversal is recorded in notes
+        const refundNote = `Dispense failed (${failure.errorCode})${failure.message ? `: ${failure.message}` : ''}. ` +
+          `${consumption.quantity} drink(s) credited back, balance ${voucher.totalDrinks - voucher.consumedDrinks} -> ` +
+          `${voucher.totalDrinks - newConsumedDrinks} at voucher version ${voucher.version + 1}`;
+
+        await tx.consumption.update({
+          where: { id: consumption.id },
+          data: {
+            status: ConsumptionStatus.REVERSED,
+            notes: consumption.notes ? `${consumption.notes}\n${refundNote}` : refundNote,
+          },
+        });
+
+        // The drink was never dispensed, so its reserved stock goes back to the slot
+        if (session.slotId) {
+          await MachineCatalogService.releaseStock(tx, session.slotId, consumption.quantity);
+        }
+
+        return session;
+      });
+
+      return {
+        success: true,
+        session: {
+          id: session.id,
+          status: session.status,
+          consumptionId: session.consumptionId,
+        },
+        refunded: !!session.consumptionId,
+      };
+    } catch (error) {
+      console.error('Error reversing dispense:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reverse dispense',
+      };
+    }
+  }
+
+  // Refund paid sessions whose machine never reported a dispense result
+  static async reverseTimedOutDispenses(): Promise<number> {
+    const cutoff = new Date(Date.now() - SESSION_CONFIG.DISPENSE_ACK_TIMEOUT_MS);
+
+    const timedOutSessions = await prisma.vendingSession.findMany({
+      where: {
+        status: VendingSessionStatus.PAID,
+        paidAt: { lt: cutoff },
+      },
+      select: { id: true },
+    });
+
+    let reversed = 0;
+    for (const session of timedOutSessions) {
+      const result = await this.reverseDispense(session.id, {
+        errorCode: 'ACK_TIMEOUT',
+        message: 'No dispense acknowledgement received from machine',
+      });
+      if (result.success) {
+        reversed++;
+      }
+    }
+
+    return reversed;
+  }
+
   // Get user's consumption history
   static async getConsumptionHistory(userId: string, limit: number = 50) {
     try {
@@ -375,6 +640,7 @@ export class ConsumptionService {
         drinkFlavour: consumption.drinkFlavour || '',
         sessionId: consumption.vendingSessionId,
         status: consumption.status,
+        reversed: consumption.status === ConsumptionStatus.REVERSED, // Drink was never dispensed and went back on the voucher
         preConsumptionBalance: consumption.preConsumptionBalance,
         postConsumptionBalance: consumption.postConsumptionBalance,
       }));
@@ -385,11 +651,14 @@ export class ConsumptionService {
   }
 
   // Get consumption statistics for a user
+  // Counts COMPLETED consumptions only; pending ones still await the machine's dispense result
   static async getConsumptionStats(userId: string) {
     try {
+      const where = { userId, status: ConsumptionStatus.COMPLETED };
+
       const stats = await prisma.consumption.groupBy({
         by: ['machineId'],
-        where: { userId },
+        where,
         _count: {
           _all: true,
         },
@@ -399,11 +668,11 @@ export class ConsumptionService {
       });
 
       const totalConsumptions = await prisma.consumption.count({
-        where: { userId },
+        where,
       });
 
       const totalDrinks = await prisma.consumption.aggregate({
-        where: { userId },
+        where,
         _sum: {
           quantity: true,
         },
@@ -424,38 +693,16 @@ export class ConsumptionService {
     }
   }
 
-  // Parse drink selection from QR code (if encoded)
-  static parseDrinkFromQRCode(qrCode: string): {
-    machineQrCode: string;
-    drinkType?: string;
-    drinkFlavour?: string;
-    price?: number;
-  } {
+  // Verify and parse session and drink selection from a scanned QR code
+  static parseDrinkFromQRCode(qrCode: string): QRCodeParseResult {
     try {
-      // Check if QR code contains drink selection data
-      // Format: "QR_VM_GYM_ANDHERI_01|SESSION:sessionId|DRINK:WATER|FLAVOUR:VANILLA|PRICE:25"
-      const parts = qrCode.split('|');
-      const machineQrCode = parts[0];
-      
-      if (parts.length === 1) {
-        // Simple machine QR without drink selection
-        return { machineQrCode };
-      }
-
-      // Parse drink selection data
-      const drinkData: any = { machineQrCode };
-      
-      for (let i = 1; i < parts.length; i++) {
-        const [key, value] = parts[i].split(':');
-        if (key === 'DRINK') drinkData.drinkType = value;
-        if (key === 'FLAVOUR') drinkData.drinkFlavour = value;
-        if (key === 'PRICE') drinkData.price = parseInt(value);
-      }
-
-      return drinkData;
+      return QRCodeService.verifyAndParse(qrCode);
     } catch (error) {
       console.error('Error parsing QR code:', error);
-      return { machineQrCode: qrCode };
+      return {
+        valid: false,
+        error: 'Invalid QR code format',
+      };
     }
   }
-} 
\ No newline at end of file
+} 
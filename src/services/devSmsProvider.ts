@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { SmsDeliveryStatus } from '@prisma/client';
+import { SmsMessage, SmsProvider, SmsSendResult } from '../types/sms.types';
+import { SMS_CONFIG } from '../config/constants';
+
+export interface SentSms extends SmsMessage {
+  messageId: string;
+  sentAt: string;
+}
+
+/**
+ * DevSmsProvider - Local stand-in for an SMS gateway
+ *
+ * Messages are logged to the console and treated as delivered. With SMS_PROVIDER=file each one is
+ * also appended as a JSON line to the outbox file, so tests and scripts can read the codes sent.
+ * The most recent messages are kept in memory as well.
+ */
+export class DevSmsProvider implements SmsProvider {
+  readonly name: 'console' | 'file';
+  private readonly outboxFile?: string;
+  private readonly sent: SentSms[] = [];
+
+  constructor(outboxFile?: string) {
+    this.name = outboxFile ? 'file' : 'console';
+    this.outboxFile = outboxFile;
+  }
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const sms: SentSms = {
+      ...message,
+      messageId: `dev-${crypto.randomUUID()}`,
+      sentAt: new Date().toISOString(),
+    };
+
+    console.log(`📱 SMS to ${message.to}: ${message.body}`);
+
+    if (this.outboxFile) {
+      await fs.mkdir(path.dirname(this.outboxFile), { recursive: true });
+      await fs.appendFile(this.outboxFile, `${JSON.stringify(sms)}\n`);
+    }
+
+    this.sent.push(sms);
+    if (this.sent.length > SMS_CONFIG.MAX_DEV_MESSAGES) {
+      this.sent.shift();
+    }
+
+    return { success: true, status: SmsDeliveryStatus.DELIVERED, providerMessageId: sms.messageId };
+  }
+
+  /**
+   * Messages sent since startup, oldest first
+   */
+  getSentMessages(): SentSms[] {
+    return [...this.sent];
+  }
+}
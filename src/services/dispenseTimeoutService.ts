@@ -0,0 +1,36 @@
+import { ConsumptionService } from './consumptionService';
+import { SESSION_CONFIG } from '../config/constants';
+
+export class DispenseTimeoutService {
+  private static sweepInterval: NodeJS.Timeout | null = null;
+
+  // Start periodic refund of paid sessions that were never acknowledged by the machine
+  static startPeriodicSweep(intervalMs: number = SESSION_CONFIG.DISPENSE_TIMEOUT_SWEEP_INTERVAL_MS): void {
+    if (this.sweepInterval) {
+      console.log('Dispense timeout service is already running');
+      return;
+    }
+
+    this.sweepInterval = setInterval(async () => {
+      try {
+        const reversed = await ConsumptionService.reverseTimedOutDispenses();
+        if (reversed > 0) {
+          console.log(`Refunded ${reversed} unacknowledged dispense(s)`);
+        }
+      } catch (error) {
+        console.error('Error during dispense timeout sweep:', error);
+      }
+    }, intervalMs);
+
+    console.log(`Dispense timeout service started. Will run every ${intervalMs / 1000} seconds.`);
+  }
+
+  // Stop periodic sweep
+  static stopPeriodicSweep(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+      console.log('Dispense timeout service stopped');
+    }
+  }
+}
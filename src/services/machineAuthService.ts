@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { MACHINE_AUTH_CONFIG } from '../config/constants';
+
+export interface MachineApiKeyResult {
+  success: boolean;
+  error?: string;
+  key?: {
+    machineId: string;
+    apiKey: string; // Plaintext key, only ever returned once
+    issuedAt: Date;
+  };
+}
+
+export interface SigningStringParams {
+  method: string;
+  path: string;
+  timestamp: string;
+  nonce: string;
+  body?: Buffer | string;
+}
+
+/**
+ * MachineAuthService - API key management and HMAC request signing for vending machines
+ *
+ * Machines sign requests with the SHA-256 hash of their plaintext API key. The server needs that
+ * signing key to verify signatures, so `VendingMachine.apiKey` holds it encrypted with AES-256-GCM
+ * under MACHINE_KEY_ENCRYPTION_SECRET, which is kept outside the database. A copy of the database
+ * alone is not enough to sign as a machine.
+ *
+ * Signing string (newline separated):
+ *   <METHOD>\n<path incl. query>\n<timestamp>\n<nonce>\n<sha256 hex of raw body>
+ */
+export class MachineAuthService {
+  /**
+   * Generates a new plaintext API key
+   */
+  static generateApiKey(): string {
+    const random = crypto.randomBytes(MACHINE_AUTH_CONFIG.API_KEY_BYTES).toString('base64url');
+    return `${MACHINE_AUTH_CONFIG.API_KEY_PREFIX}${random}`;
+  }
+
+  /**
+   * Derives the HMAC signing key a machine uses from its API key
+   */
+  static hashApiKey(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  // Get the key encryption secret with proper validation
+  private static getEncryptionKey(): Buffer {
+    const secret = process.env.MACHINE_KEY_ENCRYPTION_SECRET;
+
+    // In production, require a proper encryption secret
+    if (process.env.NODE_ENV === 'production' && (!secret || secret.length < 32)) {
+      throw new Error('MACHINE_KEY_ENCRYPTION_SECRET must be set and at least 32 characters long in production');
+    }
+
+    // Fallback for development only
+    const value = secret || 'your_super_secret_machine_key_encryption_key_change_this_in_production';
+    return crypto.createHash('sha256').update(value).digest();
+  }
+
+  /**
+   * Encrypts a signing key for storage in `VendingMachine.apiKey`
+   */
+  static encryptSigningKey(signingKey: string): string {
+    const iv = crypto.randomBytes(MACHINE_AUTH_CONFIG.KEY_ENCRYPTION_IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(signingKey, 'utf8'), cipher.final()]);
+
+    return [
+      MACHINE_AUTH_CONFIG.ENCRYPTED_KEY_PREFIX,
+      iv.toString('base64url'),
+      cipher.getAuthTag().toString('base64url'),
+      ciphertext.toString('base64url'),
+    ].join(':');
+  }
+
+  /**
+   * Recovers the signing key from a stored value
+   * @returns null if the value cannot be decrypted (wrong secret or tampered data)
+   */
+  static decryptSigningKey(stored: string): string | null {
+    const [prefix, iv, authTag, ciphertext] = stored.split(':');
+    if (prefix !== MACHINE_AUTH_CONFIG.ENCRYPTED_KEY_PREFIX || !iv || !authTag || !ciphertext) {
+      return null;
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.getEncryptionKey(), Buffer.from(iv, 'base64url'));
+      decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+      return Buffer.concat([
+        decipher.update(Buffer.from(ciphertext, 'base64url')),
+        decipher.final(),
+      ]).toString('utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Builds the canonical string a machine signs
+   */
+  static buildSigningString(params: SigningStringParams): string {
+    const { method, path, timestamp, nonce, body } = params;
+    const bodyHash = crypto.createHash('sha256').update(body || '').digest('hex');
+    return [method.toUpperCase(), path, timestamp, nonce, bodyHash].join('\n');
+  }
+
+  /**
+   * Computes the hex HMAC-SHA256 signature for a signing string
+   */
+  static computeSignature(signingKey: string, signingString: string): string {
+    return crypto.createHmac('sha256', signingKey).update(signingString).digest('hex');
+  }
+
+  /**
+   * Verifies a signature using a constant-time comparison
+   */
+  static verifySignature(signingKey: string, signingString: string, signature: string): boolean {
+    const expected = Buffer.from(this.computeSignature(signingKey, signingString), 'hex');
+    const provided = Buffer.from(signature, 'hex');
+
+    if (expected.length !== provided.length) {
+      return false;
+    }
+
+    return crypto.timingSafeEqual(expected, provided);
+  }
+
+  /**
+   * Checks that a signed timestamp (unix seconds) is within the tolerance window
+   */
+  static isTimestampFresh(timestamp: string): boolean {
+    if (!/^\d+$/.test(timestamp)) {
+      return false;
+    }
+
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    return Math.abs(nowSeconds - parseInt(timestamp)) <= MACHINE_AUTH_CONFIG.TIMESTAMP_TOLERANCE_SECONDS;
+  }
+
+  /**
+   * Validates nonce format
+   */
+  static isValidNonce(nonce: string): boolean {
+    return nonce.length >= MACHINE_AUTH_CONFIG.MIN_NONCE_LENGTH &&
+      nonce.length <= MACHINE_AUTH_CONFIG.MAX_NONCE_LENGTH &&
+      /^[a-zA-Z0-9_-]+$/.test(nonce);
+  }
+
+  /**
+   * Records a nonce for a machine
+   * @returns false if the nonce has already been used (replayed request)
+   */
+  static async consumeNonce(vendingMachineId: string, nonce: string): Promise<boolean> {
+    try {
+      await prisma.machineRequestNonce.create({
+        data: {
+          machineId: vendingMachineId,
+          nonce,
+          // Timestamps may be skewed in either direction, so keep the nonce for the whole window
+          expiresAt: new Date(Date.now() + MACHINE_AUTH_CONFIG.TIMESTAMP_TOLERANCE_MS * 2),
+        },
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Issues an API key for a machine that does not have one yet
+   */
+  static async issueApiKey(machineId: string): Promise<MachineApiKeyResult> {
+    const machine = await prisma.vendingMachine.findUnique({
+      where: { machineId },
+      select: { apiKey: true },
+    });
+
+    if (!machine) {
+      return { success: false, error: 'Machine not found' };
+    }
+
+    if (machine.apiKey) {
+      return { success: false, error: 'Machine already has an API key. Rotate it instead.' };
+    }
+
+    return this.storeNewApiKey(machineId);
+  }
+
+  /**
+   * Replaces a machine's API key; the previous key stops working immediately
+   */
+  static async rotateApiKey(machineId: string): Promise<MachineApiKeyResult> {
+    const machine = await prisma.vendingMachine.findUnique({
+      where: { machineId },
+      select: { apiKey: true },
+    });
+
+    if (!machine) {
+      return { success: false, error: 'Machine not found' };
+    }
+
+    if (!machine.apiKey) {
+      return { success: false, error: 'Machine has no API key to rotate. Issue one instead.' };
+    }
+
+    return this.storeNewApiKey(machineId);
+  }
+
+  /**
+   * Revokes a machine's API key
+   */
+  static async revokeApiKey(machineId: string): Promise<{ success: boolean; error?: string }> {
+    const machine = await prisma.vendingMachine.findUnique({
+      where: { machineId },
+      select: { apiKey: true },
+    });
+
+    if (!machine) {
+      return { success: false, error: 'Machine not found' };
+    }
+
+    if (!machine.apiKey) {
+      return { success: false, error: 'Machine has no active API key' };
+    }
+
+    await prisma.vendingMachine.update({
+      where: { machineId },
+      data: {
+        apiKey: null,
+        apiKeyIssuedAt: null,
+      },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Removes nonces that can no longer be replayed (should be run periodically)
+   */
+  static async cleanupExpiredNonces(): Promise<number> {
+    try {
+      const result = await prisma.machineRequestNonce.deleteMany({
+        where: {
+          expiresAt: {
+            lt: new Date(),
+          },
+        },
+      });
+      return result.count;
+    } catch (error) {
+      console.error('Error cleaning up expired machine nonces:', error);
+      return 0;
+    }
+  }
+
+  private static async storeNewApiKey(machineId: string): Promise<MachineApiKeyResult> {
+    const apiKey = this.generateApiKey();
+    const issuedAt = new Date();
+
+    await prisma.vendingMachine.update({
+      where: { machineId },
+      data: {
+        apiKey: this.encryptSigningKey(this.hashApiKey(apiKey)),
+        apiKeyIssuedAt: issuedAt,
+      },
+    });
+
+    return {
+      success: true,
+      key: { machineId, apiKey, issuedAt },
+    };
+  }
+}
@@ -0,0 +1,318 @@
+import { DrinkFlavour, DrinkType, MachineSlot, Prisma, StockAlertStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { MACHINE_CONFIG } from '../config/constants';
+import { ConfigureSlotRequest, RefillPlanCity, RefillPlanMachine, RefillUrgency } from '../types';
+import { StockAlertService } from './stockAlertService';
+
+export interface SlotResult {
+  success: boolean;
+  error?: string;
+  slot?: MachineSlot;
+}
+
+export interface AvailableSlotResult {
+  available: boolean;
+  error?: string;
+  slot?: MachineSlot;
+}
+
+/**
+ * MachineCatalogService - Per-machine product slots and inventory
+ *
+ * Each slot holds one drink type/flavour at a configured price. Stock is reserved when a
+ * session is paid and given back if the dispense fails; generating a QR code never takes stock.
+ */
+export class MachineCatalogService {
+  /**
+   * Gets all slots for a machine, or null if the machine does not exist
+   */
+  static async getSlots(machineId: string): Promise<MachineSlot[] | null> {
+    const machine = await prisma.vendingMachine.findUnique({
+      where: { machineId },
+      include: {
+        slots: {
+          orderBy: { slotNumber: 'asc' },
+        },
+      },
+    });
+
+    return machine ? machine.slots : null;
+  }
+
+  /**
+   * Creates or replaces the product configured in a slot
+   */
+  static async configureSlot(machineId: string, slotNumber: number, data: ConfigureSlotRequest): Promise<SlotResult> {
+    const machine = await prisma.vendingMachine.findUnique({
+      where: { machineId },
+      select: { id: true },
+    });
+
+    if (!machine) {
+      return { success: false, error: 'Machine not found' };
+    }
+
+    const stock = data.stock ?? 0;
+    if (stock > data.capacity) {
+      return { success: false, error: 'Stock cannot exceed slot capacity' };
+    }
+
+    const slotData = {
+      drinkType: data.drinkType,
+      drinkFlavour: data.drinkFlavour,
+      price: data.price,
+      capacity: data.capacity,
+      stock,
+      isActive: data.isActive ?? true,
+      ...(data.stock !== undefined && { lastRefilledAt: new Date() }),
+    };
+
+    const slot = await prisma.machineSlot.upsert({
+      where: {
+        machineId_slotNumber: {
+          machineId: machine.id,
+          slotNumber,
+        },
+      },
+      create: {
+        machineId: machine.id,
+        slotNumber,
+        ...slotData,
+      },
+      update: slotData,
+    });
+
+    await StockAlertService.resolveRecoveredAlerts(slot.id);
+    await StockAlertService.evaluateSlot(prisma, slot.id);
+
+    return { success: true, slot };
+  }
+
+  /**
+   * Records a refill; stock defaults to the slot capacity
+   */
+  static async refillSlot(machineId: string, slotNumber: number, stock?: number): Promise<SlotResult> {
+    const slot = await this.findSlot(machineId, slotNumber);
+
+    if (!slot) {
+      return { success: false, error: 'Slot not found' };
+    }
+
+    const newStock = stock ?? slot.capacity;
+    if (newStock > slot.capacity) {
+      return { success: false, error: 'Stock cannot exceed slot capacity' };
+    }
+
+    const updatedSlot = await prisma.machineSlot.update({
+      where: { id: slot.id },
+      data: {
+        stock: newStock,
+        lastRefilledAt: new Date(),
+      },
+    });
+
+    await StockAlertService.resolveRecoveredAlerts(slot.id);
+    await StockAlertService.evaluateSlot(prisma, slot.id);
+
+    return { success: true, slot: updatedSlot };
+  }
+
+  /**
+   * Removes a slot from a machine's catalog
+   */
+  static async removeSlot(machineId: string, slotNumber: number): Promise<SlotResult> {
+    const slot = await this.findSlot(machineId, slotNumber);
+
+    if (!slot) {
+      return { success: false, error: 'Slot not found' };
+    }
+
+    await prisma.machineSlot.delete({
+      where: { id: slot.id },
+    });
+
+    return { success: true, slot };
+  }
+
+  /**
+   * Finds the slot a product should be dispensed from
+   * Prefers the fullest slot when the same product is loaded in several slots
+   */
+  static async findAvailableSlot(
+    vendingMachineId: string,
+    drinkType: DrinkType,
+    drinkFlavour: DrinkFlavour
+  ): Promise<AvailableSlotResult> {
+    const slots = await prisma.machineSlot.findMany({
+      where: {
+        machineId: vendingMachineId,
+        drinkType,
+        drinkFlavour,
+        isActive: true,
+      },
+      orderBy: { stock: 'desc' },
+    });
+
+    if (slots.length === 0) {
+      return { available: false, error: 'Product is not configured on this machine' };
+    }
+
+    if (slots[0].stock <= 0) {
+      return { available: false, error: 'Product is out of stock' };
+    }
+
+    return { available: true, slot: slots[0] };
+  }
+
+  /**
+   * Takes stock for a paid session (never below zero) and raises low-stock alerts
+   * @returns false if the slot does not have enough stock left
+   */
+  static async reserveStock(tx: Prisma.TransactionClient, slotId: string, quantity: number): Promise<boolean> {
+    const updated = await tx.machineSlot.updateMany({
+      where: {
+        id: slotId,
+        stock: { gte: quantity },
+      },
+      data: {
+        stock: { decrement: quantity },
+      },
+    });
+
+    if (updated.count === 0) {
+      return false;
+    }
+
+    const slot = await tx.machineSlot.findUniqueOrThrow({
+      where: { id: slotId },
+      select: { stock: true },
+    });
+    await StockAlertService.evaluateSlot(tx, slotId, slot.stock + quantity);
+    return true;
+  }
+
+  /**
+   * Gives back stock reserved for a session whose dispense failed
+   * Skipped if the slot has been refilled to capacity in the meantime
+   */
+  static async releaseStock(tx: Prisma.TransactionClient, slotId: string, quantity: number): Promise<void> {
+    const slot = await tx.machineSlot.findUnique({
+      where: { id: slotId },
+      select: { capacity: true },
+    });
+
+    if (!slot) {
+      return;
+    }
+
+    await tx.machineSlot.updateMany({
+      where: {
+        id: slotId,
+        stock: { lte: slot.capacity - quantity },
+      },
+      data: {
+        stock: { increment: quantity },
+      },
+    });
+  }
+
+  /**
+   * Builds a refill plan: active machines with slots below the threshold, grouped by city
+   * Machines are ranked by urgency (empty slots first, then lowest fill level)
+   */
+  static async getRefillPlan(params: {
+    city?: string;
+    thresholdPercent?: number;
+  } = {}): Promise<RefillPlanCity[]> {
+    const thresholdPercent = params.thresholdPercent ?? MACHINE_CONFIG.DEFAULT_REFILL_THRESHOLD_PERCENT;
+
+    const machines = await prisma.vendingMachine.findMany({
+      where: {
+        isActive: true,
+        ...(params.city && { city: { equals: params.city, mode: 'insensitive' as const } }),
+      },
+      include: {
+        slots: {
+          where: { isActive: true },
+          orderBy: { slotNumber: 'asc' },
+        },
+        _count: {
+          select: {
+            stockAlerts: { where: { status: { in: [StockAlertStatus.OPEN, StockAlertStatus.ACKNOWLEDGED] } } },
+          },
+        },
+      },
+    });
+
+    const byCity = new Map<string, RefillPlanMachine[]>();
+
+    for (const machine of machines) {
+      const lowSlots = machine.slots
+        .filter((slot) => slot.capacity > 0 && (slot.stock / slot.capacity) * 100 < thresholdPercent)
+        .map((slot) => ({
+          slotNumber: slot.slotNumber,
+          drinkType: slot.drinkType,
+          drinkFlavour: slot.drinkFlavour,
+          stock: slot.stock,
+          capacity: slot.capacity,
+          fillPercent: Math.round((slot.stock / slot.capacity) * 100),
+          refillQuantity: slot.capacity - slot.stock,
+          lastRefilledAt: slot.lastRefilledAt,
+        }));
+
+      if (lowSlots.length === 0) {
+        continue;
+      }
+
+      const emptySlots = lowSlots.filter((slot) => slot.stock === 0).length;
+      const lowestFillPercent = Math.min(...lowSlots.map((slot) => slot.fillPercent));
+
+      const plannedMachine: RefillPlanMachine = {
+        machineId: machine.machineId,
+        name: machine.name,
+        location: machine.location,
+        address: machine.address,
+        isOnline: machine.isOnline,
+        urgency: this.getRefillUrgency(emptySlots, lowestFillPercent, thresholdPercent),
+        emptySlots,
+        lowestFillPercent,
+        openAlerts: machine._count.stockAlerts,
+        slots: lowSlots,
+      };
+
+      const cityMachines = byCity.get(machine.city) || [];
+      cityMachines.push(plannedMachine);
+      byCity.set(machine.city, cityMachines);
+    }
+
+    const plan = [...byCity.entries()].map(([city, cityMachines]) => ({
+      city,
+      machineCount: cityMachines.length,
+      machines: cityMachines.sort(this.compareRefillUrgency),
+    }));
+
+    // Cities with the most urgent machine come first
+    return plan.sort((a, b) => this.compareRefillUrgency(a.machines[0], b.machines[0]));
+  }
+
+  private static getRefillUrgency(emptySlots: number, lowestFillPercent: number, thresholdPercent: number): RefillUrgency {
+    if (emptySlots > 0) return 'CRITICAL';
+    if (lowestFillPercent < thresholdPercent / 2) return 'HIGH';
+    return 'MEDIUM';
+  }
+
+  private static compareRefillUrgency(a: RefillPlanMachine, b: RefillPlanMachine): number {
+    return b.emptySlots - a.emptySlots ||
+      a.lowestFillPercent - b.lowestFillPercent ||
+      b.slots.length - a.slots.length;
+  }
+
+  private static async findSlot(machineId: string, slotNumber: number): Promise<MachineSlot | null> {
+    return await prisma.machineSlot.findFirst({
+      where: {
+        slotNumber,
+        machine: { machineId },
+      },
+    });
+  }
+}
@@ -0,0 +1,56 @@
+import { EventEmitter } from 'events';
+
+export type MachineEventType = 'PAYMENT_COMPLETED';
+
+export interface MachineEvent {
+  type: MachineEventType;
+  sessionId: string;
+  data: Record<string, unknown>;
+  occurredAt: Date;
+}
+
+export type MachineEventListener = (event: MachineEvent) => void;
+
+/**
+ * MachineEventService - In-process pub/sub for pushing session events to connected machines
+ * Events are keyed by the VendingMachine primary key. Delivery is best effort; machines
+ * keep polling check-payment as a fallback when they are not connected.
+ */
+export class MachineEventService {
+  private static readonly emitter = (() => {
+    const emitter = new EventEmitter();
+    // One listener per open machine stream
+    emitter.setMaxListeners(0);
+    return emitter;
+  })();
+
+  /**
+   * Subscribes to events for a machine
+   * @returns Function that removes the subscription
+   */
+  static subscribe(vendingMachineId: string, listener: MachineEventListener): () => void {
+    this.emitter.on(vendingMachineId, listener);
+    return () => {
+      this.emitter.off(vendingMachineId, listener);
+    };
+  }
+
+  /**
+   * Publishes an event to every stream subscribed to a machine
+   */
+  static publish(vendingMachineId: string, event: Omit<MachineEvent, 'occurredAt'>): void {
+    try {
+      this.emitter.emit(vendingMachineId, { ...event, occurredAt: new Date() });
+    } catch (error) {
+      // A failing subscriber must never break the payment flow
+      console.error('Error publishing machine event:', error);
+    }
+  }
+
+  /**
+   * Number of open streams for a machine
+   */
+  static getSubscriberCount(vendingMachineId: string): number {
+    return this.emitter.listenerCount(vendingMachineId);
+  }
+}
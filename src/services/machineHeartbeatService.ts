@@ -0,0 +1,116 @@
+import { MachineTelemetry } from '@prisma/client';
+import { prisma } from '../config/database';
+import { MACHINE_HEARTBEAT_CONFIG } from '../config/constants';
+import { MachineHeartbeatRequest } from '../types';
+
+export interface HeartbeatResult {
+  machineId: string;
+  isOnline: boolean;
+  lastPing: Date;
+  version: string | null;
+  telemetryId: string;
+  nextHeartbeatInSeconds: number;
+}
+
+/**
+ * MachineHeartbeatService - Tracks machine liveness and stores reported telemetry
+ *
+ * Every heartbeat marks the machine online, updates `lastPing`/`version` and appends a
+ * row to the `machine_telemetry` time-series table. Machines that miss
+ * MAX_MISSED_HEARTBEATS consecutive heartbeats are marked offline by the sweep.
+ */
+export class MachineHeartbeatService {
+  /**
+   * Records a heartbeat and its telemetry for a machine
+   */
+  static async recordHeartbeat(vendingMachineId: string, data: MachineHeartbeatRequest): Promise<HeartbeatResult> {
+    const now = new Date();
+    const version = data.version?.trim() || undefined;
+
+    const [machine, telemetry] = await prisma.$transaction([
+      prisma.vendingMachine.update({
+        where: { id: vendingMachineId },
+        data: {
+          isOnline: true,
+          lastPing: now,
+          ...(version && { version }),
+        },
+      }),
+      prisma.machineTelemetry.create({
+        data: {
+          machineId: vendingMachineId,
+          version,
+          temperature: data.temperature,
+          waterLevel: data.waterLevel,
+          errorCodes: data.errorCodes || [],
+          recordedAt: now,
+        },
+      }),
+    ]);
+
+    return {
+      machineId: machine.machineId,
+      isOnline: machine.isOnline,
+      lastPing: now,
+      version: machine.version,
+      telemetryId: telemetry.id,
+      nextHeartbeatInSeconds: MACHINE_HEARTBEAT_CONFIG.HEARTBEAT_INTERVAL_SECONDS,
+    };
+  }
+
+  /**
+   * Marks online machines offline once they have missed too many heartbeats
+   * @returns Number of machines marked offline
+   */
+  static async markStaleMachinesOffline(): Promise<number> {
+    const cutoff = new Date(
+      Date.now() - MACHINE_HEARTBEAT_CONFIG.HEARTBEAT_INTERVAL_MS * MACHINE_HEARTBEAT_CONFIG.MAX_MISSED_HEARTBEATS
+    );
+
+    const result = await prisma.vendingMachine.updateMany({
+      where: {
+        isOnline: true,
+        OR: [
+          { lastPing: null },
+          { lastPing: { lt: cutoff } },
+        ],
+      },
+      data: {
+        isOnline: false,
+      },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Gets the most recent telemetry for a machine
+   */
+  static async getRecentTelemetry(vendingMachineId: string, limit: number = 50): Promise<MachineTelemetry[]> {
+    return await prisma.machineTelemetry.findMany({
+      where: { machineId: vendingMachineId },
+      orderBy: { recordedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Deletes telemetry older than the retention window (should be run periodically)
+   */
+  static async cleanupOldTelemetry(): Promise<number> {
+    try {
+      const cutoff = new Date(Date.now() - MACHINE_HEARTBEAT_CONFIG.TELEMETRY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const result = await prisma.machineTelemetry.deleteMany({
+        where: {
+          recordedAt: {
+            lt: cutoff,
+          },
+        },
+      });
+      return result.count;
+    } catch (error) {
+      console.error('Error cleaning up old machine telemetry:', error);
+      return 0;
+    }
+  }
+}
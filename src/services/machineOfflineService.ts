@@ -0,0 +1,36 @@
+import { MachineHeartbeatService } from './machineHeartbeatService';
+import { MACHINE_HEARTBEAT_CONFIG } from '../config/constants';
+
+export class MachineOfflineService {
+  private static sweepInterval: NodeJS.Timeout | null = null;
+
+  // Start periodic check for machines that stopped sending heartbeats
+  static startPeriodicSweep(intervalMs: number = MACHINE_HEARTBEAT_CONFIG.OFFLINE_SWEEP_INTERVAL_MS): void {
+    if (this.sweepInterval) {
+      console.log('Machine offline service is already running');
+      return;
+    }
+
+    this.sweepInterval = setInterval(async () => {
+      try {
+        const markedOffline = await MachineHeartbeatService.markStaleMachinesOffline();
+        if (markedOffline > 0) {
+          console.log(`Marked ${markedOffline} machine(s) offline after missed heartbeats`);
+        }
+      } catch (error) {
+        console.error('Error during machine offline sweep:', error);
+      }
+    }, intervalMs);
+
+    console.log(`Machine offline service started. Will run every ${intervalMs / 1000} seconds.`);
+  }
+
+  // Stop periodic sweep
+  static stopPeriodicSweep(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+      console.log('Machine offline service stopped');
+    }
+  }
+}
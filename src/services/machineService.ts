@@ -1,5 +1,10 @@
+import crypto from 'crypto';
 import { prisma } from '../config/database';
-import { SESSION_CONFIG } from '../config/constants';
+import { MACHINE_CONFIG, SESSION_CONFIG } from '../config/constants';
+import { DrinkFlavour, DrinkType, Prisma, VendingSession, VendingSessionStatus } from '@prisma/client';
+import { isUUID } from '../utils/validationHelper';
+import { QRCodeService } from './qrCodeService';
+import { AvailableDrinks, CreateMachineRequest, MachineListFilters, MachineResponse, NearbyMachine, UpdateMachineRequest } from '../types';
 
 export interface MachineValidationResult {
   valid: boolean;
@@ -84,23 +89,323 @@ export class MachineService {
   static isMachineAvailable(machine: { isActive: boolean; isOnline: boolean }): boolean {
     return machine.isActive && machine.isOnline;
   }
-} 
 
+  /**
+   * Lists machines for fleet management, optionally filtered by city, status and version
+   */
+  static async listMachines(filters: MachineListFilters = {}): Promise<MachineResponse[]> {
+    const where: Prisma.VendingMachineWhereInput = {};
+
+    if (filters.city) {
+      where.city = { equals: filters.city, mode: 'insensitive' };
+    }
+    if (filters.isOnline !== undefined) {
+      where.isOnline = filters.isOnline;
+    }
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive;
+    }
+    if (filters.version) {
+      where.version = filters.version;
+    }
+
+    return await prisma.vendingMachine.findMany({
+      where,
+      omit: { apiKey: true },
+      orderBy: [{ city: 'asc' }, { machineId: 'asc' }],
+    });
+  }
+
+  /**
+   * Gets machine details for management (the encrypted signing key is never returned)
+   */
+  static async getMachineDetails(machineId: string): Promise<MachineResponse | null> {
+    return await prisma.vendingMachine.findUnique({
+      where: { machineId },
+      omit: { apiKey: true },
+    });
+  }
+
+  /**
+   * Registers a new machine; machines start offline until their first heartbeat
+   */
+  static async createMachine(data: CreateMachineRequest): Promise<MachineResponse> {
+    try {
+      return await prisma.vendingMachine.create({
+        data: {
+          machineId: data.machineId,
+          name: data.name,
+          location: data.location,
+          address: data.address,
+          city: data.city,
+          state: data.state,
+          pincode: data.pincode,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          apiEndpoint: data.apiEndpoint,
+          isActive: data.isActive ?? true,
+          isOnline: false,
+          qrCode: this.generateMachineQRCode(data.machineId),
+        },
+        omit: { apiKey: true },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error('Machine ID already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Updates machine details
+   * @returns null if the machine does not exist
+   */
+  static async updateMachine(machineId: string, data: UpdateMachineRequest): Promise<MachineResponse | null> {
+    try {
+      return await prisma.vendingMachine.update({
+        where: { machineId },
+        data: {
+          name: data.name,
+          location: data.location,
+          address: data.address,
+          city: data.city,
+          state: data.state,
+          pincode: data.pincode,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          apiEndpoint: data.apiEndpoint,
+        },
+        omit: { apiKey: true },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Activates or deactivates a machine
+   * Deactivating expires any unpaid sessions so they can no longer be scanned
+   * @returns null if the machine does not exist
+   */
+  static async setMachineActive(machineId: string, isActive: boolean): Promise<MachineResponse | null> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const machine = await tx.vendingMachine.update({
+          where: { machineId },
+          data: { isActive },
+          omit: { apiKey: true },
+        });
+
+        if (!isActive) {
+          await this.expireOpenSessions(tx, machine.id);
+        }
+
+        return machine;
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the machine's static QR code; QR codes issued for unpaid sessions stop working
+   * @returns null if the machine does not exist
+   */
+  static async regenerateQRCode(machineId: string): Promise<MachineResponse | null> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const machine = await tx.vendingMachine.update({
+          where: { machineId },
+          data: { qrCode: this.generateMachineQRCode(machineId) },
+          omit: { apiKey: true },
+        });
+
+        await this.expireOpenSessions(tx, machine.id);
+
+        return machine;
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Finds active machines within a radius, sorted by distance
+   * A bounding box narrows the query before the exact haversine distance is applied
+   */
+  static async findNearbyMachines(params: {
+    latitude: number;
+    longitude: number;
+    radiusKm: number;
+  }): Promise<NearbyMachine[]> {
+    const { latitude, longitude, radiusKm } = params;
+
+    const latDelta = (radiusKm / MACHINE_CONFIG.EARTH_RADIUS_KM) * (180 / Math.PI);
+    // Longitude degrees shrink towards the poles; clamp so the box stays valid near them
+    const lngDelta = Math.min(180, latDelta / Math.max(Math.cos(this.toRadians(latitude)), 0.01));
+
+    const machines = await prisma.vendingMachine.findMany({
+      where: {
+        isActive: true,
+        latitude: { gte: latitude - latDelta, lte: latitude + latDelta },
+        longitude: { gte: longitude - lngDelta, lte: longitude + lngDelta },
+      },
+      select: {
+        machineId: true,
+        name: true,
+        location: true,
+        address: true,
+        city: true,
+        latitude: true,
+        longitude: true,
+        isOnline: true,
+        slots: {
+          where: { isActive: true, stock: { gt: 0 } },
+          select: { drinkType: true, drinkFlavour: true, price: true },
+        },
+      },
+    });
+
+    return machines
+      .map((machine) => {
+        const machineLat = Number(machine.latitude);
+        const machineLng = Number(machine.longitude);
+
+        return {
+          machineId: machine.machineId,
+          name: machine.name,
+          location: machine.location,
+          address: machine.address,
+          city: machine.city,
+          latitude: machineLat,
+          longitude: machineLng,
+          distanceKm: Math.round(this.distanceKm(latitude, longitude, machineLat, machineLng) * 100) / 100,
+          isOnline: machine.isOnline,
+          availableDrinks: this.getAvailableDrinks(machine),
+        };
+      })
+      .filter((machine) => machine.distanceKm <= radiusKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .slice(0, MACHINE_CONFIG.MAX_NEARBY_RESULTS);
+  }
+
+  /**
+   * Drinks a machine can currently serve from its in-stock slots; offline machines can't serve anything
+   */
+  static getAvailableDrinks(machine: {
+    isOnline: boolean;
+    slots: { drinkType: DrinkType; drinkFlavour: DrinkFlavour; price: Prisma.Decimal }[];
+  }): AvailableDrinks {
+    if (!machine.isOnline) {
+      return { drinkTypes: [], drinkFlavours: [], products: [] };
+    }
+
+    // The same product may be loaded in several slots
+    const products = new Map<string, AvailableDrinks['products'][number]>();
+    for (const slot of machine.slots) {
+      products.set(`${slot.drinkType}:${slot.drinkFlavour}`, {
+        drinkType: slot.drinkType,
+        drinkFlavour: slot.drinkFlavour,
+        price: Number(slot.price),
+      });
+    }
+
+    return {
+      drinkTypes: [...new Set(machine.slots.map((slot) => slot.drinkType))],
+      drinkFlavours: [...new Set(machine.slots.map((slot) => slot.drinkFlavour))],
+      products: [...products.values()],
+    };
+  }
+
+  // Great-circle distance between two points using the haversine formula
+  private static distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const dLat = this.toRadians(lat2 - lat1);
+    const dLng = this.toRadians(lng2 - lng1);
+    const a = Math.sin(dLat / 2) ** 2 +
+      Math.cos(this.toRadians(lat1)) * Math.cos(this.toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+    return 2 * MACHINE_CONFIG.EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+  }
+
+  private static toRadians(degrees: number): number {
+    return (degrees * Math.PI) / 180;
+  }
+
+  // Format: QR_<machineId>_<random>, random suffix keeps regenerated codes unique
+  private static generateMachineQRCode(machineId: string): string {
+    return `QR_${machineId}_${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+  }
+
+  private static async expireOpenSessions(tx: Prisma.TransactionClient, vendingMachineId: string): Promise<void> {
+    await tx.vendingSession.updateMany({
+      where: {
+        machineId: vendingMachineId,
+        status: { in: [VendingSessionStatus.CREATED, VendingSessionStatus.SCANNED] },
+      },
+      data: {
+        status: VendingSessionStatus.EXPIRED,
+      },
+    });
+  }
+}
+
+export type VendingSessionWithMachine = Prisma.VendingSessionGetPayload<{
+  include: { machine: true };
+}>;
 
 export class MachineSessionService {
   /**
-   * Generates a unique machine session ID
-   * Format: MSS_<timestamp>_<random_string>
+   * Creates a persistent vending session for a machine
+   * The session ID is a random UUID; expiry is stored rather than encoded in the ID
+   */
+  static async createSession(params: {
+    vendingMachineId: string;
+    drinkType: DrinkType;
+    drinkFlavour: DrinkFlavour;
+    price: number;
+    slotId?: string;
+  }): Promise<VendingSession> {
+    const { vendingMachineId, drinkType, drinkFlavour, price, slotId } = params;
+
+    return await prisma.vendingSession.create({
+      data: {
+        machineId: vendingMachineId,
+        drinkType,
+        drinkFlavour,
+        price,
+        slotId,
+        status: VendingSessionStatus.CREATED,
+        expiresAt: new Date(Date.now() + SESSION_CONFIG.EXPIRATION_MS),
+      },
+    });
+  }
+
+  /**
+   * Gets a session with its machine, or null if the ID is malformed or unknown
    */
-  static generateSessionId(): string {
-    const timestamp = Date.now();
-    const randomString = Math.random().toString(36).substring(2, 8).toUpperCase();
-    return `MSS_${timestamp}_${randomString}`;
+  static async getSession(sessionId: string): Promise<VendingSessionWithMachine | null> {
+    if (!this.isValidSessionId(sessionId)) {
+      return null;
+    }
+
+    return await prisma.vendingSession.findUnique({
+      where: { id: sessionId },
+      include: { machine: true },
+    });
   }
 
   /**
-   * Creates QR code data with embedded session and drink information
-   * Format: <machineQrCode>|SESSION:<sessionId>|DRINK:<drinkType>|SLOT:<drinkSlot>|PRICE:<price>
+   * Creates signed QR code data for a session (see QRCodeService for the format)
+   * Drink details are for display only; the stored session is authoritative
    */
   static createQRCodeData(params: {
     machineQrCode: string;
@@ -108,46 +413,68 @@ export class MachineSessionService {
     drinkType: string;
     drinkFlavour: string;
     price: number;
+    expiresAt: Date;
   }): string {
-    const { machineQrCode, sessionId, drinkType, drinkFlavour, price } = params;
-    return `${machineQrCode}|SESSION:${sessionId}|DRINK:${drinkType}|FLAVOUR:${drinkFlavour}|PRICE:${price}`;
+    return QRCodeService.sign(params);
   }
 
   /**
-   * Parses session ID from QR code data
+   * Validates session ID format
    */
-  static extractSessionId(qrCode: string): string | null {
-    if (!qrCode.includes('SESSION:')) {
-      return null;
-    }
-    
-    const sessionMatch = qrCode.match(/SESSION:([^|]+)/);
-    return sessionMatch?.[1] || null;
+  static isValidSessionId(sessionId: string): boolean {
+    return isUUID(sessionId);
   }
 
   /**
-   * Validates session ID format
+   * Checks if a session has passed its stored expiry time
    */
-  static isValidSessionId(sessionId: string): boolean {
-    // MSS_<timestamp>_<random_string> pattern
-    const sessionPattern = /^MSS_\d+_[A-Z0-9]{6}$/;
-    return sessionPattern.test(sessionId);
+  static isSessionExpired(session: { expiresAt: Date }): boolean {
+    return session.expiresAt.getTime() <= Date.now();
   }
 
   /**
-   * Checks if a session has expired based on creation timestamp
-   * @param sessionId The session ID to check
-   * @param expirationMinutes Number of minutes after which session expires (default from config)
+   * Checks if a session can still be paid for
    */
-  static isSessionExpired(sessionId: string, expirationMinutes: number = SESSION_CONFIG.EXPIRATION_MINUTES): boolean {
-    if (!this.isValidSessionId(sessionId)) {
-      return true;
-    }
+  static isSessionPayable(session: { status: VendingSessionStatus; expiresAt: Date }): boolean {
+    return (session.status === VendingSessionStatus.CREATED || session.status === VendingSessionStatus.SCANNED) &&
+      !this.isSessionExpired(session);
+  }
+
+  /**
+   * Claims the session for the user who scanned its QR code
+   * @returns false if the session is no longer payable or another user already scanned it
+   */
+  static async markSessionScanned(sessionId: string, userId: string): Promise<boolean> {
+    const result = await prisma.vendingSession.updateMany({
+      where: {
+        id: sessionId,
+        OR: [
+          { status: VendingSessionStatus.CREATED },
+          { status: VendingSessionStatus.SCANNED, userId },
+        ],
+      },
+      data: {
+        status: VendingSessionStatus.SCANNED,
+        scannedAt: new Date(),
+        userId,
+      },
+    });
+
+    return result.count > 0;
+  }
 
-    const parts = sessionId.split('_');
-    const timestamp = parseInt(parts[1]);
-    const expirationTime = timestamp + (expirationMinutes * 60 * 1000);
-    
-    return Date.now() > expirationTime;
+  /**
+   * Marks an unpaid session as expired
+   */
+  static async expireSession(sessionId: string): Promise<void> {
+    await prisma.vendingSession.updateMany({
+      where: {
+        id: sessionId,
+        status: { in: [VendingSessionStatus.CREATED, VendingSessionStatus.SCANNED] },
+      },
+      data: {
+        status: VendingSessionStatus.EXPIRED,
+      },
+    });
   }
-} 
\ No newline at end of file
+}
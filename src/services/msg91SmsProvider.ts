@@ -0,0 +1,116 @@
+import axios, { AxiosInstance } from 'axios';
+import crypto from 'crypto';
+import { SmsDeliveryStatus } from '@prisma/client';
+import {
+  SmsDeliveryReport,
+  SmsDeliveryReportRequest,
+  SmsMessage,
+  SmsProvider,
+  SmsSendResult,
+} from '../types/sms.types';
+import { SMS_CONFIG } from '../config/constants';
+
+export interface Msg91Config {
+  authKey: string;
+  senderId: string;      // DLT-approved 6 character header
+  route: string;         // 4 = transactional
+  webhookToken?: string; // Expected as ?token= on delivery report callbacks
+}
+
+// MSG91 report descriptions that mean the message will never arrive
+const FAILED_REPORTS = ['FAILED', 'REJECTED', 'NDNC', 'BLOCKED', 'EXPIRED', 'UNDELIVERED'];
+
+/**
+ * Msg91SmsProvider - MSG91 send-HTTP API with DLT template IDs
+ * Delivery reports arrive as a `data` field holding a JSON list of requests and their reports.
+ */
+export class Msg91SmsProvider implements SmsProvider {
+  readonly name = 'msg91' as const;
+  private readonly config: Msg91Config;
+  private readonly httpClient: AxiosInstance;
+
+  constructor(config: Msg91Config) {
+    this.config = config;
+    this.httpClient = axios.create({
+      baseURL: 'https://api.msg91.com/api',
+      timeout: SMS_CONFIG.REQUEST_TIMEOUT_MS,
+    });
+  }
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const response = await this.httpClient.get('/sendhttp.php', {
+      params: {
+        authkey: this.config.authKey,
+        mobiles: message.to.replace(/^\+/, ''),
+        message: message.body,
+        sender: this.config.senderId,
+        route: this.config.route,
+        country: 0, // Numbers carry their country code
+        ...(message.templateId && { DLT_TE_ID: message.templateId }),
+      },
+      responseType: 'text',
+      validateStatus: () => true,
+    });
+
+    // Success is a bare request ID; errors come back as text or JSON
+    const body = String(response.data ?? '').trim();
+    if (response.status === 200 && /^[0-9a-f]{24}$/i.test(body)) {
+      return { success: true, status: SmsDeliveryStatus.SENT, providerMessageId: body };
+    }
+
+    return {
+      success: false,
+      status: SmsDeliveryStatus.FAILED,
+      error: `MSG91 rejected the message: ${body || `HTTP ${response.status}`}`,
+    };
+  }
+
+  parseDeliveryReport(request: SmsDeliveryReportRequest): SmsDeliveryReport[] | null {
+    const token = typeof request.query.token === 'string' ? request.query.token : '';
+    if (!this.config.webhookToken || !this.tokensMatch(token, this.config.webhookToken)) {
+      return null;
+    }
+
+    const body = request.body as { data?: unknown } | undefined;
+    let entries: unknown = body?.data;
+    if (typeof entries === 'string') {
+      try {
+        entries = JSON.parse(entries);
+      } catch {
+        return [];
+      }
+    }
+
+    if (!Array.isArray(entries)) {
+      return [];
+    }
+
+    const reports: SmsDeliveryReport[] = [];
+    for (const entry of entries) {
+      const requestId = entry?.requestId;
+      const latest = Array.isArray(entry?.report) ? entry.report[entry.report.length - 1] : undefined;
+      if (typeof requestId !== 'string' || !latest) {
+        continue;
+      }
+
+      const description = String(latest.desc ?? '').toUpperCase();
+      const status = description === 'DELIVERED'
+        ? SmsDeliveryStatus.DELIVERED
+        : FAILED_REPORTS.includes(description) ? SmsDeliveryStatus.FAILED : SmsDeliveryStatus.SENT;
+
+      reports.push({
+        providerMessageId: requestId,
+        status,
+        ...(status === SmsDeliveryStatus.FAILED && { error: description }),
+      });
+    }
+
+    return reports;
+  }
+
+  private tokensMatch(received: string, expected: string): boolean {
+    const a = Buffer.from(received);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+}
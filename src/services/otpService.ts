@@ -1,6 +1,16 @@
 import { prisma } from '../config/database';
-import { Prisma, OtpPurpose } from '@prisma/client';
-import { AUTH_CONFIG } from '../config/constants';
+import { Prisma, OtpPurpose, SmsDeliveryStatus } from '@prisma/client';
+import crypto from 'crypto';
+import { AUTH_CONFIG, ERROR_CODES } from '../config/constants';
+import { SmsService } from './smsService';
+
+export interface OtpVerificationResult {
+  success: boolean;
+  code?: typeof ERROR_CODES.OTP_INVALID | typeof ERROR_CODES.OTP_RATE_LIMITED;
+  error?: string;
+  attemptsRemaining?: number;  // Wrong codes left before the OTP is invalidated
+  retryAfterSeconds?: number;  // Set while the phone number is locked out
+}
 
 export class OtpService {
   // Generate a 6-digit OTP
@@ -48,11 +58,12 @@ export class OtpService {
     }
   }
 
-  // Send OTP (in real app, integrate with SMS service)
+  // Send OTP by SMS through the configured provider; only a salted hash of the code is stored
   static async sendOtp(
     phone: string, 
-    purpose: OtpPurpose = OtpPurpose.LOGIN
-  ): Promise<{ code: string; expiresAt: Date }> {
+    purpose: OtpPurpose = OtpPurpose.LOGIN,
+    deviceFingerprint?: string
+  ): Promise<{ otpRequestId: string; expiresAt: Date }> {
     try {
       // Clean and validate phone number
       const { cleanPhone, isValid, error } = this.cleanAndValidatePhone(phone);
@@ -80,19 +91,39 @@ export class OtpService {
       });
 
       // Create new OTP record
-      await prisma.otpCode.create({
+      const codeSalt = crypto.randomBytes(AUTH_CONFIG.OTP_SALT_BYTES).toString('base64url');
+      const otpRecord = await prisma.otpCode.create({
         data: {
           phone: cleanPhone,
-          code,
+          requestId: crypto.randomBytes(AUTH_CONFIG.OTP_REQUEST_ID_BYTES).toString('base64url'),
+          codeSalt,
+          codeHash: this.hashCode(codeSalt, code),
+          deviceFingerprintHash: deviceFingerprint ? this.hashFingerprint(deviceFingerprint) : null,
           purpose,
           expiresAt,
         },
       });
 
-      // TODO: In production, integrate with SMS service (Twilio, AWS SNS, etc.)
-      console.log(`📱 OTP for ${cleanPhone}: ${code} (expires at ${expiresAt})`);
+      const delivery = await SmsService.sendOtp(cleanPhone, code);
+
+      // Record the delivery; a code that never left can't be used
+      await prisma.otpCode.update({
+        where: { id: otpRecord.id },
+        data: {
+          smsProvider: delivery.provider,
+          providerMessageId: delivery.providerMessageId ?? null,
+          deliveryStatus: delivery.status,
+          deliveryError: delivery.error ?? null,
+          ...(delivery.status === SmsDeliveryStatus.DELIVERED && { deliveredAt: new Date() }),
+          ...(!delivery.success && { used: true }),
+        },
+      });
+
+      if (!delivery.success) {
+        throw new Error('Failed to send OTP. Please try again.');
+      }
       
-      return { code, expiresAt };
+      return { otpRequestId: otpRecord.requestId, expiresAt };
     } catch (error) {
       console.error('Error sending OTP:', error);
       // Re-throw the original error message for better error handling
@@ -100,23 +131,30 @@ export class OtpService {
     }
   }
 
-  // Verify OTP code
+  // Verify the OTP sent for otpRequestId, counting wrong codes against the OTP and the phone number
   static async verifyOtp(
     phone: string, 
+    otpRequestId: string,
     code: string, 
-    purpose: OtpPurpose = OtpPurpose.LOGIN
-  ): Promise<boolean> {
+    purpose: OtpPurpose = OtpPurpose.LOGIN,
+    deviceFingerprint?: string
+  ): Promise<OtpVerificationResult> {
     try {
       const { cleanPhone, isValid } = this.cleanAndValidatePhone(phone);
       if (!isValid) {
-        return false;
+        return { success: false, code: ERROR_CODES.OTP_INVALID, error: 'Invalid or expired OTP code' };
+      }
+
+      const lockedUntil = await this.getLockout(cleanPhone);
+      if (lockedUntil) {
+        return this.lockedOutResult(lockedUntil);
       }
       
-      // Find valid OTP
+      // Sending a new OTP invalidates the others, so only the latest request ID is live
       const otpRecord = await prisma.otpCode.findFirst({
         where: {
+          requestId: otpRequestId,
           phone: cleanPhone,
-          code,
           purpose,
           used: false,
           expiresAt: {
@@ -126,26 +164,186 @@ export class OtpService {
       });
 
       if (!otpRecord) {
-        return false;
+        return { success: false, code: ERROR_CODES.OTP_INVALID, error: 'Invalid or expired OTP code' };
       }
 
-      // Mark OTP as used
-      await prisma.otpCode.update({
+      // Claim an attempt before comparing, so concurrent guesses cannot exceed the limit
+      const claimed = await prisma.otpCode.updateMany({
         where: {
-          id: otpRecord.id
+          id: otpRecord.id,
+          used: false,
+          attempts: { lt: AUTH_CONFIG.MAX_OTP_VERIFY_ATTEMPTS }
         },
         data: {
-          used: true
+          attempts: { increment: 1 }
         }
       });
 
-      return true;
+      if (claimed.count === 0) {
+        return { success: false, code: ERROR_CODES.OTP_INVALID, error: 'Invalid or expired OTP code' };
+      }
+
+      // A code used from a different device than it was requested on counts as wrong
+      const deviceMatches = !otpRecord.deviceFingerprintHash ||
+        (!!deviceFingerprint && this.hashesMatch(otpRecord.deviceFingerprintHash, this.hashFingerprint(deviceFingerprint)));
+
+      if (deviceMatches && this.hashesMatch(otpRecord.codeHash, this.hashCode(otpRecord.codeSalt, String(code)))) {
+        // Mark OTP as used
+        const consumed = await prisma.otpCode.updateMany({
+          where: {
+            id: otpRecord.id,
+            used: false
+          },
+          data: {
+            used: true
+          }
+        });
+
+        if (consumed.count === 0) {
+          return { success: false, code: ERROR_CODES.OTP_INVALID, error: 'Invalid or expired OTP code' };
+        }
+
+        await prisma.otpPhoneThrottle.deleteMany({
+          where: { phone: cleanPhone }
+        });
+
+        return { success: true };
+      }
+
+      const attemptsRemaining = Math.max(0, AUTH_CONFIG.MAX_OTP_VERIFY_ATTEMPTS - (otpRecord.attempts + 1));
+      if (attemptsRemaining === 0) {
+        await prisma.otpCode.update({
+          where: { id: otpRecord.id },
+          data: { used: true }
+        });
+      }
+
+      const lockout = await this.recordFailedAttempt(cleanPhone);
+      if (lockout) {
+        return this.lockedOutResult(lockout);
+      }
+
+      return {
+        success: false,
+        code: ERROR_CODES.OTP_INVALID,
+        error: attemptsRemaining > 0
+          ? `Invalid OTP code. ${attemptsRemaining} attempt${attemptsRemaining === 1 ? '' : 's'} remaining.`
+          : 'Invalid OTP code. Please request a new OTP.',
+        attemptsRemaining,
+      };
     } catch (error) {
       console.error('Error verifying OTP:', error);
       throw new Error('Failed to verify OTP');
     }
   }
 
+  // End of the phone number's current lockout, or null if it is not locked out
+  static async getLockout(phone: string): Promise<Date | null> {
+    const { cleanPhone, isValid } = this.cleanAndValidatePhone(phone);
+    if (!isValid) {
+      return null;
+    }
+
+    const throttle = await prisma.otpPhoneThrottle.findUnique({
+      where: { phone: cleanPhone }
+    });
+
+    return throttle?.lockedUntil && throttle.lockedUntil > new Date() ? throttle.lockedUntil : null;
+  }
+
+  // Count a wrong code against the phone number; returns the lockout end when this failure triggers one
+  private static async recordFailedAttempt(phone: string): Promise<Date | null> {
+    const now = new Date();
+
+    // Failures long ago no longer count towards a lockout or its length
+    await prisma.otpPhoneThrottle.updateMany({
+      where: {
+        phone,
+        lastFailedAt: { lt: new Date(now.getTime() - AUTH_CONFIG.OTP_FAILURE_RESET_MS) }
+      },
+      data: {
+        failedAttempts: 0,
+        lockoutCount: 0
+      }
+    });
+
+    const throttle = await prisma.otpPhoneThrottle.upsert({
+      where: { phone },
+      create: {
+        phone,
+        failedAttempts: 1,
+        lastFailedAt: now
+      },
+      update: {
+        failedAttempts: { increment: 1 },
+        lastFailedAt: now
+      }
+    });
+
+    if (throttle.failedAttempts < AUTH_CONFIG.MAX_FAILED_OTP_ATTEMPTS_PER_PHONE) {
+      return null;
+    }
+
+    const lockoutMs = Math.min(
+      AUTH_CONFIG.OTP_LOCKOUT_BASE_MS * Math.pow(2, throttle.lockoutCount),
+      AUTH_CONFIG.OTP_LOCKOUT_MAX_MS
+    );
+    const lockedUntil = new Date(now.getTime() + lockoutMs);
+
+    // Only the request that reached the threshold starts the lockout
+    const locked = await prisma.otpPhoneThrottle.updateMany({
+      where: {
+        phone,
+        failedAttempts: throttle.failedAttempts
+      },
+      data: {
+        failedAttempts: 0,
+        lockoutCount: { increment: 1 },
+        lockedUntil
+      }
+    });
+
+    return locked.count === 1 ? lockedUntil : await this.getLockout(phone);
+  }
+
+  private static lockedOutResult(lockedUntil: Date): OtpVerificationResult {
+    return {
+      success: false,
+      code: ERROR_CODES.OTP_RATE_LIMITED,
+      error: 'Too many invalid OTP attempts. Please try again later.',
+      retryAfterSeconds: Math.ceil((lockedUntil.getTime() - Date.now()) / 1000),
+    };
+  }
+
+  // Get hashing secret with proper validation (read lazily so dotenv has loaded)
+  private static getHashSecret(): string {
+    const secret = process.env.OTP_HASH_SECRET;
+
+    // In production, require a proper hashing secret
+    if (process.env.NODE_ENV === 'production' && (!secret || secret.length < 32)) {
+      throw new Error('OTP_HASH_SECRET must be set and at least 32 characters long in production');
+    }
+
+    // Fallback for development only
+    return secret || 'your_super_secret_otp_hash_key_change_this_in_production';
+  }
+
+  // Keyed hash, so codes cannot be brute-forced from a database copy alone
+  private static hashCode(salt: string, code: string): string {
+    return crypto.createHmac('sha256', this.getHashSecret()).update(`${salt}:${code}`).digest('hex');
+  }
+
+  private static hashFingerprint(deviceFingerprint: string): string {
+    return crypto.createHmac('sha256', this.getHashSecret()).update(`device:${deviceFingerprint}`).digest('hex');
+  }
+
+  // Constant-time comparison of hex hashes
+  private static hashesMatch(expected: string, received: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(received);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
   // Clean expired OTPs (cleanup job)
   static async cleanExpiredOtps(): Promise<number> {
     try {
@@ -157,6 +355,14 @@ export class OtpService {
         }
       });
 
+      // Throttles with no lockout running and no recent failures
+      await prisma.otpPhoneThrottle.deleteMany({
+        where: {
+          OR: [{ lockedUntil: null }, { lockedUntil: { lt: new Date() } }],
+          lastFailedAt: { lt: new Date(Date.now() - AUTH_CONFIG.OTP_FAILURE_RESET_MS) }
+        }
+      });
+
       return result.count;
     } catch (error) {
       console.error('Error cleaning expired OTPs:', error);
@@ -164,7 +370,7 @@ export class OtpService {
     }
   }
 
-  // Get OTP attempts for rate limiting
+  // Get the number of OTPs sent to a phone number in the window, for send rate limiting
   static async getOtpAttempts(phone: string, timeWindowMinutes = AUTH_CONFIG.RATE_LIMIT_WINDOW_MINUTES): Promise<number> {
     try {
       const { cleanPhone, isValid } = this.cleanAndValidatePhone(phone);
@@ -0,0 +1,45 @@
+import { PaymentReconciliationService } from './paymentReconciliationService';
+import { RECONCILIATION_CONFIG } from '../config/constants';
+
+export class PaymentReconcilerService {
+  private static reconcileInterval: NodeJS.Timeout | null = null;
+
+  // Start periodic reconciliation of stuck payments and the daily reconciliation report
+  static startPeriodicReconciliation(intervalMs: number = RECONCILIATION_CONFIG.SWEEP_INTERVAL_MS): void {
+    if (this.reconcileInterval) {
+      console.log('Payment reconciler service is already running');
+      return;
+    }
+
+    this.reconcileInterval = setInterval(async () => {
+      try {
+        const summary = await PaymentReconciliationService.reconcilePendingTransactions();
+        if (summary.checked > 0 || summary.expiredOrders > 0) {
+          console.log(
+            `Reconciled ${summary.checked} pending payment(s): ${summary.completed} completed, ` +
+            `${summary.failed} failed, ${summary.stillPending} still pending, ${summary.errors} error(s); ` +
+            `${summary.expiredOrders} unpaid order(s) expired`
+          );
+        }
+
+        const report = await PaymentReconciliationService.generateMissingDailyReport();
+        if (report) {
+          console.log(`Generated payment reconciliation report for ${report.reportDate.toISOString().slice(0, 10)}`);
+        }
+      } catch (error) {
+        console.error('Error during payment reconciliation:', error);
+      }
+    }, intervalMs);
+
+    console.log(`Payment reconciler service started. Will run every ${intervalMs / 1000} seconds.`);
+  }
+
+  // Stop periodic reconciliation
+  static stopPeriodicReconciliation(): void {
+    if (this.reconcileInterval) {
+      clearInterval(this.reconcileInterval);
+      this.reconcileInterval = null;
+      console.log('Payment reconciler service stopped');
+    }
+  }
+}
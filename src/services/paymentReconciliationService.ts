@@ -0,0 +1,384 @@
+import { OrderStatus, OrderType, PaymentReconciliationReport, Prisma, Transaction, TransactionStatus, TransactionType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { RECONCILIATION_CONFIG } from '../config/constants';
+import {
+  PaymentStatusResponse,
+  ReconciliationAction,
+  ReconciliationMismatch,
+  ReconciliationRunSummary,
+} from '../types/payment.types';
+import { PaymentService } from './paymentService';
+import { RefundService } from './refundService';
+import { VoucherService } from './voucherService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local transaction statuses that agree with each gateway state
+const CONSISTENT_STATUSES: Record<string, TransactionStatus[]> = {
+  COMPLETED: [TransactionStatus.SUCCESS, TransactionStatus.REFUNDED],
+  FAILED: [TransactionStatus.FAILED, TransactionStatus.CANCELLED],
+  CANCELLED: [TransactionStatus.FAILED, TransactionStatus.CANCELLED],
+  PENDING: [TransactionStatus.PENDING],
+};
+
+/**
+ * PaymentReconciliationService - Resolves payments whose webhook never arrived
+ *
+ * Payment attempts left PENDING past RECONCILIATION_CONFIG.PENDING_THRESHOLD_MINUTES are checked
+ * against the PhonePe status API; the order is completed or the attempt closed so it can be retried.
+ * Successful attempts whose order is still PENDING (completion failed after payment) are completed again.
+ * Pending refunds are settled the same way through RefundService.
+ * Orders with no successful attempt are cancelled after UNPAID_ORDER_EXPIRY_HOURS. A daily report
+ * compares the previous day's local records with gateway results and lists every mismatch.
+ */
+export class PaymentReconciliationService {
+  /**
+   * Checks pending payments, and paid attempts whose order was never completed, that are due for reconciliation
+   */
+  static async reconcilePendingTransactions(): Promise<ReconciliationRunSummary> {
+    const now = Date.now();
+    const pendingBefore = new Date(now - RECONCILIATION_CONFIG.PENDING_THRESHOLD_MINUTES * 60 * 1000);
+    const recheckBefore = new Date(now - RECONCILIATION_CONFIG.RECHECK_INTERVAL_MINUTES * 60 * 1000);
+
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        type: { in: [TransactionType.PAYMENT, TransactionType.REFUND] },
+        phonepeMerchantId: { not: null },
+        createdAt: { lt: pendingBefore },
+        AND: [
+          {
+            OR: [
+              { status: TransactionStatus.PENDING },
+              { type: TransactionType.PAYMENT, status: TransactionStatus.SUCCESS, order: { status: OrderStatus.PENDING } },
+            ],
+          },
+          { OR: [{ lastReconciledAt: null }, { lastReconciledAt: { lt: recheckBefore } }] },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+      take: RECONCILIATION_CONFIG.BATCH_SIZE,
+    });
+
+    const summary: ReconciliationRunSummary = {
+      checked: transactions.length,
+      completed: 0,
+      failed: 0,
+      stillPending: 0,
+      skipped: 0,
+      errors: 0,
+      expiredOrders: 0,
+    };
+
+    for (const transaction of transactions) {
+      const action = await this.reconcileTransaction(transaction);
+      switch (action) {
+        case 'COMPLETED': summary.completed++; break;
+        case 'FAILED': summary.failed++; break;
+        case 'STILL_PENDING': summary.stillPending++; break;
+        case 'SKIPPED': summary.skipped++; break;
+        default: summary.errors++;
+      }
+    }
+
+    // Orders whose every attempt failed are cancelled once the payment window has passed
+    summary.expiredOrders = await VoucherService.expireUnpaidOrders(
+      new Date(now - RECONCILIATION_CONFIG.UNPAID_ORDER_EXPIRY_HOURS * 60 * 60 * 1000)
+    );
+
+    return summary;
+  }
+
+  /**
+   * Fetches the gateway status of one pending payment attempt or refund and applies it.
+   * A successful attempt whose order is still pending only needs its order completed.
+   */
+  static async reconcileTransaction(transaction: Transaction): Promise<ReconciliationAction> {
+    const merchantTransactionId = transaction.phonepeMerchantId!;
+
+    await prisma.transaction.update({
+      where: { id: transaction.id },
+      data: {
+        lastReconciledAt: new Date(),
+        reconcileAttempts: { increment: 1 },
+      },
+    });
+
+    if (transaction.type === TransactionType.REFUND) {
+      return await RefundService.syncRefundStatus(transaction);
+    }
+
+    if (transaction.status === TransactionStatus.SUCCESS && transaction.orderId) {
+      return await this.completeOrder(
+        transaction.orderId,
+        merchantTransactionId,
+        transaction.phonepeTransactionId || merchantTransactionId
+      );
+    }
+
+    // Read-only status check: completeVoucherPurchase and failPaymentAttempt own the local writes
+    let statusResponse: PaymentStatusResponse;
+    try {
+      statusResponse = await PaymentService.fetchPaymentStatus(merchantTransactionId);
+    } catch (error) {
+      console.error(`Error reconciling transaction ${merchantTransactionId}:`, error);
+      return 'ERROR';
+    }
+
+    if (!statusResponse.success || !statusResponse.data?.state) {
+      const abandonBefore = Date.now() - RECONCILIATION_CONFIG.ABANDON_AFTER_HOURS * 60 * 60 * 1000;
+
+      // PhonePe has no record of the payment, so the customer never paid
+      if (
+        statusResponse.code === RECONCILIATION_CONFIG.GATEWAY_NOT_FOUND_CODE &&
+        transaction.createdAt.getTime() < abandonBefore
+      ) {
+        const closed = await VoucherService.failPaymentAttempt(
+          merchantTransactionId,
+          'CANCELLED',
+          'Payment was never received by the gateway'
+        );
+        return closed ? 'FAILED' : 'SKIPPED';
+      }
+
+      console.error(`Status check failed for transaction ${merchantTransactionId}: ${statusResponse.code}`);
+      return 'ERROR';
+    }
+
+    const data = statusResponse.data;
+
+    switch (data.state) {
+      case 'COMPLETED': {
+        if (!transaction.orderId) {
+          // No order to fulfil, so only the attempt itself is settled
+          const settled = await prisma.transaction.updateMany({
+            where: { id: transaction.id, status: TransactionStatus.PENDING },
+            data: {
+              status: TransactionStatus.SUCCESS,
+              phonepeTransactionId: data.transactionId,
+              phonepeResponse: statusResponse as unknown as Prisma.InputJsonValue,
+              processedAt: new Date(),
+            },
+          });
+          return settled.count > 0 ? 'COMPLETED' : 'SKIPPED';
+        }
+
+        return await this.completeOrder(
+          transaction.orderId,
+          merchantTransactionId,
+          data.transactionId || merchantTransactionId,
+          statusResponse
+        );
+      }
+
+      case 'FAILED':
+      case 'CANCELLED': {
+        const closed = await VoucherService.failPaymentAttempt(
+          merchantTransactionId,
+          data.state,
+          statusResponse.message || `Payment ${data.state.toLowerCase()} by provider`,
+          statusResponse
+        );
+        return closed ? 'FAILED' : 'SKIPPED';
+      }
+
+      default:
+        return 'STILL_PENDING';
+    }
+  }
+
+  // Completes the order a paid attempt belongs to; failures are left for the next sweep
+  private static async completeOrder(
+    orderId: string,
+    merchantTransactionId: string,
+    providerTransactionId: string,
+    providerResponse?: PaymentStatusResponse
+  ): Promise<ReconciliationAction> {
+    try {
+      await VoucherService.completeVoucherPurchase(orderId, merchantTransactionId, providerTransactionId, providerResponse);
+      return 'COMPLETED';
+    } catch (error) {
+      // The webhook may have completed the order in the meantime
+      const order = await prisma.order.findUnique({ where: { id: orderId }, select: { status: true } });
+      if (order && order.status !== OrderStatus.PENDING) {
+        return 'SKIPPED';
+      }
+      console.error(`Error completing order for transaction ${merchantTransactionId}:`, error);
+      return 'ERROR';
+    }
+  }
+
+  /**
+   * Generates (or regenerates) the reconciliation report for a UTC day
+   */
+  static async generateDailyReport(reportDate: Date): Promise<PaymentReconciliationReport> {
+    const periodStart = new Date(Date.UTC(reportDate.getUTCFullYear(), reportDate.getUTCMonth(), reportDate.getUTCDate()));
+    const periodEnd = new Date(periodStart.getTime() + DAY_MS);
+
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        type: TransactionType.PAYMENT,
+        phonepeMerchantId: { not: null },
+        createdAt: { gte: periodStart, lt: periodEnd },
+      },
+      include: {
+        order: {
+          select: {
+            status: true,
+            orderType: true,
+            _count: { select: { drinkVouchers: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: RECONCILIATION_CONFIG.REPORT_MAX_TRANSACTIONS,
+    });
+
+    const mismatches: ReconciliationMismatch[] = [];
+    let localSuccessCount = 0;
+    let localSuccessAmount = 0;
+    let gatewaySuccessCount = 0;
+    let gatewaySuccessAmount = 0;
+    let gatewayErrorCount = 0;
+
+    for (const transaction of transactions) {
+      const localAmount = Number(transaction.amount);
+      const mismatch = (
+        type: ReconciliationMismatch['type'],
+        message: string,
+        gatewayState: string | null = null,
+        gatewayAmount: number | null = null
+      ) => mismatches.push({
+        type,
+        transactionId: transaction.id,
+        merchantTransactionId: transaction.phonepeMerchantId,
+        orderId: transaction.orderId,
+        localStatus: transaction.status,
+        gatewayState,
+        localAmount,
+        gatewayAmount,
+        message,
+      });
+
+      if (transaction.status === TransactionStatus.SUCCESS || transaction.status === TransactionStatus.REFUNDED) {
+        localSuccessCount++;
+        localSuccessAmount += localAmount;
+      }
+
+      // The report only reads gateway state; fixing records is left to the reconciler and admins
+      let statusResponse: PaymentStatusResponse;
+      try {
+        statusResponse = await PaymentService.fetchPaymentStatus(transaction.phonepeMerchantId!);
+      } catch (error) {
+        statusResponse = {
+          success: false,
+          code: 'PAYMENT_STATUS_CHECK_FAILED',
+          message: error instanceof Error ? error.message : 'Payment status check failed',
+        };
+      }
+
+      const gatewayState = statusResponse.data?.state ?? null;
+      const gatewayAmount = statusResponse.data ? statusResponse.data.amount / 100 : null;
+
+      if (!statusResponse.success || !gatewayState) {
+        const neverReachedGateway =
+          statusResponse.code === RECONCILIATION_CONFIG.GATEWAY_NOT_FOUND_CODE &&
+          transaction.status !== TransactionStatus.SUCCESS &&
+          transaction.status !== TransactionStatus.REFUNDED;
+        if (!neverReachedGateway) {
+          gatewayErrorCount++;
+          mismatch('GATEWAY_ERROR', statusResponse.message || statusResponse.code);
+        }
+        continue;
+      }
+
+      if (gatewayState === 'COMPLETED') {
+        gatewaySuccessCount++;
+        gatewaySuccessAmount += gatewayAmount ?? 0;
+      }
+
+      if (!(CONSISTENT_STATUSES[gatewayState] ?? []).includes(transaction.status)) {
+        mismatch('STATUS_MISMATCH', `Local status ${transaction.status} but gateway reports ${gatewayState}`, gatewayState, gatewayAmount);
+      } else if (gatewayState === 'PENDING') {
+        mismatch('STILL_PENDING', 'Gateway still reports the payment as pending', gatewayState, gatewayAmount);
+      }
+
+      if (gatewayAmount !== null && Math.round(gatewayAmount * 100) !== Math.round(localAmount * 100)) {
+        mismatch('AMOUNT_MISMATCH', `Local amount ${localAmount.toFixed(2)} but gateway reports ${gatewayAmount.toFixed(2)}`, gatewayState, gatewayAmount);
+      }
+
+      if (gatewayState === 'COMPLETED' && transaction.order) {
+        if (transaction.order.status !== OrderStatus.COMPLETED && transaction.order.status !== OrderStatus.REFUNDED) {
+          mismatch('ORDER_NOT_COMPLETED', `Payment completed but order is ${transaction.order.status}`, gatewayState, gatewayAmount);
+        } else if (transaction.order.orderType === OrderType.VOUCHER_PURCHASE && transaction.order._count.drinkVouchers === 0) {
+          mismatch('MISSING_VOUCHER', 'Order completed without a voucher', gatewayState, gatewayAmount);
+        }
+      }
+    }
+
+    const data = {
+      periodStart,
+      periodEnd,
+      transactionCount: transactions.length,
+      localSuccessCount,
+      localSuccessAmount: new Prisma.Decimal(localSuccessAmount.toFixed(2)),
+      gatewaySuccessCount,
+      gatewaySuccessAmount: new Prisma.Decimal(gatewaySuccessAmount.toFixed(2)),
+      gatewayErrorCount,
+      mismatchCount: mismatches.length,
+      mismatches: mismatches as unknown as Prisma.InputJsonValue,
+      generatedAt: new Date(),
+    };
+
+    const report = await prisma.paymentReconciliationReport.upsert({
+      where: { reportDate: periodStart },
+      create: { reportDate: periodStart, ...data },
+      update: data,
+    });
+
+    if (report.mismatchCount > 0) {
+      console.warn(`Payment reconciliation for ${periodStart.toISOString().slice(0, 10)} found ${report.mismatchCount} mismatch(es)`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Generates yesterday's report if it has not been generated yet
+   * @returns The new report, or null if it already exists
+   */
+  static async generateMissingDailyReport(): Promise<PaymentReconciliationReport | null> {
+    const now = new Date();
+    const yesterday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - DAY_MS);
+
+    const existing = await prisma.paymentReconciliationReport.findUnique({
+      where: { reportDate: yesterday },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return null;
+    }
+
+    return await this.generateDailyReport(yesterday);
+  }
+
+  /**
+   * Lists reports, newest first, without the mismatch details
+   */
+  static async listReports(limit: number = 30) {
+    return await prisma.paymentReconciliationReport.findMany({
+      omit: { mismatches: true },
+      orderBy: { reportDate: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Gets the report for a UTC day
+   */
+  static async getReport(reportDate: Date): Promise<PaymentReconciliationReport | null> {
+    return await prisma.paymentReconciliationReport.findUnique({
+      where: { reportDate },
+    });
+  }
+}
@@ -1,18 +1,68 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { TransactionStatus, TransactionType } from '@prisma/client';
-import { PhonePeConfig, PaymentInitiationRequest, PaymentInitiationResponse, PaymentStatusResponse, RefundRequest, RefundResponse, CallbackVerificationResult } from '../types/payment.types';
-import { CryptoService } from '../utils/cryptoService';
+import { Prisma, Transaction, TransactionStatus } from '@prisma/client';
+import {
+  PhonePeConfig,
+  PaymentInitiationRequest,
+  PaymentInitiationResponse,
+  PaymentProvider,
+  PaymentProviderName,
+  PaymentStatusResponse,
+  RefundRequest,
+  RefundResponse,
+  CallbackVerificationResult,
+} from '../types/payment.types';
+import { PAYMENT_SIMULATOR_CONFIG } from '../config/constants';
 import { SecurityService } from '../utils/securityService';
 import { PaymentRepository } from '../repositories/paymentRepository';
+import { PhonePePaymentProvider } from './phonePePaymentProvider';
+import { SimulatedPaymentProvider, SimulatedPaymentState } from './simulatedPaymentProvider';
 
 export class PaymentService {
   private static config: PhonePeConfig;
-  private static httpClient: AxiosInstance;
-  private static cryptoService: CryptoService;
+  private static provider: PaymentProvider;
   private static securityService: SecurityService;
 
-  // Initialize PhonePe configuration
+  // Initialize the payment provider selected by PAYMENT_PROVIDER (phonepe or simulated)
   static initialize(): void {
+    const providerName = (process.env.PAYMENT_PROVIDER || 'phonepe').toLowerCase();
+
+    this.securityService = new SecurityService(100000, 0.01); // Max ₹1000, Min ₹0.01
+
+    if (providerName === 'simulated') {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('The simulated payment provider cannot be used in production');
+      }
+
+      this.config = {
+        merchantId: process.env.PHONEPE_MERCHANT_ID || 'SIMULATEDMERCHANT',
+        saltKey: process.env.PHONEPE_SALT_KEY || 'simulated-salt-key',
+        saltIndex: parseInt(process.env.PHONEPE_SALT_INDEX || '1'),
+        baseUrl: 'simulated',
+        redirectUrl: process.env.PHONEPE_REDIRECT_URL || `http://localhost:${process.env.PORT || 3000}/payment/result`,
+        callbackUrl: process.env.PHONEPE_CALLBACK_URL || `http://localhost:${process.env.PORT || 3000}/api/payments/webhook`,
+      };
+
+      const outcome = (process.env.SIMULATED_PAYMENT_OUTCOME || PAYMENT_SIMULATOR_CONFIG.DEFAULT_OUTCOME).toUpperCase();
+      if (!['COMPLETED', 'FAILED', 'CANCELLED'].includes(outcome)) {
+        throw new Error('SIMULATED_PAYMENT_OUTCOME must be COMPLETED, FAILED or CANCELLED');
+      }
+
+      this.provider = new SimulatedPaymentProvider({
+        merchantId: this.config.merchantId,
+        saltKey: this.config.saltKey,
+        saltIndex: this.config.saltIndex,
+        redirectUrl: this.config.redirectUrl,
+        callbackUrl: this.config.callbackUrl,
+        settleDelayMs: parseInt(process.env.SIMULATED_PAYMENT_SETTLE_MS || String(PAYMENT_SIMULATOR_CONFIG.DEFAULT_SETTLE_DELAY_MS)),
+        outcome: outcome as Exclude<SimulatedPaymentState, 'PENDING'>,
+        refundSettleDelayMs: PAYMENT_SIMULATOR_CONFIG.REFUND_SETTLE_DELAY_MS,
+      });
+      return;
+    }
+
+    if (providerName !== 'phonepe') {
+      throw new Error(`Unknown PAYMENT_PROVIDER "${providerName}"`);
+    }
+
     this.config = {
       merchantId: process.env.PHONEPE_MERCHANT_ID || '',
       saltKey: process.env.PHONEPE_SALT_KEY || '',
@@ -22,10 +72,6 @@ export class PaymentService {
       callbackUrl: process.env.PHONEPE_CALLBACK_URL || '',
     };
 
-    // Initialize service instances
-    this.cryptoService = new CryptoService(this.config.saltKey, this.config.saltIndex);
-    this.securityService = new SecurityService(100000, 0.01); // Max ₹1000, Min ₹0.01
-
     // Validate configuration using SecurityService
     const validation = this.securityService.validateConfiguration({
       merchantId: this.config.merchantId,
@@ -38,284 +84,165 @@ export class PaymentService {
       throw new Error(`PhonePe configuration validation failed: ${validation.errors.join(', ')}`);
     }
 
-    // Initialize HTTP client
-    this.httpClient = axios.create({
-      baseURL: this.config.baseUrl,
-      timeout: 30000,
-      headers: {
-        'Content-Type': 'application/json',
-        'accept': 'application/json',
-      },
-    });
-
-    // Add request interceptor for logging
-    this.httpClient.interceptors.request.use(
-      (config) => {
-        console.log(`PhonePe API Request: ${config.method?.toUpperCase()} ${config.url}`);
-        return config;
-      },
-      (error) => {
-        console.error('PhonePe API Request Error:', error);
-        return Promise.reject(error);
-      }
-    );
+    this.provider = new PhonePePaymentProvider(this.config);
+  }
 
-    // Add response interceptor for logging
-    this.httpClient.interceptors.response.use(
-      (response) => {
-        console.log(`PhonePe API Response: ${response.status} ${response.config.url}`);
-        return response;
-      },
-      (error) => {
-        console.error('PhonePe API Response Error:', error.response?.data || error.message);
-        return Promise.reject(error);
-      }
-    );
+  // Active provider; throws if initialize() failed
+  private static getProvider(): PaymentProvider {
+    if (!this.provider) {
+      throw new Error('Payment service not initialized');
+    }
+    return this.provider;
   }
 
+  /**
+   * Name of the active payment provider
+   */
+  static getProviderName(): PaymentProviderName {
+    return this.getProvider().name;
+  }
 
   // ========================================
   // MAIN PAYMENT METHODS
   // ========================================
 
   /**
-   * Initiate payment with PhonePe
+   * Create the next payment attempt for an order, with its own merchant transaction ID
    */
-  static async initiatePayment(request: PaymentInitiationRequest): Promise<PaymentInitiationResponse> {
-    try {
-      // Validate configuration
-      if (!this.config.merchantId) {
-        throw new Error('PhonePe service not initialized');
-      }
+  static async createPaymentAttempt(orderId: string, userId: string, amount: number): Promise<Transaction> {
+    return await PaymentRepository.createPaymentAttempt({
+      userId,
+      orderId,
+      amount,
+      merchantTransactionId: this.securityService.generateMerchantTransactionId(orderId),
+    });
+  }
 
-      // Validate amount
-      if (!this.securityService.validateAmount(request.amount)) {
-        throw new Error('Invalid amount: must be between ₹0.01 and ₹1000');
-      }
+  /**
+   * Initiate payment with the active provider for the order's current payment attempt
+   */
+  static async initiatePayment(request: PaymentInitiationRequest): Promise<PaymentInitiationResponse> {
+    const provider = this.getProvider();
 
-      // Convert amount to paise
-      const amountInPaise = this.securityService.convertToPaise(request.amount);
-      
-      // Generate unique merchant transaction ID
-      const merchantTransactionId = this.securityService.generateMerchantTransactionId(request.orderId);
-
-      // Create transaction record
-      await PaymentRepository.createTransaction({
-        userId: request.userId,
-        orderId: request.orderId,
-        amount: request.amount,
-        currency: 'INR',
-        status: TransactionStatus.PENDING,
-        type: TransactionType.PAYMENT,
-        phonepeMerchantId: merchantTransactionId,
-      });
+    // Validate amount
+    if (!this.securityService.validateAmount(request.amount)) {
+      throw new Error('Invalid amount: must be between ₹0.01 and ₹1000');
+    }
 
-      // Prepare payment request payload
-      const paymentPayload = {
-        merchantId: this.config.merchantId,
-        merchantTransactionId,
-        merchantUserId: request.userId,
-        amount: amountInPaise,
-        redirectUrl: this.config.redirectUrl,
-        redirectMode: 'POST',
-        callbackUrl: this.config.callbackUrl,
-        mobileNumber: request.userPhone,
-        paymentInstrument: {
-          type: 'PAY_PAGE',
-        },
-      };
+    // Reuse the order's pending attempt, or start a new one after a failed attempt
+    const attempt = await this.resolvePaymentAttempt(request);
+    const merchantTransactionId = attempt.phonepeMerchantId!;
 
-      // Convert payload to base64
-      const base64Payload = this.cryptoService.encodePayload(paymentPayload);
-      
-      // Generate checksum
-      const checksum = this.cryptoService.generatePaymentChecksum(base64Payload);
+    // Already sent to the gateway and still pending; return the same payment page
+    if (attempt.initiatedAt && attempt.phonepeResponse) {
+      return this.buildInitiationResponse(attempt.phonepeResponse as unknown as PaymentInitiationResponse, merchantTransactionId);
+    }
 
-      // Prepare API request
-      const apiRequest = {
-        request: base64Payload,
-      };
+    const response = await provider.initiate({
+      merchantTransactionId,
+      amount: this.securityService.convertToPaise(request.amount),
+      userId: request.userId,
+      userPhone: request.userPhone,
+    });
 
-      const headers = {
-        'X-VERIFY': checksum,
-      };
+    if (!response.success) {
+      return response;
+    }
 
-      // Make API call to PhonePe
-      const response: AxiosResponse<PaymentInitiationResponse> = await this.httpClient.post(
-        '/pg/v1/pay',
-        apiRequest,
-        { headers }
-      );
-
-      console.log('PhonePe Payment Initiation Response:', response.data);
-
-      // Update transaction record with initial response
-      await PaymentRepository.updateTransactionByMerchantId(merchantTransactionId, {
-        status: TransactionStatus.PENDING,
-        phonepeTransactionId: response.data.data?.merchantTransactionId || undefined,
-        phonepeResponse: response.data as any,
-        processedAt: null,
-        failureReason: null,
-      });
+    // Update transaction record with initial response
+    await PaymentRepository.updateTransactionByMerchantId(merchantTransactionId, {
+      status: TransactionStatus.PENDING,
+      phonepeTransactionId: response.data?.merchantTransactionId || undefined,
+      phonepeResponse: response as unknown as Prisma.InputJsonValue,
+      initiatedAt: new Date(),
+      processedAt: null,
+      failureReason: null,
+    });
 
-      // Extract payment URL from PhonePe response
-      const paymentUrl = response.data.data?.instrumentResponse?.redirectInfo?.url;
-      
-      return {
-        ...response.data,
-        data: {
-          merchantId: this.config.merchantId,
-          merchantTransactionId,
-          checksum,
-          paymentUrl: paymentUrl,
-          redirectUrl: response.data.data?.redirectUrl || paymentUrl, // Fallback
-          qrData: response.data.data?.qrData,
-          paymentInstrument: response.data.data?.paymentInstrument,
-          instrumentResponse: response.data.data?.instrumentResponse,
-        },
-      };
+    return this.buildInitiationResponse(response, merchantTransactionId);
+  }
 
-    } catch (error: any) {
-      console.error('Payment initiation error:', error);
-      
-      // Handle specific PhonePe errors
-      if (error.response?.data) {
-        return {
-          success: false,
-          code: error.response.data.code || 'PAYMENT_INITIATION_FAILED',
-          message: error.response.data.message || 'Payment initiation failed',
-        };
-      }
+  // Picks the attempt to (re)initiate: the latest one while it is pending, otherwise a new one
+  private static async resolvePaymentAttempt(request: PaymentInitiationRequest): Promise<Transaction> {
+    const latest = await PaymentRepository.getLatestPaymentAttempt(request.orderId);
 
-      throw new Error(`Payment initiation failed: ${error.message}`);
+    if (latest?.status === TransactionStatus.SUCCESS) {
+      throw new Error('Order has already been paid');
     }
-  }
 
-  /**
-   * Check payment status
-   */
-  static async checkPaymentStatus(merchantTransactionId: string): Promise<PaymentStatusResponse> {
-    try {
-      if (!this.config.merchantId) {
-        throw new Error('PhonePe service not initialized');
+    if (latest?.status === TransactionStatus.PENDING) {
+      if (!latest.initiatedAt) {
+        return latest;
       }
 
-      // Generate checksum for status check
-      const checksum = this.cryptoService.generateStatusChecksum(this.config.merchantId, merchantTransactionId);
+      // Look up an initiated attempt so an abandoned or failed payment can be retried
+      const statusResponse = await this.fetchPaymentStatus(latest.phonepeMerchantId!);
+      const state = statusResponse.data?.state;
 
-      const headers = {
-        'X-VERIFY': checksum,
-        'X-MERCHANT-ID': this.config.merchantId,
-      };
-
-      // Make API call to check status
-      const response: AxiosResponse<PaymentStatusResponse> = await this.httpClient.get(
-        `/pg/v1/status/${this.config.merchantId}/${merchantTransactionId}`,
-        { headers }
-      );
-
-      console.log('PhonePe Payment Status Response:', response.data);
-
-      // Update transaction record based on status
-      if (response.data.data?.state) {
-        let status: TransactionStatus = TransactionStatus.PENDING;
-        
-        switch (response.data.data.state) {
-          case 'COMPLETED':
-            status = TransactionStatus.SUCCESS;
-            break;
-          case 'FAILED':
-          case 'CANCELLED':
-            status = TransactionStatus.FAILED;
-            break;
-          default:
-            status = TransactionStatus.PENDING;
-        }
-
-        await PaymentRepository.updateTransactionByMerchantId(merchantTransactionId, {
-          status,
-          phonepeTransactionId: response.data.data?.transactionId,
-          phonepeResponse: response.data as any,
-          processedAt: status !== TransactionStatus.PENDING ? new Date() : null,
-          failureReason: status === TransactionStatus.FAILED ? response.data.message : null,
-        });
+      if (state === 'COMPLETED') {
+        throw new Error('Order has already been paid');
       }
-
-      return response.data;
-
-    } catch (error: any) {
-      console.error('Payment status check error:', error);
-      
-      if (error.response?.data) {
-        return {
-          success: false,
-          code: error.response.data.code || 'PAYMENT_STATUS_CHECK_FAILED',
-          message: error.response.data.message || 'Payment status check failed',
-        };
+      if (!statusResponse.success || state === 'PENDING') {
+        return latest;
       }
-
-      throw new Error(`Payment status check failed: ${error.message}`);
+      // FAILED or CANCELLED: start a new attempt; the old one is closed by its callback or the reconciler
     }
+
+    return await this.createPaymentAttempt(request.orderId, request.userId, request.amount);
+  }
+
+  // Maps a PhonePe pay response to the response returned to clients
+  private static buildInitiationResponse(
+    response: PaymentInitiationResponse,
+    merchantTransactionId: string
+  ): PaymentInitiationResponse {
+    const data: any = response.data;
+
+    // Extract payment URL from PhonePe response
+    const paymentUrl = data?.instrumentResponse?.redirectInfo?.url;
+    
+    return {
+      ...response,
+      data: {
+        merchantId: this.config.merchantId,
+        merchantTransactionId,
+        paymentUrl: paymentUrl,
+        redirectUrl: data?.redirectUrl || paymentUrl, // Fallback
+        qrData: data?.qrData,
+        paymentInstrument: data?.paymentInstrument,
+        instrumentResponse: data?.instrumentResponse,
+      },
+    };
   }
 
   /**
-   * Verify callback from PhonePe webhook
+   * Fetch payment status from the gateway without touching local records
    */
-  static async verifyCallback(xVerify: string, responseBody: string): Promise<CallbackVerificationResult> {
-    try {
-      // Verify checksum
-      const isValidChecksum = this.cryptoService.verifyCallbackChecksum(xVerify, responseBody);
-      
-      if (!isValidChecksum) {
-        return {
-          isValid: false,
-          error: 'Invalid callback checksum',
-        };
-      }
-
-      // Decode the response
-      const transactionData = this.cryptoService.decodePayload(responseBody);
-
-      // Update transaction record
-      if (transactionData.merchantTransactionId) {
-        let status: TransactionStatus = TransactionStatus.PENDING;
-        
-        switch (transactionData.state) {
-          case 'COMPLETED':
-            status = TransactionStatus.SUCCESS;
-            break;
-          case 'FAILED':
-          case 'CANCELLED':
-            status = TransactionStatus.FAILED;
-            break;
-          default:
-            status = TransactionStatus.PENDING;
-        }
-
-        await PaymentRepository.updateTransactionByMerchantId(
-          transactionData.merchantTransactionId,
-          {
-            status,
-            phonepeTransactionId: transactionData.transactionId || transactionData.phonepeTransactionId,
-            phonepeResponse: { data: transactionData } as any,
-            processedAt: status !== TransactionStatus.PENDING ? new Date() : null,
-            failureReason: status === TransactionStatus.FAILED ? transactionData.message : null,
-          }
-        );
-      }
+  static async fetchPaymentStatus(merchantTransactionId: string): Promise<PaymentStatusResponse> {
+    return await this.getProvider().status(merchantTransactionId);
+  }
 
-      return {
-        isValid: true,
-        transactionData,
-      };
+  /**
+   * Verify a gateway callback and decode its payload
+   * State changes are applied by PaymentWebhookService, not here
+   */
+  static async verifyCallback(xVerify: string, responseBody: string): Promise<CallbackVerificationResult> {
+    return this.getProvider().verifyCallback(xVerify, responseBody);
+  }
 
-    } catch (error) {
-      console.error('Callback verification error:', error);
-      return {
-        isValid: false,
-        error: 'Callback verification failed',
-      };
+  /**
+   * Settle a simulated payment and send its callback (PAYMENT_PROVIDER=simulated only)
+   * @returns False if the simulator is not active or the payment is unknown or already settled
+   */
+  static async settleSimulatedPayment(
+    merchantTransactionId: string,
+    state: Exclude<SimulatedPaymentState, 'PENDING'>
+  ): Promise<boolean> {
+    const provider = this.getProvider();
+    if (!(provider instanceof SimulatedPaymentProvider)) {
+      return false;
     }
+    return await provider.settle(merchantTransactionId, state);
   }
 
   // ========================================
@@ -323,86 +250,25 @@ export class PaymentService {
   // ========================================
 
   /**
-   * Process refund
+   * Send a refund to the gateway
+   * The REFUND transaction and the voucher are managed by RefundService
    */
   static async processRefund(request: RefundRequest): Promise<RefundResponse> {
-    try {
-      if (!this.config.merchantId) {
-        throw new Error('PhonePe service not initialized');
-      }
-
-      // Validate amount
-      if (!this.securityService.validateAmount(this.securityService.convertToRupees(request.amount))) {
-        throw new Error('Invalid refund amount');
-      }
-
-      // Prepare refund payload
-      const refundPayload = {
-        merchantId: this.config.merchantId,
-        merchantTransactionId: request.merchantTransactionId,
-        originalTransactionId: request.originalTransactionId,
-        amount: request.amount,
-        callbackUrl: request.callbackUrl || this.config.callbackUrl,
-      };
+    const provider = this.getProvider();
 
-      // Convert payload to base64
-      const base64Payload = this.cryptoService.encodePayload(refundPayload);
-      
-      // Generate checksum for refund
-      const checksum = this.cryptoService.generateRefundChecksum(base64Payload);
-
-      // Prepare API request
-      const apiRequest = {
-        request: base64Payload,
-      };
-
-      const headers = {
-        'X-VERIFY': checksum,
+    // Validate amount
+    if (!this.securityService.validateAmount(this.securityService.convertToRupees(request.amount))) {
+      return {
+        success: false,
+        code: 'INVALID_REFUND_AMOUNT',
+        message: 'Invalid refund amount',
       };
-
-      // Make API call for refund
-      const response: AxiosResponse<RefundResponse> = await this.httpClient.post(
-        '/pg/v1/refund',
-        apiRequest,
-        { headers }
-      );
-
-      console.log('PhonePe Refund Response:', response.data);
-
-      // Create refund transaction record
-      if (response.data.success) {
-        // Find original transaction
-        const originalTransaction = await PaymentRepository.getTransactionByPhonePeId(
-          request.originalTransactionId,
-          false
-        );
-
-        if (originalTransaction) {
-          // Create refund transaction record
-          await PaymentRepository.createRefundTransaction(originalTransaction, {
-            amount: this.securityService.convertToRupees(request.amount),
-            merchantTransactionId: request.merchantTransactionId,
-            phonepeTransactionId: response.data.data?.transactionId,
-            phonepeResponse: response.data as any,
-          });
-        }
-      }
-
-      return response.data;
-
-    } catch (error: any) {
-      console.error('Refund processing error:', error);
-      
-      if (error.response?.data) {
-        return {
-          success: false,
-          code: error.response.data.code || 'REFUND_FAILED',
-          message: error.response.data.message || 'Refund processing failed',
-        };
-      }
-
-      throw new Error(`Refund processing failed: ${error.message}`);
     }
+
+    return await provider.refund({
+      ...request,
+      callbackUrl: request.callbackUrl || this.config.callbackUrl,
+    });
   }
 
   // ========================================
@@ -454,8 +320,9 @@ export class PaymentService {
   /**
    * Get configuration (for debugging)
    */
-  static getConfig(): Partial<PhonePeConfig> {
+  static getConfig(): Partial<PhonePeConfig> & { provider?: PaymentProviderName } {
     return {
+      provider: this.provider?.name,
       merchantId: this.config?.merchantId,
       baseUrl: this.config?.baseUrl,
       redirectUrl: this.config?.redirectUrl,
@@ -0,0 +1,478 @@
+import { OrderStatus, OrderType, PaymentCallbackOutcome, PaymentWebhookEvent, PaymentWebhookEventStatus, Prisma, TransactionStatus, TransactionType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { WEBHOOK_CONFIG } from '../config/constants';
+import { PaymentCallbackData, PaymentStatusResponse } from '../types/payment.types';
+import { PaymentService } from './paymentService';
+import { RefundService } from './refundService';
+import { VoucherService } from './voucherService';
+
+export interface WebhookProcessingResult {
+  callbackId: string;
+  outcome: PaymentCallbackOutcome;
+  message: string;
+  eventId?: string;
+  eventStatus?: PaymentWebhookEventStatus;
+}
+
+export interface WebhookEventResult {
+  success: boolean;
+  error?: string;
+  event?: PaymentWebhookEvent;
+}
+
+// Result of applying an event; errors are thrown so the event is retried.
+// DEAD_LETTER is for events that need an admin, such as money received for an order that is already settled.
+interface AppliedEvent {
+  status:
+    | typeof PaymentWebhookEventStatus.PROCESSED
+    | typeof PaymentWebhookEventStatus.IGNORED
+    | typeof PaymentWebhookEventStatus.DEAD_LETTER;
+  message: string;
+  transactionId?: string;
+}
+
+// Events in these states are picked up by the inline handler and the retry worker
+const RETRYABLE_STATUSES: PaymentWebhookEventStatus[] = [PaymentWebhookEventStatus.PENDING, PaymentWebhookEventStatus.FAILED];
+
+// Events in these states can be replayed by an admin
+const REPLAYABLE_STATUSES: PaymentWebhookEventStatus[] = [
+  PaymentWebhookEventStatus.PENDING,
+  PaymentWebhookEventStatus.FAILED,
+  PaymentWebhookEventStatus.DEAD_LETTER,
+];
+
+/**
+ * PaymentWebhookService - Single pipeline for payment gateway callbacks
+ *
+ * Every inbound callback is stored in `payment_callbacks` before it is verified. Verified
+ * callbacks are deduplicated into `payment_webhook_events` (one event per merchant transaction
+ * ID and state), which is the durable inbox: an event that fails is retried with exponential
+ * backoff by WebhookRetryService and moved to DEAD_LETTER after WEBHOOK_CONFIG.MAX_ATTEMPTS,
+ * from where an admin can replay it.
+ */
+export class PaymentWebhookService {
+  /**
+   * Stores, verifies and applies a callback from the active payment provider
+   */
+  static async handleCallback(xVerify: string | undefined, response: unknown): Promise<WebhookProcessingResult> {
+    const callback = await prisma.paymentCallback.create({
+      data: {
+        signatureValid: false,
+        rawPayload: typeof response === 'string' ? response : null,
+      },
+    });
+
+    if (!xVerify || typeof response !== 'string' || response === '') {
+      return await this.recordOutcome(callback.id, PaymentCallbackOutcome.REJECTED, 'Missing X-VERIFY header or response body');
+    }
+
+    const verification = await PaymentService.verifyCallback(xVerify, response);
+    if (!verification.isValid) {
+      return await this.recordOutcome(callback.id, PaymentCallbackOutcome.REJECTED, verification.error || 'Invalid callback signature');
+    }
+
+    const data = verification.transactionData;
+    const merchantTransactionId = data?.merchantTransactionId;
+    const state = data?.state;
+    const provider = PaymentService.getProviderName();
+
+    await prisma.paymentCallback.update({
+      where: { id: callback.id },
+      data: {
+        provider,
+        signatureValid: true,
+        payload: data as unknown as Prisma.InputJsonValue,
+        merchantTransactionId,
+        state,
+      },
+    });
+
+    if (!merchantTransactionId || !state) {
+      return await this.recordOutcome(callback.id, PaymentCallbackOutcome.REJECTED, 'Callback payload is missing merchantTransactionId or state');
+    }
+
+    const { event, duplicate } = await this.enqueueEvent(provider, merchantTransactionId, state, data);
+
+    await prisma.paymentCallback.update({
+      where: { id: callback.id },
+      data: { eventId: event.id, transactionId: event.transactionId },
+    });
+
+    if (duplicate && !RETRYABLE_STATUSES.includes(event.status)) {
+      return await this.recordOutcome(
+        callback.id,
+        PaymentCallbackOutcome.IGNORED,
+        `Duplicate of event ${event.id} (${event.status.toLowerCase()})`,
+        event
+      );
+    }
+
+    // Redeliveries of a failed event retry it now instead of waiting for the backoff
+    const processed = await this.processEvent(event.id, { ignoreBackoff: duplicate });
+
+    if (!processed) {
+      return await this.recordOutcome(callback.id, PaymentCallbackOutcome.IGNORED, `Event ${event.id} is already being processed`, event);
+    }
+
+    switch (processed.status) {
+      case PaymentWebhookEventStatus.PROCESSED:
+        return await this.recordOutcome(callback.id, PaymentCallbackOutcome.PROCESSED, processed.resultMessage || 'Processed', processed);
+      case PaymentWebhookEventStatus.IGNORED:
+        return await this.recordOutcome(callback.id, PaymentCallbackOutcome.IGNORED, processed.resultMessage || 'No action needed', processed);
+      case PaymentWebhookEventStatus.DEAD_LETTER:
+        return await this.recordOutcome(callback.id, PaymentCallbackOutcome.FAILED, processed.resultMessage || 'Needs review', processed);
+      default:
+        // The event stays in the inbox and is retried by WebhookRetryService
+        return await this.recordOutcome(callback.id, PaymentCallbackOutcome.FAILED, processed.lastError || 'Failed to process callback', processed);
+    }
+  }
+
+  /**
+   * Applies a gateway status check through the inbox, exactly as a callback with the same state would be.
+   * The check and the callback share one event, so whichever arrives second is a duplicate.
+   * @returns The event, or null if the payment is still pending or the event is being processed elsewhere
+   */
+  static async applyStatusCheck(merchantTransactionId: string, statusResponse: PaymentStatusResponse): Promise<PaymentWebhookEvent | null> {
+    const state = statusResponse.data?.state;
+    if (!statusResponse.success || !state || state === 'PENDING') {
+      return null;
+    }
+
+    // Same shape the providers give callback data: the transaction with the response code and message alongside it
+    const data: PaymentCallbackData = { ...statusResponse.data, code: statusResponse.code, message: statusResponse.message };
+    const { event, duplicate } = await this.enqueueEvent(PaymentService.getProviderName(), merchantTransactionId, state, data);
+
+    if (duplicate && !RETRYABLE_STATUSES.includes(event.status)) {
+      return event;
+    }
+
+    return await this.processEvent(event.id, { ignoreBackoff: duplicate });
+  }
+
+  /**
+   * Claims and applies an inbox event
+   * @returns The updated event, or null if it is not due or another worker holds it
+   */
+  static async processEvent(eventId: string, options: { ignoreBackoff?: boolean } = {}): Promise<PaymentWebhookEvent | null> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - WEBHOOK_CONFIG.PROCESSING_TIMEOUT_MS);
+
+    // Claim the event atomically so the inline handler and the retry worker never apply it twice
+    const claimed = await prisma.paymentWebhookEvent.updateMany({
+      where: {
+        id: eventId,
+        OR: [
+          {
+            status: { in: RETRYABLE_STATUSES },
+            ...(!options.ignoreBackoff && {
+              OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+            }),
+          },
+          // A worker that crashed mid-attempt leaves the event in PROCESSING
+          { status: PaymentWebhookEventStatus.PROCESSING, updatedAt: { lt: staleBefore } },
+        ],
+      },
+      data: {
+        status: PaymentWebhookEventStatus.PROCESSING,
+        attempts: { increment: 1 },
+        nextAttemptAt: null,
+      },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const event = await prisma.paymentWebhookEvent.findUniqueOrThrow({
+      where: { id: eventId },
+    });
+
+    try {
+      const applied = await this.applyEvent(event);
+      const needsReview = applied.status === PaymentWebhookEventStatus.DEAD_LETTER;
+      if (needsReview) {
+        console.error(`Payment webhook event ${eventId} needs review: ${applied.message}`);
+      }
+
+      return await prisma.paymentWebhookEvent.update({
+        where: { id: eventId },
+        data: {
+          status: applied.status,
+          resultMessage: applied.message,
+          lastError: needsReview ? applied.message : null,
+          processedAt: new Date(),
+          ...(needsReview && { deadLetteredAt: new Date() }),
+          ...(applied.transactionId && { transactionId: applied.transactionId }),
+        },
+      });
+    } catch (error) {
+      console.error(`Error processing payment webhook event ${eventId} (attempt ${event.attempts}):`, error);
+      const lastError = error instanceof Error ? error.message : 'Failed to process callback';
+
+      if (event.attempts >= WEBHOOK_CONFIG.MAX_ATTEMPTS) {
+        console.error(`Payment webhook event ${eventId} moved to dead letter after ${event.attempts} attempts`);
+        return await prisma.paymentWebhookEvent.update({
+          where: { id: eventId },
+          data: {
+            status: PaymentWebhookEventStatus.DEAD_LETTER,
+            lastError,
+            deadLetteredAt: new Date(),
+          },
+        });
+      }
+
+      return await prisma.paymentWebhookEvent.update({
+        where: { id: eventId },
+        data: {
+          status: PaymentWebhookEventStatus.FAILED,
+          lastError,
+          nextAttemptAt: new Date(Date.now() + this.getRetryDelayMs(event.attempts)),
+        },
+      });
+    }
+  }
+
+  /**
+   * Processes failed events whose backoff has elapsed and events abandoned mid-attempt
+   * @returns Number of events that were claimed
+   */
+  static async retryDueEvents(): Promise<number> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - WEBHOOK_CONFIG.PROCESSING_TIMEOUT_MS);
+
+    const dueEvents = await prisma.paymentWebhookEvent.findMany({
+      where: {
+        OR: [
+          { status: PaymentWebhookEventStatus.FAILED, nextAttemptAt: { lte: now } },
+          { status: PaymentWebhookEventStatus.PENDING, createdAt: { lt: staleBefore } },
+          { status: PaymentWebhookEventStatus.PROCESSING, updatedAt: { lt: staleBefore } },
+        ],
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: WEBHOOK_CONFIG.RETRY_BATCH_SIZE,
+    });
+
+    let claimed = 0;
+    for (const { id } of dueEvents) {
+      const event = await this.processEvent(id);
+      if (event) {
+        claimed++;
+      }
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Lists inbox events, newest first; defaults to events that still need attention
+   */
+  static async listEvents(filters: { status?: PaymentWebhookEventStatus; merchantTransactionId?: string } = {}) {
+    return await prisma.paymentWebhookEvent.findMany({
+      where: {
+        status: filters.status ?? { in: [PaymentWebhookEventStatus.FAILED, PaymentWebhookEventStatus.DEAD_LETTER] },
+        ...(filters.merchantTransactionId && { merchantTransactionId: filters.merchantTransactionId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  /**
+   * Resets a stuck event and processes it immediately
+   */
+  static async replayEvent(eventId: string): Promise<WebhookEventResult> {
+    const reset = await prisma.paymentWebhookEvent.updateMany({
+      where: {
+        id: eventId,
+        status: { in: REPLAYABLE_STATUSES },
+      },
+      data: {
+        status: PaymentWebhookEventStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: null,
+        deadLetteredAt: null,
+      },
+    });
+
+    if (reset.count === 0) {
+      const existing = await prisma.paymentWebhookEvent.findUnique({
+        where: { id: eventId },
+        select: { status: true },
+      });
+
+      if (!existing) {
+        return { success: false, error: 'Webhook event not found' };
+      }
+      return { success: false, error: `Webhook event is already ${existing.status.toLowerCase()}` };
+    }
+
+    const event = await this.processEvent(eventId);
+    if (!event) {
+      return { success: false, error: 'Webhook event is already being processed' };
+    }
+
+    return { success: true, event };
+  }
+
+  // Creates the inbox event for a verified callback, or returns the existing one for a redelivery
+  private static async enqueueEvent(
+    provider: string,
+    merchantTransactionId: string,
+    state: string,
+    data: PaymentCallbackData
+  ): Promise<{ event: PaymentWebhookEvent; duplicate: boolean }> {
+    try {
+      const event = await prisma.paymentWebhookEvent.create({
+        data: {
+          provider,
+          merchantTransactionId,
+          state,
+          payload: data as unknown as Prisma.InputJsonValue,
+        },
+      });
+      return { event, duplicate: false };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+
+    const event = await prisma.paymentWebhookEvent.update({
+      where: {
+        provider_merchantTransactionId_state: {
+          provider,
+          merchantTransactionId,
+          state,
+        },
+      },
+      data: { receivedCount: { increment: 1 } },
+    });
+    return { event, duplicate: true };
+  }
+
+  // Applies a verified callback to the order, transaction and voucher
+  private static async applyEvent(event: PaymentWebhookEvent): Promise<AppliedEvent> {
+    const { merchantTransactionId, state } = event;
+    const data = event.payload as unknown as PaymentCallbackData;
+    const transaction = await PaymentService.getTransactionByMerchantId(merchantTransactionId);
+
+    if (!transaction) {
+      return { status: PaymentWebhookEventStatus.IGNORED, message: 'Unknown merchant transaction ID' };
+    }
+
+    const ignored = (message: string): AppliedEvent => ({
+      status: PaymentWebhookEventStatus.IGNORED,
+      message,
+      transactionId: transaction.id,
+    });
+    const processed = (message: string): AppliedEvent => ({
+      status: PaymentWebhookEventStatus.PROCESSED,
+      message,
+      transactionId: transaction.id,
+    });
+
+    if (transaction.type === TransactionType.REFUND) {
+      const result = await RefundService.applyRefundState(transaction.id, state, data);
+      return result.applied ? processed(result.message) : ignored(result.message);
+    }
+
+    if (!transaction.orderId || !transaction.order) {
+      return ignored('Transaction is not linked to an order');
+    }
+
+    const orderId: string = transaction.orderId;
+    const orderStatus: OrderStatus = transaction.order.status;
+    const providerTransactionId = data.transactionId;
+
+    switch (state) {
+      case 'COMPLETED': {
+        if (orderStatus !== OrderStatus.PENDING) {
+          if (transaction.status !== TransactionStatus.SUCCESS) {
+            // The order was paid by a different attempt (or cancelled), so the customer paid for nothing.
+            // Dead-letter the event so it shows up in the admin queue until the payment is refunded.
+            return {
+              status: PaymentWebhookEventStatus.DEAD_LETTER,
+              message: `Order is already ${orderStatus.toLowerCase()} but payment attempt ${merchantTransactionId} succeeded; refund it through the gateway`,
+              transactionId: transaction.id,
+            };
+          }
+          return ignored(`Order is already ${orderStatus.toLowerCase()}`);
+        }
+
+        try {
+          const voucher = await VoucherService.completeVoucherPurchase(
+            orderId,
+            merchantTransactionId,
+            providerTransactionId || merchantTransactionId,
+            data
+          );
+          await prisma.transaction.update({
+            where: { id: transaction.id },
+            data: { phonepeCallbackData: data as unknown as Prisma.InputJsonValue },
+          });
+          return processed(transaction.order.orderType === OrderType.VOUCHER_TOPUP
+            ? `Voucher ${voucher.voucherNumber} topped up`
+            : `Voucher ${voucher.voucherNumber} issued`);
+        } catch (error) {
+          // A concurrent status check may have completed the order first
+          const order = await prisma.order.findUnique({ where: { id: orderId }, select: { status: true } });
+          if (order && order.status !== OrderStatus.PENDING) {
+            return ignored(`Order is already ${order.status.toLowerCase()}`);
+          }
+          throw error;
+        }
+      }
+
+      case 'FAILED':
+      case 'CANCELLED': {
+        const reason = data.message || `Payment ${state.toLowerCase()} by provider`;
+
+        if (transaction.status === TransactionStatus.PENDING) {
+          const updated = await VoucherService.failPaymentAttempt(merchantTransactionId, state, reason, data);
+          if (updated) {
+            return processed(`Payment attempt ${state.toLowerCase()}: ${reason}`);
+          }
+          return ignored('Payment attempt is no longer pending');
+        }
+
+        if (transaction.status === TransactionStatus.SUCCESS && orderStatus === OrderStatus.COMPLETED) {
+          // The provider contradicts an earlier success; hold the voucher until someone reviews it
+          const suspended = await VoucherService.suspendOrderVouchers(orderId);
+          return processed(`Payment reported ${state.toLowerCase()} after completion; ${suspended} voucher(s) suspended for review`);
+        }
+
+        return ignored(`Payment attempt is already ${transaction.status.toLowerCase()}`);
+      }
+
+      default:
+        // PENDING and unknown states are stored for reference only
+        return ignored(`No action for state ${state}`);
+    }
+  }
+
+  // Exponential backoff: base delay doubled for each previous attempt, capped
+  private static getRetryDelayMs(attempts: number): number {
+    const delay = WEBHOOK_CONFIG.BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+    return Math.min(delay, WEBHOOK_CONFIG.MAX_RETRY_DELAY_MS);
+  }
+
+  private static async recordOutcome(
+    callbackId: string,
+    outcome: PaymentCallbackOutcome,
+    message: string,
+    event?: PaymentWebhookEvent
+  ): Promise<WebhookProcessingResult> {
+    await prisma.paymentCallback.update({
+      where: { id: callbackId },
+      data: {
+        outcome,
+        outcomeMessage: message,
+        processedAt: new Date(),
+        ...(event?.transactionId && { transactionId: event.transactionId }),
+      },
+    });
+
+    return { callbackId, outcome, message, eventId: event?.id, eventStatus: event?.status };
+  }
+}
@@ -0,0 +1,233 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import {
+  CallbackVerificationResult,
+  PaymentInitiationResponse,
+  PaymentProvider,
+  PaymentStatusResponse,
+  PhonePeConfig,
+  ProviderInitiationRequest,
+  RefundRequest,
+  RefundResponse,
+} from '../types/payment.types';
+import { CryptoService } from '../utils/cryptoService';
+
+/**
+ * PhonePePaymentProvider - PhonePe PG v1 API client
+ * Gateway error responses are returned as `{ success: false, code, message }`; network
+ * failures are thrown.
+ */
+export class PhonePePaymentProvider implements PaymentProvider {
+  readonly name = 'phonepe' as const;
+  private readonly config: PhonePeConfig;
+  private readonly httpClient: AxiosInstance;
+  private readonly cryptoService: CryptoService;
+
+  constructor(config: PhonePeConfig) {
+    this.config = config;
+    this.cryptoService = new CryptoService(config.saltKey, config.saltIndex);
+
+    // Initialize HTTP client
+    this.httpClient = axios.create({
+      baseURL: config.baseUrl,
+      timeout: 30000,
+      headers: {
+        'Content-Type': 'application/json',
+        'accept': 'application/json',
+      },
+    });
+
+    // Add request interceptor for logging
+    this.httpClient.interceptors.request.use(
+      (requestConfig) => {
+        console.log(`PhonePe API Request: ${requestConfig.method?.toUpperCase()} ${requestConfig.url}`);
+        return requestConfig;
+      },
+      (error) => {
+        console.error('PhonePe API Request Error:', error);
+        return Promise.reject(error);
+      }
+    );
+
+    // Add response interceptor for logging
+    this.httpClient.interceptors.response.use(
+      (response) => {
+        console.log(`PhonePe API Response: ${response.status} ${response.config.url}`);
+        return response;
+      },
+      (error) => {
+        console.error('PhonePe API Response Error:', error.response?.data || error.message);
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Create a PhonePe pay page for a payment attempt
+   */
+  async initiate(request: ProviderInitiationRequest): Promise<PaymentInitiationResponse> {
+    try {
+      // Prepare payment request payload
+      const paymentPayload = {
+        merchantId: this.config.merchantId,
+        merchantTransactionId: request.merchantTransactionId,
+        merchantUserId: request.userId,
+        amount: request.amount,
+        redirectUrl: this.config.redirectUrl,
+        redirectMode: 'POST',
+        callbackUrl: this.config.callbackUrl,
+        mobileNumber: request.userPhone,
+        paymentInstrument: {
+          type: 'PAY_PAGE',
+        },
+      };
+
+      // Convert payload to base64
+      const base64Payload = this.cryptoService.encodePayload(paymentPayload);
+
+      // Generate checksum
+      const checksum = this.cryptoService.generatePaymentChecksum(base64Payload);
+
+      // Make API call to PhonePe
+      const response: AxiosResponse<PaymentInitiationResponse> = await this.httpClient.post(
+        '/pg/v1/pay',
+        { request: base64Payload },
+        { headers: { 'X-VERIFY': checksum } }
+      );
+
+      console.log('PhonePe Payment Initiation Response:', response.data);
+
+      return response.data;
+
+    } catch (error: any) {
+      console.error('Payment initiation error:', error);
+
+      // Handle specific PhonePe errors
+      if (error.response?.data) {
+        return {
+          success: false,
+          code: error.response.data.code || 'PAYMENT_INITIATION_FAILED',
+          message: error.response.data.message || 'Payment initiation failed',
+        };
+      }
+
+      throw new Error(`Payment initiation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fetch the gateway status of a payment or refund
+   */
+  async status(merchantTransactionId: string): Promise<PaymentStatusResponse> {
+    try {
+      // Generate checksum for status check
+      const checksum = this.cryptoService.generateStatusChecksum(this.config.merchantId, merchantTransactionId);
+
+      const headers = {
+        'X-VERIFY': checksum,
+        'X-MERCHANT-ID': this.config.merchantId,
+      };
+
+      // Make API call to check status
+      const response: AxiosResponse<PaymentStatusResponse> = await this.httpClient.get(
+        `/pg/v1/status/${this.config.merchantId}/${merchantTransactionId}`,
+        { headers }
+      );
+
+      console.log('PhonePe Payment Status Response:', response.data);
+
+      return response.data;
+
+    } catch (error: any) {
+      console.error('Payment status check error:', error);
+
+      if (error.response?.data) {
+        return {
+          success: false,
+          code: error.response.data.code || 'PAYMENT_STATUS_CHECK_FAILED',
+          message: error.response.data.message || 'Payment status check failed',
+        };
+      }
+
+      throw new Error(`Payment status check failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Refund a completed payment
+   */
+  async refund(request: RefundRequest): Promise<RefundResponse> {
+    try {
+      // Prepare refund payload
+      const refundPayload = {
+        merchantId: this.config.merchantId,
+        merchantTransactionId: request.merchantTransactionId,
+        originalTransactionId: request.originalTransactionId,
+        amount: request.amount,
+        callbackUrl: request.callbackUrl || this.config.callbackUrl,
+      };
+
+      // Convert payload to base64
+      const base64Payload = this.cryptoService.encodePayload(refundPayload);
+
+      // Generate checksum for refund
+      const checksum = this.cryptoService.generateRefundChecksum(base64Payload);
+
+      // Make API call for refund
+      const response: AxiosResponse<RefundResponse> = await this.httpClient.post(
+        '/pg/v1/refund',
+        { request: base64Payload },
+        { headers: { 'X-VERIFY': checksum } }
+      );
+
+      console.log('PhonePe Refund Response:', response.data);
+
+      return response.data;
+
+    } catch (error: any) {
+      console.error('Refund processing error:', error);
+
+      if (error.response?.data) {
+        return {
+          success: false,
+          code: error.response.data.code || 'REFUND_FAILED',
+          message: error.response.data.message || 'Refund processing failed',
+        };
+      }
+
+      throw new Error(`Refund processing failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Verify an S2S callback's X-VERIFY checksum and decode its payload
+   */
+  verifyCallback(xVerify: string, responseBody: string): CallbackVerificationResult {
+    try {
+      if (!this.cryptoService.verifyCallbackChecksum(xVerify, responseBody)) {
+        return {
+          isValid: false,
+          error: 'Invalid callback checksum',
+        };
+      }
+
+      const decoded = this.cryptoService.decodePayload(responseBody);
+
+      // Callbacks wrap the transaction in `data`; keep the response code and message alongside it
+      const transactionData = decoded?.data
+        ? { ...decoded.data, code: decoded.code, message: decoded.message }
+        : decoded;
+
+      return {
+        isValid: true,
+        transactionData,
+      };
+
+    } catch (error) {
+      console.error('Callback verification error:', error);
+      return {
+        isValid: false,
+        error: 'Callback verification failed',
+      };
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import crypto from 'crypto';
+import { QR_CODE_CONFIG } from '../config/constants';
+
+export interface QRCodePayload {
+  machineQrCode: string;
+  sessionId: string;
+  drinkType: string;
+  drinkFlavour: string;
+  price: number;
+  expiresAt: Date;
+}
+
+export interface ParsedQRCode {
+  format: 'SS2' | 'LEGACY';
+  machineQrCode: string;
+  sessionId?: string;
+  drinkType?: string;
+  drinkFlavour?: string;
+  price?: number;
+}
+
+export interface QRCodeParseResult {
+  valid: boolean;
+  data?: ParsedQRCode;
+  error?: string;
+}
+
+// Compact payload embedded in SS2 QR codes
+interface SignedPayload {
+  v: number;     // Payload version
+  m: string;     // Machine QR code
+  s: string;     // Session ID
+  d: string;     // Drink type
+  f: string;     // Drink flavour
+  p: number;     // Price
+  exp: number;   // Expiry (unix seconds)
+  n: string;     // Random nonce
+}
+
+/**
+ * QRCodeService - Signs and verifies the QR payloads shown on vending machines
+ *
+ * Format: SS2.<base64url JSON payload>.<base64url HMAC-SHA256 of "SS2.<payload>">
+ * The legacy `machineQr|SESSION:..|DRINK:..` format is only accepted while
+ * QR_ALLOW_LEGACY_FORMAT=true, so machines can be migrated gradually.
+ */
+export class QRCodeService {
+  // Get signing secret with proper validation (read lazily so dotenv has loaded)
+  private static getSigningSecret(): string {
+    const secret = process.env.QR_SIGNING_SECRET;
+
+    // In production, require a proper signing secret
+    if (process.env.NODE_ENV === 'production' && (!secret || secret.length < 32)) {
+      throw new Error('QR_SIGNING_SECRET must be set and at least 32 characters long in production');
+    }
+
+    // Fallback for development only
+    return secret || 'your_super_secret_qr_signing_key_change_this_in_production';
+  }
+
+  /**
+   * Whether unsigned legacy QR codes are still accepted
+   */
+  static isLegacyFormatAllowed(): boolean {
+    return process.env.QR_ALLOW_LEGACY_FORMAT === 'true';
+  }
+
+  private static computeSignature(signedPart: string): string {
+    return crypto.createHmac('sha256', this.getSigningSecret()).update(signedPart).digest('base64url');
+  }
+
+  /**
+   * Creates a signed SS2 QR string
+   */
+  static sign(payload: QRCodePayload): string {
+    const body: SignedPayload = {
+      v: QR_CODE_CONFIG.PAYLOAD_VERSION,
+      m: payload.machineQrCode,
+      s: payload.sessionId,
+      d: payload.drinkType,
+      f: payload.drinkFlavour,
+      p: payload.price,
+      exp: Math.floor(payload.expiresAt.getTime() / 1000),
+      n: crypto.randomBytes(QR_CODE_CONFIG.NONCE_BYTES).toString('base64url'),
+    };
+
+    const encodedPayload = Buffer.from(JSON.stringify(body)).toString('base64url');
+    const signedPart = `${QR_CODE_CONFIG.FORMAT_PREFIX}.${encodedPayload}`;
+    return `${signedPart}.${this.computeSignature(signedPart)}`;
+  }
+
+  /**
+   * Verifies and parses a scanned QR string
+   */
+  static verifyAndParse(qrCode: string): QRCodeParseResult {
+    if (qrCode.startsWith(`${QR_CODE_CONFIG.FORMAT_PREFIX}.`)) {
+      return this.parseSigned(qrCode);
+    }
+
+    if (!this.isLegacyFormatAllowed()) {
+      return {
+        valid: false,
+        error: 'Unsupported QR code format. Please ask the machine to generate a new QR code.',
+      };
+    }
+
+    return this.parseLegacy(qrCode);
+  }
+
+  private static parseSigned(qrCode: string): QRCodeParseResult {
+    const parts = qrCode.split('.');
+    if (parts.length !== 3) {
+      return { valid: false, error: 'Invalid QR code format' };
+    }
+
+    const [prefix, encodedPayload, signature] = parts;
+    const expected = Buffer.from(this.computeSignature(`${prefix}.${encodedPayload}`));
+    const provided = Buffer.from(signature);
+
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+      return { valid: false, error: 'Invalid QR code signature' };
+    }
+
+    let payload: SignedPayload;
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'));
+    } catch (error) {
+      console.error('Error decoding QR payload:', error);
+      return { valid: false, error: 'Invalid QR code format' };
+    }
+
+    if (payload.v !== QR_CODE_CONFIG.PAYLOAD_VERSION) {
+      return { valid: false, error: 'Unsupported QR code version' };
+    }
+
+    if (!payload.exp || payload.exp * 1000 <= Date.now()) {
+      return { valid: false, error: 'QR code has expired' };
+    }
+
+    return {
+      valid: true,
+      data: {
+        format: 'SS2',
+        machineQrCode: payload.m,
+        sessionId: payload.s,
+        drinkType: payload.d,
+        drinkFlavour: payload.f,
+        price: payload.p,
+      },
+    };
+  }
+
+  // Format: "QR_VM_GYM_ANDHERI_01|SESSION:sessionId|DRINK:WATER|FLAVOUR:VANILLA|PRICE:25"
+  private static parseLegacy(qrCode: string): QRCodeParseResult {
+    const parts = qrCode.split('|');
+    const data: ParsedQRCode = {
+      format: 'LEGACY',
+      machineQrCode: parts[0],
+    };
+
+    for (let i = 1; i < parts.length; i++) {
+      const [key, value] = parts[i].split(':');
+      if (key === 'SESSION') data.sessionId = value;
+      if (key === 'DRINK') data.drinkType = value;
+      if (key === 'FLAVOUR') data.drinkFlavour = value;
+      if (key === 'PRICE') data.price = parseInt(value);
+    }
+
+    return { valid: true, data };
+  }
+}
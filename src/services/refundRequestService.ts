@@ -0,0 +1,204 @@
+import {
+  Prisma,
+  RefundRequestStatus,
+  TransactionStatus,
+  TransactionType,
+  VoucherRefundRequest,
+} from '@prisma/client';
+import { prisma } from '../config/database';
+import { RefundService } from './refundService';
+
+export interface RefundRequestResult {
+  success: boolean;
+  error?: string;
+  request?: VoucherRefundRequest;
+}
+
+const REQUEST_INCLUDE: Prisma.VoucherRefundRequestInclude = {
+  voucher: {
+    select: { voucherNumber: true, totalDrinks: true, consumedDrinks: true, pricePerDrink: true, status: true },
+  },
+  user: {
+    select: { id: true, name: true, phone: true },
+  },
+  reviewedBy: {
+    select: { id: true, name: true },
+  },
+  refundTransaction: {
+    select: { id: true, status: true, amount: true, refundedDrinks: true, failureReason: true },
+  },
+};
+
+/**
+ * RefundRequestService - Customer refund requests and the admin review queue
+ *
+ * A customer asks for the unused drinks on a voucher to be refunded; the eligible amount is quoted
+ * by RefundService when the request is made. Approving a request sends the refund for whatever is
+ * still unused at that moment through RefundService. If the refund cannot be started the request
+ * goes back to the queue with the error, so it can be approved again or rejected.
+ */
+export class RefundRequestService {
+  /**
+   * Records a customer's refund request for one of their vouchers
+   */
+  static async createRequest(voucherId: string, userId: string, reason: string): Promise<RefundRequestResult> {
+    const voucher = await prisma.drinkVoucher.findFirst({
+      where: { id: voucherId, userId },
+    });
+
+    if (!voucher) {
+      return { success: false, error: 'Voucher not found' };
+    }
+
+    const payment = voucher.orderId
+      ? await prisma.transaction.findFirst({
+          where: {
+            orderId: voucher.orderId,
+            type: TransactionType.PAYMENT,
+            status: TransactionStatus.SUCCESS,
+          },
+        })
+      : null;
+
+    if (!payment) {
+      return { success: false, error: 'Voucher has no refundable payment' };
+    }
+
+    const pending = await prisma.voucherRefundRequest.findFirst({
+      where: { voucherId, status: RefundRequestStatus.PENDING },
+    });
+
+    if (pending) {
+      return { success: false, error: 'A refund request for this voucher is already pending' };
+    }
+
+    const quote = await RefundService.calculateRefund(payment.id);
+    if (!quote.success) {
+      return { success: false, error: quote.error };
+    }
+
+    const request = await prisma.voucherRefundRequest.create({
+      data: {
+        voucherId,
+        userId,
+        paymentTransactionId: payment.id,
+        reason: reason.trim(),
+        requestedDrinks: quote.quote!.drinks,
+        eligibleAmount: new Prisma.Decimal(quote.quote!.amount),
+      },
+      include: REQUEST_INCLUDE,
+    });
+
+    return { success: true, request };
+  }
+
+  /**
+   * Lists refund requests, oldest first; without a customer or voucher filter, defaults to the pending queue
+   */
+  static async listRequests(filters: { status?: RefundRequestStatus; userId?: string; voucherId?: string } = {}) {
+    return await prisma.voucherRefundRequest.findMany({
+      where: {
+        status: filters.status ?? (filters.userId || filters.voucherId ? undefined : RefundRequestStatus.PENDING),
+        ...(filters.userId && { userId: filters.userId }),
+        ...(filters.voucherId && { voucherId: filters.voucherId }),
+      },
+      include: REQUEST_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Approves a pending request and starts the refund for the voucher's unused drinks
+   */
+  static async approveRequest(requestId: string, reviewerId: string, comment?: string | null): Promise<RefundRequestResult> {
+    const claimed = await prisma.voucherRefundRequest.updateMany({
+      where: {
+        id: requestId,
+        status: RefundRequestStatus.PENDING,
+      },
+      data: {
+        status: RefundRequestStatus.APPROVED,
+        reviewedById: reviewerId,
+        reviewComment: comment?.trim() || null,
+        reviewedAt: new Date(),
+        failureReason: null,
+      },
+    });
+
+    if (claimed.count === 0) {
+      return await this.reviewConflict(requestId);
+    }
+
+    const request = await prisma.voucherRefundRequest.findUniqueOrThrow({
+      where: { id: requestId },
+    });
+
+    const result = await RefundService.initiateRefund({
+      paymentTransactionId: request.paymentTransactionId,
+      reason: `Refund request: ${request.reason}`,
+    });
+
+    if (!result.success) {
+      // Back to the queue so it can be approved again or rejected
+      const reopened = await prisma.voucherRefundRequest.update({
+        where: { id: requestId },
+        data: {
+          status: RefundRequestStatus.PENDING,
+          failureReason: result.error,
+        },
+        include: REQUEST_INCLUDE,
+      });
+      return { success: false, error: `Refund could not be started: ${result.error}`, request: reopened };
+    }
+
+    const approved = await prisma.voucherRefundRequest.update({
+      where: { id: requestId },
+      data: { refundTransactionId: result.refund!.id },
+      include: REQUEST_INCLUDE,
+    });
+
+    return { success: true, request: approved };
+  }
+
+  /**
+   * Rejects a pending request with a comment for the customer
+   */
+  static async rejectRequest(requestId: string, reviewerId: string, comment: string): Promise<RefundRequestResult> {
+    const updated = await prisma.voucherRefundRequest.updateMany({
+      where: {
+        id: requestId,
+        status: RefundRequestStatus.PENDING,
+      },
+      data: {
+        status: RefundRequestStatus.REJECTED,
+        reviewedById: reviewerId,
+        reviewComment: comment.trim(),
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (updated.count === 0) {
+      return await this.reviewConflict(requestId);
+    }
+
+    const request = await prisma.voucherRefundRequest.findUniqueOrThrow({
+      where: { id: requestId },
+      include: REQUEST_INCLUDE,
+    });
+
+    return { success: true, request };
+  }
+
+  // Explains why a request could not be claimed for review
+  private static async reviewConflict(requestId: string): Promise<RefundRequestResult> {
+    const request = await prisma.voucherRefundRequest.findUnique({
+      where: { id: requestId },
+    });
+
+    if (!request) {
+      return { success: false, error: 'Refund request not found' };
+    }
+
+    return { success: false, error: `Refund request is already ${request.status.toLowerCase()}` };
+  }
+}
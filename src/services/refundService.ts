@@ -0,0 +1,469 @@
+import {
+  ConsumptionStatus,
+  DrinkVoucher,
+  OrderStatus,
+  PaymentStatus,
+  Prisma,
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+  VoucherStatus,
+} from '@prisma/client';
+import { prisma } from '../config/database';
+import { RECONCILIATION_CONFIG } from '../config/constants';
+import { PaymentStatusResponse, ReconciliationAction, RefundGatewayData, RefundQuote, RefundResponse } from '../types/payment.types';
+import { PaymentRepository } from '../repositories/paymentRepository';
+import { PaymentService } from './paymentService';
+
+export interface RefundResult {
+  success: boolean;
+  error?: string;
+  quote?: RefundQuote;
+  refund?: Transaction;
+}
+
+export interface RefundInitiationRequest {
+  paymentTransactionId: string;
+  drinks?: number;       // Defaults to every unused drink on the voucher
+  reason?: string | null;
+}
+
+interface RefundContext {
+  payment: Transaction;
+  voucher: DrinkVoucher;
+  quote: RefundQuote;
+}
+
+/**
+ * RefundService - Refunds the unused drinks on a voucher
+ *
+ * A payment can only refund the drinks its own order bought: a voucher's purchase and each top-up are
+ * refunded separately, with consumption charged to the oldest purchase first. The amount is the
+ * refunded drinks times that order's price per drink, so consumed drinks are never refunded. The drinks are taken off the voucher when the REFUND transaction is created and
+ * handed back if the gateway fails the refund; the refund itself settles from its callback or from
+ * a status check by the reconciler. A voucher with no drinks left is cancelled, and the order is
+ * marked REFUNDED once refunds cover the whole payment.
+ */
+export class RefundService {
+  /**
+   * Works out what refunding a payment would return, without changing anything
+   */
+  static async calculateRefund(paymentTransactionId: string, drinks?: number): Promise<RefundResult> {
+    const context = await this.loadRefundContext(paymentTransactionId, drinks);
+    if ('error' in context) {
+      return { success: false, error: context.error };
+    }
+
+    return { success: true, quote: context.quote };
+  }
+
+  /**
+   * Creates a PENDING refund for unused drinks and sends it to the gateway
+   */
+  static async initiateRefund(request: RefundInitiationRequest): Promise<RefundResult> {
+    const context = await this.loadRefundContext(request.paymentTransactionId, request.drinks);
+    if ('error' in context) {
+      return { success: false, error: context.error };
+    }
+
+    const { payment, voucher, quote } = context;
+    const merchantTransactionId = `REFUND_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+    let refund: Transaction;
+    try {
+      refund = await prisma.$transaction(async (tx) => {
+        // A dispense awaiting acknowledgement may still hand its drinks back to the voucher
+        const pendingDispenses = await tx.consumption.count({
+          where: { voucherId: voucher.id, status: ConsumptionStatus.PENDING },
+        });
+        if (pendingDispenses > 0) {
+          throw new Error('Voucher has a dispense in progress; try again shortly');
+        }
+
+        // Take the drinks off the voucher now so they cannot be consumed while the refund is pending
+        const remainingAfter = voucher.totalDrinks - voucher.consumedDrinks - quote.drinks;
+        const reserved = await tx.drinkVoucher.updateMany({
+          where: {
+            id: voucher.id,
+            version: voucher.version, // Optimistic locking
+            status: VoucherStatus.ACTIVE,
+          },
+          data: {
+            totalDrinks: { decrement: quote.drinks },
+            totalPrice: { decrement: quote.amount },
+            status: remainingAfter === 0 ? VoucherStatus.CANCELLED : VoucherStatus.ACTIVE,
+            version: { increment: 1 },
+          },
+        });
+
+        if (reserved.count === 0) {
+          throw new Error('Voucher was modified by another transaction. Please try again.');
+        }
+
+        return await PaymentRepository.createRefundTransaction(payment, {
+          amount: quote.amount,
+          merchantTransactionId,
+          refundedDrinks: quote.drinks,
+          reason: request.reason,
+        }, tx);
+      });
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create refund' };
+    }
+
+    let response: RefundResponse;
+    try {
+      response = await PaymentService.processRefund({
+        originalTransactionId: payment.phonepeTransactionId!,
+        merchantTransactionId,
+        amount: Math.round(quote.amount * 100), // Convert to paise
+      });
+    } catch (error) {
+      // The gateway may still have received the refund, so it stays pending for the reconciler
+      console.error(`Error sending refund ${merchantTransactionId}:`, error);
+      return { success: true, quote, refund };
+    }
+
+    if (!response.success) {
+      const reason = response.message || 'Refund rejected by the gateway';
+      await this.failRefund(refund.id, reason, response);
+      return { success: false, error: reason, quote };
+    }
+
+    refund = await prisma.transaction.update({
+      where: { id: refund.id },
+      data: {
+        phonepeTransactionId: response.data?.transactionId,
+        phonepeResponse: response as unknown as Prisma.InputJsonValue,
+        initiatedAt: new Date(),
+      },
+    });
+
+    if (response.data?.state === 'COMPLETED') {
+      await this.completeRefund(refund.id, response);
+      refund = await prisma.transaction.findUniqueOrThrow({ where: { id: refund.id } });
+    }
+
+    return { success: true, quote, refund };
+  }
+
+  /**
+   * Applies a gateway refund state (from a callback or status check) to a pending refund
+   * @returns Whether anything changed, with a description for the webhook log
+   */
+  static async applyRefundState(refundId: string, state: string, data: RefundGatewayData): Promise<{ applied: boolean; message: string }> {
+    switch (state) {
+      case 'COMPLETED': {
+        const completed = await this.completeRefund(refundId, data);
+        return completed
+          ? { applied: true, message: 'Refund completed' }
+          : { applied: false, message: 'Refund is no longer pending' };
+      }
+
+      case 'FAILED':
+      case 'CANCELLED': {
+        const reason = data.message || `Refund ${state.toLowerCase()} by provider`;
+        const failed = await this.failRefund(refundId, reason, data);
+        return failed
+          ? { applied: true, message: `Refund ${state.toLowerCase()}: ${reason}; drinks returned to the voucher` }
+          : { applied: false, message: 'Refund is no longer pending' };
+      }
+
+      default:
+        return { applied: false, message: `No action for refund state ${state}` };
+    }
+  }
+
+  /**
+   * Checks a pending refund against the gateway status API
+   */
+  static async syncRefundStatus(refund: Pick<Transaction, 'id' | 'phonepeMerchantId' | 'createdAt'>): Promise<ReconciliationAction> {
+    const merchantTransactionId = refund.phonepeMerchantId!;
+
+    let statusResponse: PaymentStatusResponse;
+    try {
+      statusResponse = await PaymentService.fetchPaymentStatus(merchantTransactionId);
+    } catch (error) {
+      console.error(`Error checking refund ${merchantTransactionId}:`, error);
+      return 'ERROR';
+    }
+
+    if (!statusResponse.success || !statusResponse.data?.state) {
+      const abandonBefore = Date.now() - RECONCILIATION_CONFIG.ABANDON_AFTER_HOURS * 60 * 60 * 1000;
+
+      // The gateway never received the refund, so the drinks go back to the voucher
+      if (
+        statusResponse.code === RECONCILIATION_CONFIG.GATEWAY_NOT_FOUND_CODE &&
+        refund.createdAt.getTime() < abandonBefore
+      ) {
+        const failed = await this.failRefund(refund.id, 'Refund was never received by the gateway', statusResponse);
+        return failed ? 'FAILED' : 'SKIPPED';
+      }
+
+      console.error(`Status check failed for refund ${merchantTransactionId}: ${statusResponse.code}`);
+      return 'ERROR';
+    }
+
+    const state = statusResponse.data.state;
+    if (state === 'PENDING') {
+      return 'STILL_PENDING';
+    }
+
+    const { applied } = await this.applyRefundState(refund.id, state, statusResponse);
+    if (!applied) {
+      return state === 'COMPLETED' || state === 'FAILED' || state === 'CANCELLED' ? 'SKIPPED' : 'STILL_PENDING';
+    }
+    return state === 'COMPLETED' ? 'COMPLETED' : 'FAILED';
+  }
+
+  // Marks a pending refund successful and moves the payment and order to their refunded states
+  private static async completeRefund(refundId: string, data: RefundGatewayData): Promise<boolean> {
+    // Callbacks carry the gateway transaction ID at the top level, API responses under `data`
+    const providerTransactionId = 'success' in data ? data.data?.transactionId : data.transactionId;
+
+    return await prisma.$transaction(async (tx) => {
+      const updated = await tx.transaction.updateMany({
+        where: {
+          id: refundId,
+          type: TransactionType.REFUND,
+          status: TransactionStatus.PENDING,
+        },
+        data: {
+          status: TransactionStatus.SUCCESS,
+          phonepeCallbackData: data as unknown as Prisma.InputJsonValue,
+          processedAt: new Date(),
+          ...(providerTransactionId && { phonepeTransactionId: providerTransactionId }),
+        },
+      });
+
+      if (updated.count === 0) {
+        return false;
+      }
+
+      const refund = await tx.transaction.findUniqueOrThrow({
+        where: { id: refundId },
+        include: { parentTransaction: true },
+      });
+
+      if (!refund.parentTransaction || !refund.orderId) {
+        return true;
+      }
+
+      const refunded = await tx.transaction.aggregate({
+        where: {
+          parentTransactionId: refund.parentTransaction.id,
+          type: TransactionType.REFUND,
+          status: TransactionStatus.SUCCESS,
+        },
+        _sum: { amount: true },
+      });
+
+      const fullyRefunded = Number(refunded._sum.amount ?? 0) >= Number(refund.parentTransaction.amount);
+
+      if (fullyRefunded) {
+        await tx.transaction.update({
+          where: { id: refund.parentTransaction.id },
+          data: { status: TransactionStatus.REFUNDED },
+        });
+      }
+
+      await tx.order.update({
+        where: { id: refund.orderId },
+        data: fullyRefunded
+          ? { status: OrderStatus.REFUNDED, paymentStatus: PaymentStatus.REFUNDED }
+          : { paymentStatus: PaymentStatus.PARTIALLY_REFUNDED },
+      });
+
+      return true;
+    });
+  }
+
+  // Marks a pending refund failed and puts its drinks back on the voucher
+  private static async failRefund(refundId: string, reason: string, data: RefundGatewayData): Promise<boolean> {
+    return await prisma.$transaction(async (tx) => {
+      const updated = await tx.transaction.updateMany({
+        where: {
+          id: refundId,
+          type: TransactionType.REFUND,
+          status: TransactionStatus.PENDING,
+        },
+        data: {
+          status: TransactionStatus.FAILED,
+          failureReason: reason,
+          phonepeCallbackData: data as unknown as Prisma.InputJsonValue,
+          processedAt: new Date(),
+        },
+      });
+
+      if (updated.count === 0) {
+        return false;
+      }
+
+      const refund = await tx.transaction.findUniqueOrThrow({
+        where: { id: refundId },
+      });
+
+      const voucher = refund.orderId ? await this.findOrderVoucher(tx, refund.orderId) : null;
+
+      if (voucher && refund.refundedDrinks) {
+        await tx.drinkVoucher.update({
+          where: { id: voucher.id },
+          data: {
+            totalDrinks: { increment: refund.refundedDrinks },
+            totalPrice: { increment: refund.amount },
+            // Only the refund cancels a voucher with drinks left on it
+            status: voucher.status === VoucherStatus.CANCELLED ? VoucherStatus.ACTIVE : voucher.status,
+            version: { increment: 1 },
+          },
+        });
+      }
+
+      return true;
+    });
+  }
+
+  // The voucher an order issued, or the voucher a top-up order added drinks to
+  private static async findOrderVoucher(client: Prisma.TransactionClient, orderId: string): Promise<DrinkVoucher | null> {
+    const order = await client.order.findUnique({
+      where: { id: orderId },
+      include: { drinkVouchers: true, topupVoucher: true },
+    });
+
+    return order?.drinkVouchers[0] ?? order?.topupVoucher ?? null;
+  }
+
+  /**
+   * Drinks an order put on a voucher and how many of them are still unused. The voucher's purchase
+   * and completed top-ups are taken oldest first: drinks refunded from an order are no longer on
+   * it, and consumption uses up earlier orders before later ones.
+   */
+  private static async getOrderDrinks(
+    voucher: DrinkVoucher,
+    orderId: string
+  ): Promise<{ purchasedDrinks: number; heldDrinks: number; unusedDrinks: number }> {
+    const purchaseFilters: Prisma.OrderWhereInput[] = [
+      { topupVoucherId: voucher.id, status: { in: [OrderStatus.COMPLETED, OrderStatus.REFUNDED] } },
+    ];
+    if (voucher.orderId) {
+      purchaseFilters.push({ id: voucher.orderId });
+    }
+
+    const orders = await prisma.order.findMany({
+      where: { OR: purchaseFilters },
+      select: { id: true, totalDrinks: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Pending refunds already hold their drinks, so they count as refunded
+    const refunds = await prisma.transaction.groupBy({
+      by: ['orderId'],
+      where: {
+        orderId: { in: orders.map((order) => order.id) },
+        type: TransactionType.REFUND,
+        status: { in: [TransactionStatus.PENDING, TransactionStatus.SUCCESS] },
+      },
+      _sum: { refundedDrinks: true },
+    });
+    const refundedDrinks = new Map(refunds.map((refund) => [refund.orderId, refund._sum.refundedDrinks ?? 0]));
+
+    let unallocatedConsumption = voucher.consumedDrinks;
+    for (const order of orders) {
+      const purchasedDrinks = order.totalDrinks || 0;
+      const heldDrinks = Math.max(0, purchasedDrinks - (refundedDrinks.get(order.id) ?? 0));
+      const consumed = Math.min(heldDrinks, unallocatedConsumption);
+      unallocatedConsumption -= consumed;
+
+      if (order.id === orderId) {
+        return { purchasedDrinks, heldDrinks, unusedDrinks: heldDrinks - consumed };
+      }
+    }
+
+    return { purchasedDrinks: 0, heldDrinks: 0, unusedDrinks: 0 };
+  }
+
+  // Loads a refundable payment with its voucher and prices the requested drinks
+  private static async loadRefundContext(
+    paymentTransactionId: string,
+    drinks?: number
+  ): Promise<RefundContext | { error: string }> {
+    const payment = await prisma.transaction.findUnique({
+      where: { id: paymentTransactionId },
+      include: {
+        order: {
+          include: { drinkVouchers: true, topupVoucher: true },
+        },
+        refunds: {
+          where: { status: { in: [TransactionStatus.PENDING, TransactionStatus.SUCCESS] } },
+          select: { amount: true },
+        },
+      },
+    });
+
+    if (!payment || payment.type !== TransactionType.PAYMENT) {
+      return { error: 'Payment transaction not found' };
+    }
+
+    if (payment.status !== TransactionStatus.SUCCESS) {
+      return { error: 'Only successful payments can be refunded' };
+    }
+
+    if (!payment.phonepeTransactionId) {
+      return { error: 'Payment has no gateway transaction ID' };
+    }
+
+    const voucher = payment.order?.drinkVouchers[0] ?? payment.order?.topupVoucher;
+    if (!payment.order || !voucher) {
+      return { error: 'No voucher was issued for this payment' };
+    }
+
+    if (voucher.status !== VoucherStatus.ACTIVE) {
+      return { error: `Voucher is ${voucher.status.toLowerCase()} and cannot be refunded` };
+    }
+
+    const { purchasedDrinks, heldDrinks, unusedDrinks: refundableDrinks } = await this.getOrderDrinks(voucher, payment.order.id);
+    if (refundableDrinks <= 0) {
+      return { error: 'This payment has no unused drinks to refund' };
+    }
+
+    const requestedDrinks = drinks ?? refundableDrinks;
+    if (!Number.isInteger(requestedDrinks) || requestedDrinks < 1 || requestedDrinks > refundableDrinks) {
+      return { error: `Between 1 and ${refundableDrinks} drink(s) can be refunded` };
+    }
+
+    // Top-ups blend the voucher's price per drink, so each payment is refunded at its own order's price
+    const paidAmount = Number(payment.amount);
+    const pricePerDrink = purchasedDrinks > 0
+      ? Math.round((Number(payment.order.totalAmount) / purchasedDrinks) * 100) / 100
+      : Number(voucher.pricePerDrink);
+    const alreadyRefunded = payment.refunds.reduce((total, refund) => total + Number(refund.amount), 0);
+    const refundableAmount = Math.max(0, Math.round((paidAmount - alreadyRefunded) * 100) / 100);
+
+    // Refunding the rest of an order none of whose drinks were consumed returns exactly what is left of
+    // the payment, whatever the per-drink rounding
+    const amount = requestedDrinks === heldDrinks
+      ? refundableAmount
+      : Math.min(Math.round(requestedDrinks * pricePerDrink * 100) / 100, refundableAmount);
+
+    if (amount <= 0) {
+      return { error: 'Payment has already been fully refunded' };
+    }
+
+    return {
+      payment,
+      voucher,
+      quote: {
+        paymentTransactionId: payment.id,
+        orderId: payment.order.id,
+        voucherId: voucher.id,
+        voucherNumber: voucher.voucherNumber,
+        pricePerDrink,
+        totalDrinks: voucher.totalDrinks,
+        consumedDrinks: voucher.consumedDrinks,
+        refundableDrinks,
+        drinks: requestedDrinks,
+        amount,
+        alreadyRefunded,
+      },
+    };
+  }
+}
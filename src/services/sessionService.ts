@@ -0,0 +1,254 @@
+import { prisma } from '../config/database';
+import { UserSession } from '@prisma/client';
+import crypto from 'crypto';
+import { AUTH_CONFIG, ERROR_CODES } from '../config/constants';
+import { SessionResponse } from '../types';
+
+// Client details recorded with a session
+export interface SessionClientInfo {
+  deviceName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  location?: string;
+}
+
+export interface IssuedRefreshToken {
+  refreshToken: string;
+  session: UserSession;
+}
+
+export interface RefreshTokenRotationResult {
+  success: boolean;
+  code?: typeof ERROR_CODES.REFRESH_TOKEN_INVALID | typeof ERROR_CODES.REFRESH_TOKEN_REUSED;
+  error?: string;
+  refreshToken?: string;
+  session?: UserSession;
+}
+
+/**
+ * SessionService - Server-side refresh tokens
+ *
+ * Refresh tokens are opaque random strings stored only as SHA-256 hashes. Every refresh exchanges
+ * the token for a new one in the same family (one family per login). A token that has already
+ * been exchanged can only be presented again by someone holding a stolen copy, so the whole
+ * family is revoked when that happens. Access tokens carry the family ID as their `sid` claim and
+ * stop working as soon as the family is revoked.
+ */
+export class SessionService {
+  /**
+   * Starts a new session family and returns its first refresh token
+   */
+  static async createSession(userId: string, client: SessionClientInfo): Promise<IssuedRefreshToken> {
+    const refreshToken = this.generateRefreshToken();
+
+    const session = await prisma.userSession.create({
+      data: {
+        userId,
+        familyId: crypto.randomUUID(),
+        refreshTokenHash: this.hashToken(refreshToken),
+        ...this.clientData(client),
+        expiresAt: this.getExpirationTime(),
+      },
+    });
+
+    return { refreshToken, session };
+  }
+
+  /**
+   * Exchanges a refresh token for the next one in its family.
+   * Presenting a token that was already exchanged revokes the family.
+   */
+  static async rotateRefreshToken(refreshToken: string, client: SessionClientInfo): Promise<RefreshTokenRotationResult> {
+    const invalid: RefreshTokenRotationResult = {
+      success: false,
+      code: ERROR_CODES.REFRESH_TOKEN_INVALID,
+      error: 'Invalid or expired refresh token',
+    };
+
+    const current = await prisma.userSession.findUnique({
+      where: { refreshTokenHash: this.hashToken(refreshToken) },
+    });
+
+    if (!current || current.revokedAt || current.expiresAt < new Date()) {
+      return invalid;
+    }
+
+    if (current.rotatedAt) {
+      return this.handleReuse(current);
+    }
+
+    const now = new Date();
+    const nextToken = this.generateRefreshToken();
+
+    const next = await prisma.$transaction(async (tx) => {
+      // Claim the token; a concurrent refresh with the same token loses and is treated as reuse
+      const claimed = await tx.userSession.updateMany({
+        where: { id: current.id, rotatedAt: null, revokedAt: null },
+        data: { rotatedAt: now, lastUsedAt: now },
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      return tx.userSession.create({
+        data: {
+          userId: current.userId,
+          familyId: current.familyId,
+          refreshTokenHash: this.hashToken(nextToken),
+          deviceName: client.deviceName?.trim() || current.deviceName,
+          ipAddress: client.ipAddress || current.ipAddress,
+          userAgent: this.truncate(client.userAgent, AUTH_CONFIG.MAX_USER_AGENT_LENGTH) || current.userAgent,
+          location: this.truncate(client.location, AUTH_CONFIG.MAX_LOCATION_LENGTH) || current.location,
+          expiresAt: this.getExpirationTime(),
+          lastUsedAt: now,
+        },
+      });
+    });
+
+    if (!next) {
+      return this.handleReuse(current);
+    }
+
+    return { success: true, refreshToken: nextToken, session: next };
+  }
+
+  /**
+   * Checks that an access token's session is still active and records the activity.
+   * lastUsedAt is written at most once per SESSION_ACTIVITY_UPDATE_INTERVAL_MS.
+   */
+  static async validateSession(familyId: string, userId: string): Promise<boolean> {
+    const now = new Date();
+    const session = await prisma.userSession.findFirst({
+      where: {
+        familyId,
+        userId,
+        rotatedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: now },
+      },
+    });
+
+    if (!session) {
+      return false;
+    }
+
+    if (now.getTime() - session.lastUsedAt.getTime() > AUTH_CONFIG.SESSION_ACTIVITY_UPDATE_INTERVAL_MS) {
+      await prisma.userSession.updateMany({
+        where: { id: session.id, rotatedAt: null },
+        data: { lastUsedAt: now },
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Lists a user's active sessions, most recently used first
+   */
+  static async listActiveSessions(userId: string, currentSessionId?: string): Promise<SessionResponse[]> {
+    // The unrotated token of each active family describes the session
+    const sessions = await prisma.userSession.findMany({
+      where: {
+        userId,
+        rotatedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    // Sign-in time is when the family's first token was issued
+    const firstIssued = await prisma.userSession.groupBy({
+      by: ['familyId'],
+      where: { familyId: { in: sessions.map((session) => session.familyId) } },
+      _min: { createdAt: true },
+    });
+    const signedInAt = new Map(firstIssued.map((group) => [group.familyId, group._min.createdAt]));
+
+    return sessions.map((session) => ({
+      id: session.familyId,
+      deviceName: session.deviceName,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      location: session.location,
+      signedInAt: signedInAt.get(session.familyId) ?? session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.familyId === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revokes every token in a session family
+   */
+  static async revokeSession(familyId: string, userId: string, reason: string): Promise<number> {
+    const result = await prisma.userSession.updateMany({
+      where: { familyId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    return result.count;
+  }
+
+  /**
+   * Revokes all of a user's sessions
+   */
+  static async revokeAllUserSessions(userId: string, reason: string): Promise<number> {
+    const result = await prisma.userSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    return result.count;
+  }
+
+  // Clean up expired refresh tokens (should be run periodically)
+  static async cleanupExpiredSessions(): Promise<void> {
+    try {
+      await prisma.userSession.deleteMany({
+        where: {
+          expiresAt: {
+            lt: new Date(),
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Error cleaning up expired sessions:', error);
+    }
+  }
+
+  // A rotated token was presented again: revoke its family
+  private static async handleReuse(session: UserSession): Promise<RefreshTokenRotationResult> {
+    const revoked = await this.revokeSession(session.familyId, session.userId, 'refresh_token_reuse');
+    console.warn(`Refresh token reuse detected for user ${session.userId}, session ${session.familyId}; revoked ${revoked} token(s)`);
+
+    return {
+      success: false,
+      code: ERROR_CODES.REFRESH_TOKEN_REUSED,
+      error: 'Refresh token has already been used. Please login again.',
+    };
+  }
+
+  private static generateRefreshToken(): string {
+    return crypto.randomBytes(AUTH_CONFIG.REFRESH_TOKEN_BYTES).toString('base64url');
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private static getExpirationTime(): Date {
+    return new Date(Date.now() + AUTH_CONFIG.REFRESH_TOKEN_EXPIRY_MS);
+  }
+
+  private static clientData(client: SessionClientInfo): Pick<UserSession, 'deviceName' | 'ipAddress' | 'userAgent' | 'location'> {
+    return {
+      deviceName: client.deviceName?.trim() || null,
+      ipAddress: client.ipAddress || null,
+      userAgent: this.truncate(client.userAgent, AUTH_CONFIG.MAX_USER_AGENT_LENGTH) || null,
+      location: this.truncate(client.location, AUTH_CONFIG.MAX_LOCATION_LENGTH) || null,
+    };
+  }
+
+  private static truncate(value: string | undefined, maxLength: number): string | undefined {
+    return value ? value.slice(0, maxLength) : undefined;
+  }
+}
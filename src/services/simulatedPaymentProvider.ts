@@ -0,0 +1,273 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import {
+  CallbackVerificationResult,
+  PaymentInitiationResponse,
+  PaymentProvider,
+  PaymentStatusResponse,
+  ProviderInitiationRequest,
+  RefundRequest,
+  RefundResponse,
+} from '../types/payment.types';
+import { CryptoService } from '../utils/cryptoService';
+
+export type SimulatedPaymentState = 'PENDING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface SimulatedProviderConfig {
+  merchantId: string;
+  saltKey: string;
+  saltIndex: number;
+  redirectUrl: string;
+  callbackUrl: string;
+  settleDelayMs: number;                 // 0 = only settle through settle()
+  outcome: Exclude<SimulatedPaymentState, 'PENDING'>;
+  refundSettleDelayMs: number;
+}
+
+interface SimulatedPayment {
+  merchantTransactionId: string;
+  transactionId: string;
+  amount: number; // in paise
+  state: SimulatedPaymentState;
+  originalTransactionId?: string; // Set for refunds
+}
+
+/**
+ * SimulatedPaymentProvider - In-memory stand-in for PhonePe for local development and tests
+ *
+ * Payments are accepted immediately and settled after `settleDelayMs` (or on demand via settle()),
+ * at which point a callback signed exactly like PhonePe's is POSTed to `callbackUrl`, so the real
+ * webhook pipeline runs end to end. State lives in memory and is lost on restart.
+ */
+export class SimulatedPaymentProvider implements PaymentProvider {
+  readonly name = 'simulated' as const;
+  private readonly config: SimulatedProviderConfig;
+  private readonly cryptoService: CryptoService;
+  private readonly payments = new Map<string, SimulatedPayment>();
+
+  constructor(config: SimulatedProviderConfig) {
+    this.config = config;
+    this.cryptoService = new CryptoService(config.saltKey, config.saltIndex);
+  }
+
+  async initiate(request: ProviderInitiationRequest): Promise<PaymentInitiationResponse> {
+    if (this.payments.has(request.merchantTransactionId)) {
+      return {
+        success: false,
+        code: 'DUPLICATE_TRANSACTION',
+        message: 'Merchant transaction ID has already been used',
+      };
+    }
+
+    this.payments.set(request.merchantTransactionId, {
+      merchantTransactionId: request.merchantTransactionId,
+      transactionId: this.generateTransactionId(),
+      amount: request.amount,
+      state: 'PENDING',
+    });
+
+    if (this.config.settleDelayMs > 0) {
+      this.scheduleSettle(request.merchantTransactionId, this.config.outcome, this.config.settleDelayMs);
+    }
+
+    const separator = this.config.redirectUrl.includes('?') ? '&' : '?';
+    const redirectUrl = `${this.config.redirectUrl}${separator}merchantTransactionId=${encodeURIComponent(request.merchantTransactionId)}`;
+
+    return {
+      success: true,
+      code: 'PAYMENT_INITIATED',
+      message: 'Payment initiated (simulated)',
+      data: {
+        merchantId: this.config.merchantId,
+        merchantTransactionId: request.merchantTransactionId,
+        instrumentResponse: {
+          type: 'PAY_PAGE',
+          redirectInfo: { url: redirectUrl, method: 'GET' },
+        },
+      },
+    };
+  }
+
+  async status(merchantTransactionId: string): Promise<PaymentStatusResponse> {
+    const payment = this.payments.get(merchantTransactionId);
+
+    if (!payment) {
+      return {
+        success: false,
+        code: 'TRANSACTION_NOT_FOUND',
+        message: 'No transaction found for the merchant transaction ID',
+      };
+    }
+
+    return {
+      success: true,
+      code: this.getResponseCode(payment.state),
+      message: `Payment ${payment.state.toLowerCase()} (simulated)`,
+      data: {
+        merchantId: this.config.merchantId,
+        merchantTransactionId: payment.merchantTransactionId,
+        transactionId: payment.transactionId,
+        amount: payment.amount,
+        state: payment.state,
+        responseCode: payment.state === 'COMPLETED' ? 'SUCCESS' : payment.state,
+        paymentInstrument: { type: 'UPI' },
+      },
+    };
+  }
+
+  async refund(request: RefundRequest): Promise<RefundResponse> {
+    const original = [...this.payments.values()].find(
+      (payment) => payment.transactionId === request.originalTransactionId && !payment.originalTransactionId
+    );
+
+    if (!original || original.state !== 'COMPLETED') {
+      return {
+        success: false,
+        code: 'TRANSACTION_NOT_FOUND',
+        message: 'No completed payment found for the original transaction ID',
+      };
+    }
+
+    const alreadyRefunded = [...this.payments.values()]
+      .filter((payment) => payment.originalTransactionId === original.transactionId && payment.state !== 'FAILED')
+      .reduce((total, payment) => total + payment.amount, 0);
+
+    if (request.amount <= 0 || alreadyRefunded + request.amount > original.amount) {
+      return {
+        success: false,
+        code: 'BAD_REQUEST',
+        message: 'Refund amount exceeds the refundable amount',
+      };
+    }
+
+    if (this.payments.has(request.merchantTransactionId)) {
+      return {
+        success: false,
+        code: 'DUPLICATE_TRANSACTION',
+        message: 'Merchant transaction ID has already been used',
+      };
+    }
+
+    const refund: SimulatedPayment = {
+      merchantTransactionId: request.merchantTransactionId,
+      transactionId: this.generateTransactionId(),
+      amount: request.amount,
+      state: 'PENDING',
+      originalTransactionId: original.transactionId,
+    };
+    this.payments.set(refund.merchantTransactionId, refund);
+
+    this.scheduleSettle(refund.merchantTransactionId, 'COMPLETED', this.config.refundSettleDelayMs);
+
+    return {
+      success: true,
+      code: 'PAYMENT_PENDING',
+      message: 'Refund initiated (simulated)',
+      data: {
+        merchantId: this.config.merchantId,
+        merchantTransactionId: refund.merchantTransactionId,
+        transactionId: refund.transactionId,
+        amount: refund.amount,
+        state: refund.state,
+        responseCode: 'PENDING',
+      },
+    };
+  }
+
+  verifyCallback(xVerify: string, responseBody: string): CallbackVerificationResult {
+    if (!this.cryptoService.verifyCallbackChecksum(xVerify, responseBody)) {
+      return {
+        isValid: false,
+        error: 'Invalid callback checksum',
+      };
+    }
+
+    try {
+      const decoded = this.cryptoService.decodePayload(responseBody);
+      return {
+        isValid: true,
+        transactionData: { ...decoded.data, code: decoded.code, message: decoded.message },
+      };
+    } catch (error) {
+      return {
+        isValid: false,
+        error: 'Callback verification failed',
+      };
+    }
+  }
+
+  /**
+   * Moves a pending payment or refund to a final state and sends its callback
+   * @returns False if the transaction is unknown or already settled
+   */
+  async settle(merchantTransactionId: string, state: Exclude<SimulatedPaymentState, 'PENDING'>): Promise<boolean> {
+    const payment = this.payments.get(merchantTransactionId);
+
+    if (!payment || payment.state !== 'PENDING') {
+      return false;
+    }
+
+    payment.state = state;
+    await this.sendCallback(payment);
+    return true;
+  }
+
+  private scheduleSettle(merchantTransactionId: string, state: Exclude<SimulatedPaymentState, 'PENDING'>, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.settle(merchantTransactionId, state).catch((error) => {
+        console.error('Error settling simulated payment:', error);
+      });
+    }, delayMs);
+
+    // Pending simulations must not keep the process alive
+    timer.unref();
+  }
+
+  // POSTs a PhonePe-style S2S callback to our own webhook endpoint
+  private async sendCallback(payment: SimulatedPayment): Promise<void> {
+    const response = this.cryptoService.encodePayload({
+      success: payment.state === 'COMPLETED',
+      code: this.getResponseCode(payment.state),
+      message: `Payment ${payment.state.toLowerCase()} (simulated)`,
+      data: {
+        merchantId: this.config.merchantId,
+        merchantTransactionId: payment.merchantTransactionId,
+        transactionId: payment.transactionId,
+        amount: payment.amount,
+        state: payment.state,
+        responseCode: payment.state === 'COMPLETED' ? 'SUCCESS' : payment.state,
+        paymentInstrument: { type: 'UPI' },
+      },
+    });
+
+    try {
+      await axios.post(
+        this.config.callbackUrl,
+        { response },
+        {
+          headers: { 'X-VERIFY': this.cryptoService.generateCallbackChecksum(response) },
+          timeout: 10000,
+        }
+      );
+    } catch (error: any) {
+      console.error(`Simulated callback for ${payment.merchantTransactionId} failed:`, error.response?.status || error.message);
+    }
+  }
+
+  private getResponseCode(state: SimulatedPaymentState): string {
+    switch (state) {
+      case 'COMPLETED':
+        return 'PAYMENT_SUCCESS';
+      case 'PENDING':
+        return 'PAYMENT_PENDING';
+      case 'CANCELLED':
+        return 'PAYMENT_CANCELLED';
+      default:
+        return 'PAYMENT_ERROR';
+    }
+  }
+
+  private generateTransactionId(): string {
+    return `SIM${Date.now()}${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+  }
+}
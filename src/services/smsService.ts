@@ -0,0 +1,180 @@
+import { SmsDeliveryStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AUTH_CONFIG, SMS_CONFIG } from '../config/constants';
+import {
+  SmsDeliveryReportRequest,
+  SmsProvider,
+  SmsProviderName,
+  SmsSendResult,
+} from '../types/sms.types';
+import { DevSmsProvider, SentSms } from './devSmsProvider';
+import { Msg91SmsProvider } from './msg91SmsProvider';
+import { SnsSmsProvider } from './snsSmsProvider';
+import { TwilioSmsProvider } from './twilioSmsProvider';
+
+export class SmsService {
+  private static provider: SmsProvider;
+  private static otpTemplate: string;
+  private static dltTemplateId?: string;
+
+  // Initialize the SMS provider selected by SMS_PROVIDER (msg91, twilio, sns, console or file)
+  static initialize(): void {
+    const isProduction = process.env.NODE_ENV === 'production';
+    const providerName = (process.env.SMS_PROVIDER || (isProduction ? '' : 'console')).toLowerCase();
+
+    this.otpTemplate = process.env.SMS_OTP_TEMPLATE || SMS_CONFIG.DEFAULT_OTP_TEMPLATE;
+    this.dltTemplateId = process.env.SMS_DLT_TEMPLATE_ID || undefined;
+
+    switch (providerName) {
+      case 'msg91':
+        this.provider = new Msg91SmsProvider({
+          authKey: this.requireEnv('MSG91_AUTH_KEY'),
+          senderId: this.requireEnv('SMS_SENDER_ID'),
+          route: process.env.MSG91_ROUTE || '4',
+          webhookToken: process.env.SMS_WEBHOOK_TOKEN || undefined,
+        });
+        break;
+
+      case 'twilio':
+        if (!process.env.TWILIO_FROM_NUMBER && !process.env.TWILIO_MESSAGING_SERVICE_SID) {
+          throw new Error('TWILIO_FROM_NUMBER or TWILIO_MESSAGING_SERVICE_SID is required');
+        }
+        this.provider = new TwilioSmsProvider({
+          accountSid: this.requireEnv('TWILIO_ACCOUNT_SID'),
+          authToken: this.requireEnv('TWILIO_AUTH_TOKEN'),
+          fromNumber: process.env.TWILIO_FROM_NUMBER || undefined,
+          messagingServiceSid: process.env.TWILIO_MESSAGING_SERVICE_SID || undefined,
+          statusCallbackUrl: process.env.TWILIO_STATUS_CALLBACK_URL || undefined,
+        });
+        break;
+
+      case 'sns':
+        this.provider = new SnsSmsProvider({
+          region: this.requireEnv('AWS_REGION'),
+          accessKeyId: this.requireEnv('AWS_ACCESS_KEY_ID'),
+          secretAccessKey: this.requireEnv('AWS_SECRET_ACCESS_KEY'),
+          sessionToken: process.env.AWS_SESSION_TOKEN || undefined,
+          senderId: process.env.SMS_SENDER_ID || undefined,
+          dltEntityId: process.env.SMS_DLT_ENTITY_ID || undefined,
+        });
+        break;
+
+      case 'console':
+      case 'file':
+        if (isProduction) {
+          throw new Error(`The ${providerName} SMS provider cannot be used in production`);
+        }
+        this.provider = new DevSmsProvider(
+          providerName === 'file' ? process.env.SMS_OUTBOX_FILE || SMS_CONFIG.DEFAULT_OUTBOX_FILE : undefined
+        );
+        break;
+
+      case '':
+        throw new Error('SMS_PROVIDER is required in production');
+
+      default:
+        throw new Error(`Unknown SMS_PROVIDER "${providerName}"`);
+    }
+  }
+
+  // Active provider; throws if initialize() failed
+  private static getProvider(): SmsProvider {
+    if (!this.provider) {
+      throw new Error('SMS service not initialized');
+    }
+    return this.provider;
+  }
+
+  private static requireEnv(name: string): string {
+    const value = process.env[name];
+    if (!value) {
+      throw new Error(`${name} is required for SMS_PROVIDER=${process.env.SMS_PROVIDER}`);
+    }
+    return value;
+  }
+
+  /**
+   * Name of the active SMS provider
+   */
+  static getProviderName(): SmsProviderName {
+    return this.getProvider().name;
+  }
+
+  /**
+   * Sends an OTP using the configured (DLT-registered) template.
+   * Network errors are returned as a failed send rather than thrown.
+   */
+  static async sendOtp(phone: string, code: string): Promise<SmsSendResult & { provider: SmsProviderName }> {
+    const provider = this.getProvider();
+    const body = this.otpTemplate
+      .replace('{code}', code)
+      .replace('{minutes}', String(AUTH_CONFIG.OTP_EXPIRY_MINUTES));
+
+    try {
+      const result = await provider.send({
+        to: phone,
+        body,
+        templateId: this.dltTemplateId,
+        variables: { code, minutes: String(AUTH_CONFIG.OTP_EXPIRY_MINUTES) },
+      });
+      return { ...result, provider: provider.name };
+    } catch (error) {
+      console.error(`Error sending SMS through ${provider.name}:`, error);
+      return {
+        success: false,
+        status: SmsDeliveryStatus.FAILED,
+        error: error instanceof Error ? error.message : 'SMS provider request failed',
+        provider: provider.name,
+      };
+    }
+  }
+
+  /**
+   * Applies a provider delivery report callback to the OTPs it refers to.
+   * Returns accepted: false when the callback cannot be authenticated.
+   */
+  static async handleDeliveryReport(request: SmsDeliveryReportRequest): Promise<{ accepted: boolean; updated: number }> {
+    const provider = this.getProvider();
+    if (!provider.parseDeliveryReport) {
+      return { accepted: false, updated: 0 };
+    }
+
+    const reports = provider.parseDeliveryReport(request);
+    if (!reports) {
+      return { accepted: false, updated: 0 };
+    }
+
+    let updated = 0;
+    for (const report of reports) {
+      // A confirmed delivery is final; late or out-of-order reports don't overwrite it
+      const result = await prisma.otpCode.updateMany({
+        where: {
+          smsProvider: provider.name,
+          providerMessageId: report.providerMessageId,
+          deliveryStatus: { not: SmsDeliveryStatus.DELIVERED },
+        },
+        data: {
+          deliveryStatus: report.status,
+          deliveryError: report.error ?? null,
+          ...(report.status === SmsDeliveryStatus.DELIVERED && { deliveredAt: new Date() }),
+        },
+      });
+      updated += result.count;
+    }
+
+    return { accepted: true, updated };
+  }
+
+  /**
+   * Messages sent by the console/file provider since startup, optionally to one phone number
+   * @returns null when a real provider is active (dev providers are refused in production)
+   */
+  static getSentMessages(phone?: string): SentSms[] | null {
+    if (!(this.provider instanceof DevSmsProvider) || process.env.NODE_ENV === 'production') {
+      return null;
+    }
+
+    const messages = this.provider.getSentMessages();
+    return phone ? messages.filter((message) => message.to === phone) : messages;
+  }
+}
@@ -0,0 +1,120 @@
+import axios, { AxiosInstance } from 'axios';
+import crypto from 'crypto';
+import { SmsDeliveryStatus } from '@prisma/client';
+import { SmsMessage, SmsProvider, SmsSendResult } from '../types/sms.types';
+import { SMS_CONFIG } from '../config/constants';
+
+export interface SnsConfig {
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  senderId?: string;
+  dltEntityId?: string; // Principal entity ID registered on the DLT platform
+}
+
+/**
+ * SnsSmsProvider - AWS SNS Publish to a phone number, signed with Signature Version 4
+ * DLT entity and template IDs are sent as AWS.MM.SMS.* message attributes. SNS reports delivery
+ * status to CloudWatch Logs rather than to a callback, so OTPs sent through it stay SENT.
+ */
+export class SnsSmsProvider implements SmsProvider {
+  readonly name = 'sns' as const;
+  private readonly config: SnsConfig;
+  private readonly host: string;
+  private readonly httpClient: AxiosInstance;
+
+  constructor(config: SnsConfig) {
+    this.config = config;
+    this.host = `sns.${config.region}.amazonaws.com`;
+    this.httpClient = axios.create({
+      baseURL: `https://${this.host}`,
+      timeout: SMS_CONFIG.REQUEST_TIMEOUT_MS,
+    });
+  }
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const attributes: Record<string, string> = {
+      'AWS.SNS.SMS.SMSType': 'Transactional',
+      ...(this.config.senderId && { 'AWS.SNS.SMS.SenderID': this.config.senderId }),
+      ...(this.config.dltEntityId && { 'AWS.MM.SMS.EntityId': this.config.dltEntityId }),
+      ...(message.templateId && { 'AWS.MM.SMS.TemplateId': message.templateId }),
+    };
+
+    const form = new URLSearchParams({
+      Action: 'Publish',
+      Version: '2010-03-31',
+      PhoneNumber: message.to,
+      Message: message.body,
+    });
+    Object.entries(attributes).forEach(([name, value], index) => {
+      const prefix = `MessageAttributes.entry.${index + 1}`;
+      form.set(`${prefix}.Name`, name);
+      form.set(`${prefix}.Value.DataType`, 'String');
+      form.set(`${prefix}.Value.StringValue`, value);
+    });
+
+    const body = form.toString();
+    const response = await this.httpClient.post('/', body, {
+      headers: this.signRequest(body, new Date()),
+      responseType: 'text',
+      validateStatus: () => true,
+    });
+
+    const xml = String(response.data ?? '');
+    const messageId = xml.match(/<MessageId>([^<]+)<\/MessageId>/)?.[1];
+    if (response.status === 200 && messageId) {
+      return { success: true, status: SmsDeliveryStatus.SENT, providerMessageId: messageId };
+    }
+
+    const error = xml.match(/<Message>([^<]+)<\/Message>/)?.[1];
+    return {
+      success: false,
+      status: SmsDeliveryStatus.FAILED,
+      error: `SNS rejected the message: ${error || `HTTP ${response.status}`}`,
+    };
+  }
+
+  // Signature Version 4 headers for a POST to the regional SNS endpoint
+  private signRequest(body: string, now: Date): Record<string, string> {
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.config.region}/sns/aws4_request`;
+
+    const headers: Record<string, string> = {
+      'content-type': 'application/x-www-form-urlencoded; charset=utf-8',
+      host: this.host,
+      'x-amz-date': amzDate,
+      ...(this.config.sessionToken && { 'x-amz-security-token': this.config.sessionToken }),
+    };
+
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(';');
+    const canonicalRequest = [
+      'POST',
+      '/',
+      '',
+      names.map((name) => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders,
+      this.sha256(body),
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, this.sha256(canonicalRequest)].join('\n');
+
+    const signingKey = [dateStamp, this.config.region, 'sns', 'aws4_request']
+      .reduce<Buffer | string>((key, part) => this.hmac(key, part), `AWS4${this.config.secretAccessKey}`);
+    const signature = this.hmac(signingKey, stringToSign).toString('hex');
+
+    return {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+
+  private hmac(key: Buffer | string, data: string): Buffer {
+    return crypto.createHmac('sha256', key).update(data).digest();
+  }
+
+  private sha256(data: string): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+}
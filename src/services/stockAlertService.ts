@@ -0,0 +1,321 @@
+import { Prisma, StockAlert, StockAlertRule, StockAlertStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { StockAlertRuleRequest } from '../types';
+
+export interface StockAlertRuleResult {
+  success: boolean;
+  error?: string;
+  rule?: StockAlertRule;
+}
+
+export interface StockAlertResult {
+  success: boolean;
+  error?: string;
+  alert?: StockAlert;
+}
+
+const UNRESOLVED_STATUSES = [StockAlertStatus.OPEN, StockAlertStatus.ACKNOWLEDGED];
+
+/**
+ * StockAlertService - Configurable low-stock rules and the alerts they raise
+ *
+ * A rule applies to every slot matching its (optional) city, machine and product scope.
+ * An alert is raised when a paid session takes a slot's stock from at/above the rule's
+ * threshold to below it, or when a slot or rule is changed while the slot is already
+ * below it, and is resolved automatically once the slot is refilled.
+ */
+export class StockAlertService {
+  /**
+   * Lists all alert rules
+   */
+  static async listRules(): Promise<StockAlertRule[]> {
+    return await prisma.stockAlertRule.findMany({
+      include: {
+        machine: {
+          select: { machineId: true, name: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Creates an alert rule
+   */
+  static async createRule(data: StockAlertRuleRequest, createdById: string): Promise<StockAlertRuleResult> {
+    const scope = await this.resolveMachineScope(data.machineId);
+    if (scope.error) {
+      return { success: false, error: scope.error };
+    }
+
+    const rule = await prisma.stockAlertRule.create({
+      data: {
+        name: data.name.trim(),
+        city: data.city?.trim() || null,
+        machineId: scope.vendingMachineId,
+        drinkType: data.drinkType || null,
+        drinkFlavour: data.drinkFlavour || null,
+        thresholdPercent: data.thresholdPercent,
+        isActive: data.isActive ?? true,
+        createdById,
+      },
+    });
+
+    await this.evaluateRule(rule);
+
+    return { success: true, rule };
+  }
+
+  /**
+   * Replaces an alert rule's scope and threshold
+   */
+  static async updateRule(ruleId: string, data: StockAlertRuleRequest): Promise<StockAlertRuleResult> {
+    const existing = await prisma.stockAlertRule.findUnique({
+      where: { id: ruleId },
+    });
+
+    if (!existing) {
+      return { success: false, error: 'Alert rule not found' };
+    }
+
+    const scope = await this.resolveMachineScope(data.machineId);
+    if (scope.error) {
+      return { success: false, error: scope.error };
+    }
+
+    const rule = await prisma.stockAlertRule.update({
+      where: { id: ruleId },
+      data: {
+        name: data.name.trim(),
+        city: data.city?.trim() || null,
+        machineId: scope.vendingMachineId,
+        drinkType: data.drinkType || null,
+        drinkFlavour: data.drinkFlavour || null,
+        thresholdPercent: data.thresholdPercent,
+        isActive: data.isActive ?? existing.isActive,
+      },
+    });
+
+    // A higher threshold, wider scope or reactivation can put slots below the rule straight away
+    await this.evaluateRule(rule);
+
+    return { success: true, rule };
+  }
+
+  /**
+   * Deletes an alert rule along with its alerts
+   */
+  static async deleteRule(ruleId: string): Promise<boolean> {
+    try {
+      await prisma.stockAlertRule.delete({
+        where: { id: ruleId },
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists alerts, newest first; defaults to unresolved alerts
+   */
+  static async listAlerts(filters: { status?: StockAlertStatus; city?: string } = {}) {
+    return await prisma.stockAlert.findMany({
+      where: {
+        status: filters.status ?? { in: UNRESOLVED_STATUSES },
+        ...(filters.city && {
+          machine: { city: { equals: filters.city, mode: 'insensitive' as const } },
+        }),
+      },
+      include: {
+        rule: {
+          select: { id: true, name: true },
+        },
+        machine: {
+          select: { machineId: true, name: true, location: true, city: true },
+        },
+        slot: {
+          select: { slotNumber: true, drinkType: true, drinkFlavour: true, stock: true, capacity: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Marks an open alert as picked up by a technician
+   */
+  static async acknowledgeAlert(alertId: string, userId: string): Promise<StockAlertResult> {
+    const updated = await prisma.stockAlert.updateMany({
+      where: {
+        id: alertId,
+        status: StockAlertStatus.OPEN,
+      },
+      data: {
+        status: StockAlertStatus.ACKNOWLEDGED,
+        acknowledgedAt: new Date(),
+        acknowledgedById: userId,
+      },
+    });
+
+    const alert = await prisma.stockAlert.findUnique({
+      where: { id: alertId },
+    });
+
+    if (!alert) {
+      return { success: false, error: 'Alert not found' };
+    }
+
+    if (updated.count === 0) {
+      return { success: false, error: `Alert is already ${alert.status.toLowerCase()}` };
+    }
+
+    return { success: true, alert };
+  }
+
+  /**
+   * Raises alerts for every matching rule whose threshold the slot is below
+   * After stock is reserved, pass the stock before it so only a threshold just crossed raises an alert
+   */
+  static async evaluateSlot(tx: Prisma.TransactionClient, slotId: string, previousStock?: number): Promise<number> {
+    const slot = await tx.machineSlot.findUnique({
+      where: { id: slotId },
+      include: {
+        machine: {
+          select: { city: true },
+        },
+      },
+    });
+
+    if (!slot || slot.capacity <= 0) {
+      return 0;
+    }
+
+    const rules = await tx.stockAlertRule.findMany({
+      where: {
+        isActive: true,
+        AND: [
+          { OR: [{ machineId: null }, { machineId: slot.machineId }] },
+          { OR: [{ city: null }, { city: { equals: slot.machine.city, mode: 'insensitive' } }] },
+          { OR: [{ drinkType: null }, { drinkType: slot.drinkType }] },
+          { OR: [{ drinkFlavour: null }, { drinkFlavour: slot.drinkFlavour }] },
+        ],
+      },
+    });
+
+    let raised = 0;
+    for (const rule of rules) {
+      const threshold = (slot.capacity * rule.thresholdPercent) / 100;
+      if (slot.stock >= threshold || (previousStock !== undefined && previousStock < threshold)) {
+        continue;
+      }
+
+      // Don't raise a second alert while the previous one is still being handled
+      const existing = await tx.stockAlert.findFirst({
+        where: {
+          ruleId: rule.id,
+          slotId: slot.id,
+          status: { in: UNRESOLVED_STATUSES },
+        },
+      });
+      if (existing) {
+        continue;
+      }
+
+      await tx.stockAlert.create({
+        data: {
+          ruleId: rule.id,
+          machineId: slot.machineId,
+          slotId: slot.id,
+          stock: slot.stock,
+          capacity: slot.capacity,
+          thresholdPercent: rule.thresholdPercent,
+        },
+      });
+      raised++;
+    }
+
+    return raised;
+  }
+
+  /**
+   * Resolves unresolved alerts for a slot whose stock is back at/above their threshold
+   */
+  static async resolveRecoveredAlerts(slotId: string): Promise<number> {
+    const slot = await prisma.machineSlot.findUnique({
+      where: { id: slotId },
+      include: {
+        stockAlerts: {
+          where: { status: { in: UNRESOLVED_STATUSES } },
+        },
+      },
+    });
+
+    if (!slot) {
+      return 0;
+    }
+
+    const recoveredIds = slot.stockAlerts
+      .filter((alert) => slot.stock >= (slot.capacity * alert.thresholdPercent) / 100)
+      .map((alert) => alert.id);
+
+    if (recoveredIds.length === 0) {
+      return 0;
+    }
+
+    const result = await prisma.stockAlert.updateMany({
+      where: { id: { in: recoveredIds } },
+      data: {
+        status: StockAlertStatus.RESOLVED,
+        resolvedAt: new Date(),
+      },
+    });
+
+    return result.count;
+  }
+
+  // Raises alerts for the slots in a rule's scope that are already below its threshold
+  private static async evaluateRule(rule: StockAlertRule): Promise<number> {
+    if (!rule.isActive) {
+      return 0;
+    }
+
+    const slots = await prisma.machineSlot.findMany({
+      where: {
+        ...(rule.machineId && { machineId: rule.machineId }),
+        ...(rule.city && { machine: { city: { equals: rule.city, mode: 'insensitive' as const } } }),
+        ...(rule.drinkType && { drinkType: rule.drinkType }),
+        ...(rule.drinkFlavour && { drinkFlavour: rule.drinkFlavour }),
+      },
+      select: { id: true },
+    });
+
+    let raised = 0;
+    for (const slot of slots) {
+      raised += await this.evaluateSlot(prisma, slot.id);
+    }
+
+    return raised;
+  }
+
+  // Maps an optional external machine ID to the VendingMachine primary key
+  private static async resolveMachineScope(machineId?: string | null): Promise<{ vendingMachineId: string | null; error?: string }> {
+    if (!machineId) {
+      return { vendingMachineId: null };
+    }
+
+    const machine = await prisma.vendingMachine.findUnique({
+      where: { machineId },
+      select: { id: true },
+    });
+
+    if (!machine) {
+      return { vendingMachineId: null, error: 'Machine not found' };
+    }
+
+    return { vendingMachineId: machine.id };
+  }
+}
@@ -0,0 +1,120 @@
+import axios, { AxiosInstance } from 'axios';
+import crypto from 'crypto';
+import { SmsDeliveryStatus } from '@prisma/client';
+import {
+  SmsDeliveryReport,
+  SmsDeliveryReportRequest,
+  SmsMessage,
+  SmsProvider,
+  SmsSendResult,
+} from '../types/sms.types';
+import { SMS_CONFIG } from '../config/constants';
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  fromNumber?: string;          // Either a sender number...
+  messagingServiceSid?: string; // ...or a messaging service
+  statusCallbackUrl?: string;   // Public URL of the delivery report endpoint
+}
+
+/**
+ * TwilioSmsProvider - Twilio Programmable Messaging REST API
+ * DLT templates for Indian numbers are registered with Twilio and matched on the message text.
+ * Status callbacks are authenticated with the X-Twilio-Signature header.
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio' as const;
+  private readonly config: TwilioConfig;
+  private readonly httpClient: AxiosInstance;
+
+  constructor(config: TwilioConfig) {
+    this.config = config;
+    this.httpClient = axios.create({
+      baseURL: `https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}`,
+      timeout: SMS_CONFIG.REQUEST_TIMEOUT_MS,
+      auth: {
+        username: config.accountSid,
+        password: config.authToken,
+      },
+    });
+  }
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const form = new URLSearchParams({
+      To: message.to,
+      Body: message.body,
+    });
+    if (this.config.messagingServiceSid) {
+      form.set('MessagingServiceSid', this.config.messagingServiceSid);
+    } else if (this.config.fromNumber) {
+      form.set('From', this.config.fromNumber);
+    }
+    if (this.config.statusCallbackUrl) {
+      form.set('StatusCallback', this.config.statusCallbackUrl);
+    }
+
+    const response = await this.httpClient.post('/Messages.json', form.toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      validateStatus: () => true,
+    });
+
+    if (response.status >= 200 && response.status < 300 && response.data?.sid) {
+      return {
+        success: true,
+        status: this.mapStatus(response.data.status),
+        providerMessageId: response.data.sid,
+      };
+    }
+
+    return {
+      success: false,
+      status: SmsDeliveryStatus.FAILED,
+      error: `Twilio rejected the message: ${response.data?.message || `HTTP ${response.status}`}`,
+    };
+  }
+
+  parseDeliveryReport(request: SmsDeliveryReportRequest): SmsDeliveryReport[] | null {
+    const params = (request.body || {}) as Record<string, string>;
+    const signature = request.headers['x-twilio-signature'];
+    if (typeof signature !== 'string' || !this.isValidSignature(this.config.statusCallbackUrl || request.url, params, signature)) {
+      return null;
+    }
+
+    if (!params.MessageSid || !params.MessageStatus) {
+      return [];
+    }
+
+    const status = this.mapStatus(params.MessageStatus);
+    return [{
+      providerMessageId: params.MessageSid,
+      status,
+      ...(status === SmsDeliveryStatus.FAILED && {
+        error: params.ErrorCode ? `Twilio error ${params.ErrorCode}` : params.MessageStatus,
+      }),
+    }];
+  }
+
+  // Twilio signs the URL followed by each POST parameter name and value, sorted by name
+  private isValidSignature(url: string, params: Record<string, string>, signature: string): boolean {
+    const payload = Object.keys(params).sort().reduce((acc, key) => acc + key + params[key], url);
+    const expected = crypto.createHmac('sha1', this.config.authToken).update(payload).digest('base64');
+
+    const a = Buffer.from(signature);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  private mapStatus(status: string | undefined): SmsDeliveryStatus {
+    switch (status) {
+      case 'delivered':
+        return SmsDeliveryStatus.DELIVERED;
+      case 'failed':
+      case 'undelivered':
+      case 'canceled':
+        return SmsDeliveryStatus.FAILED;
+      default:
+        return SmsDeliveryStatus.SENT; // queued, accepted, sending, sent
+    }
+  }
+}
@@ -321,7 +321,7 @@ export class UserService {
   }
 
   // Update current user's profile (for authenticated users)
-  static async updateCurrentUserProfile(userId: string, profileData: UpdateProfileRequest): Promise<{ user?: UserResponse; phoneChangeRequiresVerification?: boolean; message?: string } | null> {
+  static async updateCurrentUserProfile(userId: string, profileData: UpdateProfileRequest): Promise<{ user?: UserResponse; phoneChangeRequiresVerification?: boolean; otpRequestId?: string; message?: string } | null> {
     try {
       let phoneChanged = false;
       let newPhone = '';
@@ -396,11 +396,12 @@ export class UserService {
       // If phone changed, send OTP for verification
       if (phoneChanged) {
         try {
-          await OtpService.sendOtp(newPhone, OtpPurpose.PHONE_VERIFICATION); // Using PHONE_VERIFICATION purpose for phone verification
+          const { otpRequestId } = await OtpService.sendOtp(newPhone, OtpPurpose.PHONE_VERIFICATION); // Using PHONE_VERIFICATION purpose for phone verification
           return {
             user,
             phoneChangeRequiresVerification: true,
-            message: `Profile updated. Please verify your new phone number ${newPhone} with the OTP sent. To verify, call POST /api/auth/verify-otp with phone: "${newPhone}", code: "YOUR_OTP", and purpose: "PHONE_VERIFICATION". After verification, you can login normally.`
+            otpRequestId,
+            message: `Profile updated. Please verify your new phone number ${newPhone} with the OTP sent. To verify, call POST /api/auth/verify-otp with phone: "${newPhone}", otpRequestId, code: "YOUR_OTP", and purpose: "PHONE_VERIFICATION". After verification, you can login normally.`
           };
         } catch (otpError) {
           console.error('Failed to send OTP for phone verification:', otpError);
@@ -0,0 +1,228 @@
+import { Prisma, VoucherPackage } from '@prisma/client';
+import { prisma } from '../config/database';
+import { PublicVoucherPackage, VoucherPackageRequest, VoucherPackageSnapshot } from '../types';
+
+export interface VoucherPackageResult {
+  success: boolean;
+  error?: string;
+  package?: VoucherPackage;
+}
+
+/**
+ * VoucherPackageService - The voucher package catalog
+ *
+ * A package is on sale while it is active, inside its optional availableFrom/availableUntil
+ * window, and - when it lists cities - only in those cities. Orders store a snapshot of the
+ * package, so later price or validity changes never affect orders already placed.
+ */
+export class VoucherPackageService {
+  /**
+   * Lists packages currently on sale, optionally for one city, in display order
+   */
+  static async listAvailablePackages(city?: string): Promise<VoucherPackage[]> {
+    const now = new Date();
+    const packages = await prisma.voucherPackage.findMany({
+      where: {
+        isActive: true,
+        AND: [
+          { OR: [{ availableFrom: null }, { availableFrom: { lte: now } }] },
+          { OR: [{ availableUntil: null }, { availableUntil: { gt: now } }] },
+        ],
+      },
+      orderBy: [{ sortOrder: 'asc' }, { totalDrinks: 'asc' }],
+    });
+
+    return packages.filter((pkg) => this.isSoldIn(pkg, city));
+  }
+
+  /**
+   * Lists every package, including inactive and scheduled ones (admin view)
+   */
+  static async listAllPackages(): Promise<VoucherPackage[]> {
+    return await prisma.voucherPackage.findMany({
+      orderBy: [{ sortOrder: 'asc' }, { totalDrinks: 'asc' }],
+    });
+  }
+
+  /**
+   * Finds a package that can be bought right now, in the given city when it is city-restricted
+   */
+  static async getAvailablePackage(packageId: string, city?: string): Promise<VoucherPackageResult> {
+    const pkg = await prisma.voucherPackage.findUnique({
+      where: { id: packageId },
+    });
+
+    if (!pkg) {
+      return { success: false, error: 'Invalid package ID' };
+    }
+
+    const now = new Date();
+    if (!pkg.isActive || (pkg.availableFrom && pkg.availableFrom > now) || (pkg.availableUntil && pkg.availableUntil <= now)) {
+      return { success: false, error: 'Package is not currently available' };
+    }
+
+    if (pkg.cities.length > 0 && !city) {
+      return { success: false, error: 'City is required for this package' };
+    }
+
+    if (!this.isSoldIn(pkg, city)) {
+      return { success: false, error: 'Package is not available in this city' };
+    }
+
+    return { success: true, package: pkg };
+  }
+
+  /**
+   * Creates a package
+   */
+  static async createPackage(data: VoucherPackageRequest): Promise<VoucherPackageResult> {
+    try {
+      const pkg = await prisma.voucherPackage.create({
+        data: {
+          id: data.id!.trim(),
+          ...this.buildPackageData(data),
+        },
+      });
+
+      return { success: true, package: pkg };
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { success: false, error: 'A package with this ID already exists' };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces a package's details; existing orders keep their snapshot
+   */
+  static async updatePackage(packageId: string, data: VoucherPackageRequest): Promise<VoucherPackageResult> {
+    try {
+      const pkg = await prisma.voucherPackage.update({
+        where: { id: packageId },
+        data: this.buildPackageData(data),
+      });
+
+      return { success: true, package: pkg };
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return { success: false, error: 'Package not found' };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a package that was never ordered; a package with orders is deactivated instead
+   */
+  static async deletePackage(packageId: string): Promise<{ success: boolean; error?: string; deactivated?: boolean }> {
+    const pkg = await prisma.voucherPackage.findUnique({
+      where: { id: packageId },
+      include: { _count: { select: { orders: true } } },
+    });
+
+    if (!pkg) {
+      return { success: false, error: 'Package not found' };
+    }
+
+    if (pkg._count.orders > 0) {
+      await prisma.voucherPackage.update({
+        where: { id: packageId },
+        data: { isActive: false },
+      });
+      return { success: true, deactivated: true };
+    }
+
+    await prisma.voucherPackage.delete({
+      where: { id: packageId },
+    });
+    return { success: true, deactivated: false };
+  }
+
+  /**
+   * Per-drink price for a top-up of any size: the rate of the largest package on sale in the city
+   * it fills, or the smallest package's rate below that
+   */
+  static async getTopupPricePerDrink(drinks: number, city?: string): Promise<number> {
+    const packages = (await this.listAvailablePackages(city)).sort((a, b) => a.totalDrinks - b.totalDrinks);
+
+    if (packages.length === 0) {
+      throw new Error('No voucher packages are available');
+    }
+
+    const tier = [...packages].reverse().find((pkg) => pkg.totalDrinks <= drinks) || packages[0];
+    return Number(tier.pricePerDrink);
+  }
+
+  /**
+   * Package as shown to customers
+   */
+  static toPublicPackage(pkg: VoucherPackage): PublicVoucherPackage {
+    const totalPrice = Number(pkg.totalPrice);
+    const originalPrice = Number(pkg.originalPrice);
+
+    return {
+      id: pkg.id,
+      name: pkg.name,
+      description: pkg.description,
+      totalDrinks: pkg.totalDrinks,
+      pricePerDrink: Number(pkg.pricePerDrink),
+      totalPrice,
+      originalPrice,
+      savings: Math.max(0, Math.round((originalPrice - totalPrice) * 100) / 100),
+      recommended: pkg.recommended,
+      validityDays: pkg.validityDays,
+      validityStartsOnFirstUse: pkg.validityStartsOnFirstUse,
+      availableUntil: pkg.availableUntil,
+    };
+  }
+
+  /**
+   * Snapshot stored on an order
+   */
+  static toSnapshot(pkg: VoucherPackage): VoucherPackageSnapshot {
+    return {
+      id: pkg.id,
+      name: pkg.name,
+      totalDrinks: pkg.totalDrinks,
+      pricePerDrink: Number(pkg.pricePerDrink),
+      totalPrice: Number(pkg.totalPrice),
+      originalPrice: Number(pkg.originalPrice),
+      validityDays: pkg.validityDays,
+      validityStartsOnFirstUse: pkg.validityStartsOnFirstUse,
+      capturedAt: new Date().toISOString(),
+    };
+  }
+
+  // Maps a validated request to the stored columns; pricePerDrink is derived from the total
+  private static buildPackageData(data: VoucherPackageRequest) {
+    return {
+      name: data.name.trim(),
+      description: data.description?.trim() || null,
+      totalDrinks: data.totalDrinks,
+      totalPrice: new Prisma.Decimal(data.totalPrice),
+      pricePerDrink: new Prisma.Decimal(Math.round((data.totalPrice / data.totalDrinks) * 100) / 100),
+      originalPrice: new Prisma.Decimal(data.originalPrice ?? data.totalPrice),
+      recommended: data.recommended ?? false,
+      validityDays: data.validityDays ?? null,
+      validityStartsOnFirstUse: data.validityStartsOnFirstUse ?? false,
+      availableFrom: data.availableFrom ? new Date(data.availableFrom) : null,
+      availableUntil: data.availableUntil ? new Date(data.availableUntil) : null,
+      cities: (data.cities ?? []).map((city) => city.trim()).filter(Boolean),
+      sortOrder: data.sortOrder ?? 0,
+      isActive: data.isActive ?? true,
+    };
+  }
+
+  // City-restricted packages are only offered when the customer's city is known
+  private static isSoldIn(pkg: VoucherPackage, city?: string): boolean {
+    if (pkg.cities.length === 0) {
+      return true;
+    }
+    if (!city) {
+      return false;
+    }
+    const normalized = city.trim().toLowerCase();
+    return pkg.cities.some((packageCity) => packageCity.toLowerCase() === normalized);
+  }
+}
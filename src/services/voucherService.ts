@@ -1,10 +1,34 @@
 import { prisma } from '../config/database';
-import { VoucherStatus, OrderStatus, PaymentStatus, TransactionStatus, OrderType, Prisma } from '@prisma/client';
-import { getVoucherPackage, VoucherPackage } from '../config/voucherPackages';
+import { VoucherStatus, OrderStatus, PaymentStatus, TransactionStatus, TransactionType, OrderType, Prisma, Order, DrinkVoucher, VoucherPackage, VoucherExpiryExtension } from '@prisma/client';
+import { TOPUP_CONFIG, VOUCHER_EXPIRY_CONFIG } from '../config/constants';
+import { PaymentService } from './paymentService';
+import { VoucherPackageService } from './voucherPackageService';
+import { VoucherPackageSnapshot } from '../types';
+import { PaymentCallbackData, PaymentStatusResponse } from '../types/payment.types';
 
 export interface VoucherPurchaseRequest {
   packageId: string;
-  expiryDays?: number; // Optional: defaults to 90 days
+  city?: string; // Required for city-restricted packages
+}
+
+export interface VoucherTopupRequest {
+  drinks?: number;           // Custom drink count, priced at the matching package rate
+  packageId?: string;        // Or the drinks and price of a package
+  city?: string;             // Required for city-restricted packages
+  extendExpiryDays?: number; // Optional: push the expiry to at least this many days after payment
+}
+
+// Vouchers that can receive more drinks; expired ones only when the top-up extends the expiry
+const TOPUP_VOUCHER_STATUSES: VoucherStatus[] = [VoucherStatus.ACTIVE, VoucherStatus.EXHAUSTED, VoucherStatus.EXPIRED];
+
+// Vouchers whose expiry an admin can extend
+const EXTENDABLE_VOUCHER_STATUSES: VoucherStatus[] = [VoucherStatus.ACTIVE, VoucherStatus.EXHAUSTED, VoucherStatus.EXPIRED];
+
+export interface VoucherExpiryExtensionResult {
+  success: boolean;
+  error?: string;
+  voucher?: DrinkVoucher;
+  extension?: VoucherExpiryExtension;
 }
 
 export interface VoucherResponse {
@@ -19,6 +43,7 @@ export interface VoucherResponse {
   isActivated: boolean;
   purchaseDate: Date;
   expiryDate: Date | null;
+  firstUseValidityDays: number | null; // Days of validity once first used, until expiryDate is set
   order: {
     id: string;
     orderNumber: string;
@@ -37,6 +62,7 @@ export interface OrderResponse {
   paymentStatus: PaymentStatus;
   createdAt: Date;
   phonepeMerchantId?: string; // For payment processing
+  topupVoucherId?: string;    // Voucher a VOUCHER_TOPUP order adds drinks to
 }
 
 export class VoucherService {
@@ -55,35 +81,47 @@ export class VoucherService {
     return `ORD-${timestamp.slice(-8)}-${random}`;
   }
 
-  // Generate unique merchant transaction ID for PhonePe
-  private static generateMerchantTransactionId(): string {
-    const timestamp = Date.now().toString();
-    const random = Math.random().toString(36).substring(2, 10).toUpperCase();
-    return `MERCHANT_${timestamp}_${random}`;
-  }
-
   // Calculate expiry date
-  private static calculateExpiryDate(days: number = 90): Date {
-    const expiryDate = new Date();
+  private static calculateExpiryDate(days: number, from: Date = new Date()): Date {
+    const expiryDate = new Date(from);
     expiryDate.setDate(expiryDate.getDate() + days);
     return expiryDate;
   }
 
+  // Expiry rules for a new voucher from the package snapshot on its order
+  private static resolveValidity(order: Order): { expiryDate: Date | null; firstUseValidityDays: number | null } {
+    const snapshot = order.packageSnapshot as unknown as VoucherPackageSnapshot | null;
+
+    if (!snapshot) {
+      return { expiryDate: this.calculateExpiryDate(VOUCHER_EXPIRY_CONFIG.DEFAULT_VALIDITY_DAYS), firstUseValidityDays: null };
+    }
+
+    if (snapshot.validityDays == null) {
+      return { expiryDate: null, firstUseValidityDays: null };
+    }
+
+    if (snapshot.validityStartsOnFirstUse) {
+      return { expiryDate: null, firstUseValidityDays: snapshot.validityDays };
+    }
+
+    return { expiryDate: this.calculateExpiryDate(snapshot.validityDays), firstUseValidityDays: null };
+  }
+
   // Create voucher purchase order
   static async createVoucherOrder(
     userId: string, 
     voucherData: VoucherPurchaseRequest
   ): Promise<OrderResponse> {
-    try {
-      // Get package details from packageId
-      const packageInfo = getVoucherPackage(voucherData.packageId);
-      if (!packageInfo) {
-        throw new Error('Invalid package ID');
-      }
+    // Get package details from packageId
+    const packageResult = await VoucherPackageService.getAvailablePackage(voucherData.packageId, voucherData.city);
+    if (!packageResult.success) {
+      throw new Error(packageResult.error);
+    }
+    const packageInfo = packageResult.package!;
 
-      const totalAmount = packageInfo.totalPrice;
+    try {
+      const totalAmount = Number(packageInfo.totalPrice);
       const orderNumber = this.generateOrderNumber();
-      const merchantTransactionId = this.generateMerchantTransactionId();
 
       const order = await prisma.order.create({
         data: {
@@ -92,23 +130,15 @@ export class VoucherService {
           orderType: OrderType.VOUCHER_PURCHASE,
           totalDrinks: packageInfo.totalDrinks,
           totalAmount,
+          packageId: packageInfo.id,
+          packageSnapshot: VoucherPackageService.toSnapshot(packageInfo) as unknown as Prisma.InputJsonValue,
           status: OrderStatus.PENDING,
           paymentStatus: PaymentStatus.PENDING,
         },
       });
 
-      // Create pending transaction
-      await prisma.transaction.create({
-        data: {
-          userId,
-          orderId: order.id,
-          amount: totalAmount,
-          status: 'PENDING',
-          type: 'PAYMENT',
-          currency: 'INR',
-          phonepeMerchantId: merchantTransactionId,
-        },
-      });
+      // First payment attempt; initiate-payment reuses its merchant transaction ID
+      const attempt = await PaymentService.createPaymentAttempt(order.id, userId, totalAmount);
 
       return {
         id: order.id,
@@ -119,7 +149,7 @@ export class VoucherService {
         status: order.status,
         paymentStatus: order.paymentStatus,
         createdAt: order.createdAt,
-        phonepeMerchantId: merchantTransactionId,
+        phonepeMerchantId: attempt.phonepeMerchantId || undefined,
       };
     } catch (error) {
       console.error('Error creating voucher order:', error);
@@ -127,11 +157,90 @@ export class VoucherService {
     }
   }
 
-  // Complete voucher purchase after successful payment
+  // Create an order that adds drinks to an existing voucher; paid through the normal payment flow
+  static async createTopupOrder(
+    userId: string,
+    voucherId: string,
+    topupData: VoucherTopupRequest
+  ): Promise<OrderResponse> {
+    const voucher = await prisma.drinkVoucher.findFirst({
+      where: { id: voucherId, userId },
+    });
+
+    if (!voucher) {
+      throw new Error('Voucher not found');
+    }
+
+    if (!TOPUP_VOUCHER_STATUSES.includes(voucher.status)) {
+      throw new Error(`Voucher is ${voucher.status.toLowerCase()} and cannot be topped up`);
+    }
+
+    const expired = voucher.status === VoucherStatus.EXPIRED || (voucher.expiryDate !== null && voucher.expiryDate <= new Date());
+    if (expired && !topupData.extendExpiryDays) {
+      throw new Error('Voucher has expired; extendExpiryDays is required to top it up');
+    }
+
+    // Never-expiring vouchers, and ones whose validity only starts at first use, have no expiry to push out
+    if (topupData.extendExpiryDays && !voucher.expiryDate) {
+      throw new Error('Voucher has no expiry date to extend');
+    }
+
+    let totalDrinks: number;
+    let totalAmount: number;
+    let packageInfo: VoucherPackage | null = null;
+    if (topupData.packageId) {
+      const packageResult = await VoucherPackageService.getAvailablePackage(topupData.packageId, topupData.city);
+      if (!packageResult.success) {
+        throw new Error(packageResult.error);
+      }
+      packageInfo = packageResult.package!;
+      totalDrinks = packageInfo.totalDrinks;
+      totalAmount = Number(packageInfo.totalPrice);
+    } else {
+      totalDrinks = topupData.drinks!;
+      totalAmount = totalDrinks * await VoucherPackageService.getTopupPricePerDrink(totalDrinks, topupData.city);
+    }
+
+    const order = await prisma.order.create({
+      data: {
+        userId,
+        orderNumber: this.generateOrderNumber(),
+        orderType: OrderType.VOUCHER_TOPUP,
+        totalDrinks,
+        totalAmount,
+        status: OrderStatus.PENDING,
+        paymentStatus: PaymentStatus.PENDING,
+        topupVoucherId: voucher.id,
+        topupExpiryDays: topupData.extendExpiryDays ?? null,
+        packageId: packageInfo?.id,
+        packageSnapshot: packageInfo
+          ? VoucherPackageService.toSnapshot(packageInfo) as unknown as Prisma.InputJsonValue
+          : undefined,
+      },
+    });
+
+    const attempt = await PaymentService.createPaymentAttempt(order.id, userId, totalAmount);
+
+    return {
+      id: order.id,
+      orderNumber: order.orderNumber,
+      orderType: order.orderType,
+      totalDrinks: order.totalDrinks || 0,
+      totalAmount: Number(order.totalAmount),
+      status: order.status,
+      paymentStatus: order.paymentStatus,
+      createdAt: order.createdAt,
+      phonepeMerchantId: attempt.phonepeMerchantId || undefined,
+      topupVoucherId: voucher.id,
+    };
+  }
+
+  // Complete voucher purchase (or top-up) after successful payment
   static async completeVoucherPurchase(
     orderId: string,
+    merchantTransactionId: string,
     phonepeTransactionId: string,
-    phonepeResponse?: any
+    phonepeResponse?: PaymentCallbackData | PaymentStatusResponse
   ): Promise<VoucherResponse> {
     try {
       // Use transaction to ensure data consistency
@@ -146,36 +255,57 @@ export class VoucherService {
           throw new Error('Order not found');
         }
 
-        if (order.status !== 'PENDING') {
+        // Claim the order; a concurrent completion (webhook, reconciler or status check) loses here
+        const claimed = await tx.order.updateMany({
+          where: {
+            id: orderId,
+            status: OrderStatus.PENDING,
+          },
+          data: {
+            status: OrderStatus.COMPLETED,
+            paymentStatus: PaymentStatus.PAID,
+          },
+        });
+
+        if (claimed.count === 0) {
           throw new Error('Order is not in pending status');
         }
 
-        // Update order status
-        const updatedOrder = await tx.order.update({
+        const updatedOrder = await tx.order.findUniqueOrThrow({
           where: { id: orderId },
-          data: {
-            status: 'COMPLETED',
-            paymentStatus: 'PAID',
-          },
         });
 
-        // Update transaction
-        await tx.transaction.updateMany({
-          where: { orderId },
+        // Mark the payment attempt that paid for the order
+        const updatedAttempt = await tx.transaction.updateMany({
+          where: {
+            orderId,
+            type: TransactionType.PAYMENT,
+            phonepeMerchantId: merchantTransactionId,
+          },
           data: {
             status: 'SUCCESS',
             phonepeTransactionId,
-            phonepeResponse,
+            phonepeResponse: phonepeResponse as unknown as Prisma.InputJsonValue,
             processedAt: new Date(),
           },
         });
 
+        if (updatedAttempt.count === 0) {
+          throw new Error('Payment attempt not found for order');
+        }
+
+        // A top-up adds its drinks to the existing voucher instead of issuing a new one
+        if (order.orderType === OrderType.VOUCHER_TOPUP) {
+          const voucher = await this.applyTopup(tx, order);
+          return { voucher, order: updatedOrder };
+        }
+
         // Calculate voucher details
         const totalDrinks = order.totalDrinks || 0;
         const totalAmount = Number(order.totalAmount);
         const pricePerDrink = totalDrinks > 0 ? totalAmount / totalDrinks : 0;
         const voucherNumber = this.generateVoucherNumber();
-        const expiryDate = this.calculateExpiryDate(90); // 90 days default
+        const { expiryDate, firstUseValidityDays } = this.resolveValidity(order);
 
         // Create the voucher
         const voucher = await tx.drinkVoucher.create({
@@ -191,6 +321,7 @@ export class VoucherService {
             isActivated: false,
             purchaseDate: new Date(),
             expiryDate,
+            firstUseValidityDays,
           },
         });
 
@@ -209,6 +340,7 @@ export class VoucherService {
         isActivated: result.voucher.isActivated,
         purchaseDate: result.voucher.purchaseDate,
         expiryDate: result.voucher.expiryDate,
+        firstUseValidityDays: result.voucher.firstUseValidityDays,
         order: {
           id: result.order.id,
           orderNumber: result.order.orderNumber,
@@ -222,6 +354,156 @@ export class VoucherService {
     }
   }
 
+  // Add a paid top-up's drinks to its voucher with optimistic locking, blending the price per drink
+  private static async applyTopup(tx: Prisma.TransactionClient, order: Order): Promise<DrinkVoucher> {
+    if (!order.topupVoucherId) {
+      throw new Error('Top-up order has no voucher');
+    }
+
+    const drinks = order.totalDrinks || 0;
+    const amount = Number(order.totalAmount);
+
+    for (let attempt = 0; attempt < TOPUP_CONFIG.MAX_VERSION_RETRIES; attempt++) {
+      const voucher = await tx.drinkVoucher.findUnique({
+        where: { id: order.topupVoucherId },
+      });
+
+      if (!voucher) {
+        throw new Error('Voucher not found');
+      }
+
+      if (!TOPUP_VOUCHER_STATUSES.includes(voucher.status)) {
+        throw new Error(`Voucher is ${voucher.status.toLowerCase()} and cannot be topped up`);
+      }
+
+      const totalDrinks = voucher.totalDrinks + drinks;
+      const totalPrice = Number(voucher.totalPrice) + amount;
+
+      // Top-ups of vouchers without an expiry date can't ask for an extension, so they keep none
+      let expiryDate = voucher.expiryDate;
+      if (order.topupExpiryDays && expiryDate) {
+        const extended = this.calculateExpiryDate(order.topupExpiryDays);
+        if (extended > expiryDate) {
+          expiryDate = extended;
+        }
+      }
+
+      const expired = expiryDate !== null && expiryDate <= new Date();
+
+      const updated = await tx.drinkVoucher.updateMany({
+        where: {
+          id: voucher.id,
+          version: voucher.version, // Optimistic locking
+        },
+        data: {
+          totalDrinks,
+          totalPrice,
+          pricePerDrink: Math.round((totalPrice / totalDrinks) * 100) / 100,
+          expiryDate,
+          status: expired ? VoucherStatus.EXPIRED : VoucherStatus.ACTIVE,
+          version: voucher.version + 1,
+        },
+      });
+
+      if (updated.count === 1) {
+        return await tx.drinkVoucher.findUniqueOrThrow({
+          where: { id: voucher.id },
+        });
+      }
+    }
+
+    throw new Error('Voucher was modified by another transaction. Please try again.');
+  }
+
+  // Push a voucher's expiry out by some days (Admin), recording the change in its audit trail
+  static async extendVoucherExpiry(
+    voucherId: string,
+    adminId: string,
+    days: number,
+    reason: string
+  ): Promise<VoucherExpiryExtensionResult> {
+    for (let attempt = 0; attempt < TOPUP_CONFIG.MAX_VERSION_RETRIES; attempt++) {
+      const voucher = await prisma.drinkVoucher.findUnique({
+        where: { id: voucherId },
+      });
+
+      if (!voucher) {
+        return { success: false, error: 'Voucher not found' };
+      }
+
+      if (!EXTENDABLE_VOUCHER_STATUSES.includes(voucher.status)) {
+        return { success: false, error: `Voucher is ${voucher.status.toLowerCase()} and cannot be extended` };
+      }
+
+      // Never-expiring vouchers, and ones whose validity has not started yet, have nothing to extend
+      if (!voucher.expiryDate) {
+        return { success: false, error: 'Voucher has no expiry date to extend' };
+      }
+
+      // An already expired voucher gets its days counted from now
+      const now = new Date();
+      const from = voucher.expiryDate > now ? voucher.expiryDate : now;
+      const newExpiryDate = this.calculateExpiryDate(days, from);
+      const remainingDrinks = voucher.totalDrinks - voucher.consumedDrinks;
+
+      const result = await prisma.$transaction(async (tx) => {
+        const updated = await tx.drinkVoucher.updateMany({
+          where: {
+            id: voucher.id,
+            version: voucher.version, // Optimistic locking
+          },
+          data: {
+            expiryDate: newExpiryDate,
+            ...(voucher.status === VoucherStatus.EXPIRED && {
+              status: remainingDrinks > 0 ? VoucherStatus.ACTIVE : VoucherStatus.EXHAUSTED,
+            }),
+            version: voucher.version + 1,
+          },
+        });
+
+        if (updated.count === 0) {
+          return null;
+        }
+
+        const extension = await tx.voucherExpiryExtension.create({
+          data: {
+            voucherId: voucher.id,
+            extendedById: adminId,
+            days,
+            previousExpiryDate: voucher.expiryDate!,
+            newExpiryDate,
+            reason: reason.trim(),
+          },
+        });
+
+        const extended = await tx.drinkVoucher.findUniqueOrThrow({
+          where: { id: voucher.id },
+        });
+
+        return { voucher: extended, extension };
+      });
+
+      if (result) {
+        return { success: true, ...result };
+      }
+    }
+
+    return { success: false, error: 'Voucher was modified by another transaction. Please try again.' };
+  }
+
+  // Expiry extensions made to a voucher, newest first
+  static async getExpiryExtensions(voucherId: string) {
+    return await prisma.voucherExpiryExtension.findMany({
+      where: { voucherId },
+      include: {
+        extendedBy: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
   // Cancel voucher order
   static async cancelVoucherOrder(orderId: string, reason?: string): Promise<boolean> {
     try {
@@ -235,9 +517,12 @@ export class VoucherService {
           },
         });
 
-        // Update transaction
+        // Close any payment attempt that is still open
         await tx.transaction.updateMany({
-          where: { orderId },
+          where: {
+            orderId,
+            status: TransactionStatus.PENDING,
+          },
           data: {
             status: 'CANCELLED',
             failureReason: reason || 'Order cancelled',
@@ -253,6 +538,93 @@ export class VoucherService {
     }
   }
 
+  // Mark a pending payment attempt as failed or cancelled by the payment provider
+  // The order stays pending so the customer can retry with a new attempt
+  // Returns false if the attempt was no longer pending
+  static async failPaymentAttempt(
+    merchantTransactionId: string,
+    transactionStatus: 'FAILED' | 'CANCELLED',
+    reason: string,
+    callbackData?: PaymentCallbackData | PaymentStatusResponse
+  ): Promise<boolean> {
+    return await prisma.$transaction(async (tx) => {
+      const attempt = await tx.transaction.findUnique({
+        where: { phonepeMerchantId: merchantTransactionId },
+        select: { id: true, orderId: true },
+      });
+
+      if (!attempt) {
+        return false;
+      }
+
+      const updatedAttempt = await tx.transaction.updateMany({
+        where: {
+          id: attempt.id,
+          status: TransactionStatus.PENDING,
+        },
+        data: {
+          status: transactionStatus,
+          failureReason: reason,
+          phonepeCallbackData: callbackData as unknown as Prisma.InputJsonValue,
+          processedAt: new Date(),
+        },
+      });
+
+      if (updatedAttempt.count === 0) {
+        return false;
+      }
+
+      if (attempt.orderId) {
+        // Reflect the failure on the order unless a newer attempt is still open
+        await tx.order.updateMany({
+          where: {
+            id: attempt.orderId,
+            status: OrderStatus.PENDING,
+            transactions: { none: { status: TransactionStatus.PENDING } },
+          },
+          data: { paymentStatus: PaymentStatus.FAILED },
+        });
+      }
+
+      return true;
+    });
+  }
+
+  // Cancel pending orders created before the cutoff that have no open or successful payment attempt
+  static async expireUnpaidOrders(createdBefore: Date): Promise<number> {
+    const result = await prisma.order.updateMany({
+      where: {
+        status: OrderStatus.PENDING,
+        createdAt: { lt: createdBefore },
+        transactions: {
+          none: { status: { in: [TransactionStatus.PENDING, TransactionStatus.SUCCESS] } },
+        },
+      },
+      data: {
+        status: OrderStatus.CANCELLED,
+        paymentStatus: PaymentStatus.FAILED,
+      },
+    });
+
+    return result.count;
+  }
+
+  // Suspend vouchers issued for an order (e.g. the provider reports a failure after completion)
+  static async suspendOrderVouchers(orderId: string): Promise<number> {
+    const result = await prisma.drinkVoucher.updateMany({
+      where: {
+        orderId,
+        status: { in: [VoucherStatus.ACTIVE, VoucherStatus.EXHAUSTED] },
+      },
+      data: {
+        status: VoucherStatus.SUSPENDED,
+        version: { increment: 1 },
+      },
+    });
+
+    return result.count;
+  }
+
   // Get user's vouchers
   static async getUserVouchers(userId: string): Promise<VoucherResponse[]> {
     try {
@@ -283,6 +655,7 @@ export class VoucherService {
         isActivated: voucher.isActivated,
         purchaseDate: voucher.purchaseDate,
         expiryDate: voucher.expiryDate,
+        firstUseValidityDays: voucher.firstUseValidityDays,
         order: {
           id: voucher.order?.id || '',
           orderNumber: voucher.order?.orderNumber || '',
@@ -296,6 +669,23 @@ export class VoucherService {
     }
   }
 
+  // Get the voucher an order issued, or the voucher a top-up order added drinks to
+  static async getOrderVoucher(orderId: string, userId?: string): Promise<VoucherResponse | null> {
+    const order = await prisma.order.findFirst({
+      where: {
+        id: orderId,
+        ...(userId && { userId }),
+      },
+      select: {
+        topupVoucherId: true,
+        drinkVouchers: { select: { id: true }, take: 1 },
+      },
+    });
+
+    const voucherId = order?.topupVoucherId ?? order?.drinkVouchers[0]?.id;
+    return voucherId ? await this.getVoucherById(voucherId, userId) : null;
+  }
+
   // Get voucher by ID
   static async getVoucherById(voucherId: string, userId?: string): Promise<VoucherResponse | null> {
     try {
@@ -333,6 +723,7 @@ export class VoucherService {
         isActivated: voucher.isActivated,
         purchaseDate: voucher.purchaseDate,
         expiryDate: voucher.expiryDate,
+        firstUseValidityDays: voucher.firstUseValidityDays,
         order: {
           id: voucher.order?.id || '',
           orderNumber: voucher.order?.orderNumber || '',
@@ -355,10 +746,13 @@ export class VoucherService {
           ...(userId && { userId }),
         },
         include: {
+          // Current payment attempt
           transactions: {
+            where: { type: TransactionType.PAYMENT },
             select: {
               phonepeMerchantId: true,
             },
+            orderBy: [{ attemptNumber: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
             take: 1,
           },
         },
@@ -378,6 +772,7 @@ export class VoucherService {
         paymentStatus: order.paymentStatus,
         createdAt: order.createdAt,
         phonepeMerchantId: order.transactions[0]?.phonepeMerchantId || undefined,
+        topupVoucherId: order.topupVoucherId || undefined,
       };
     } catch (error) {
       console.error('Error fetching order:', error);
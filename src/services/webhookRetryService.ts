@@ -0,0 +1,36 @@
+import { PaymentWebhookService } from './paymentWebhookService';
+import { WEBHOOK_CONFIG } from '../config/constants';
+
+export class WebhookRetryService {
+  private static retryInterval: NodeJS.Timeout | null = null;
+
+  // Start periodic retry of payment webhook events that failed or were abandoned mid-attempt
+  static startPeriodicRetry(intervalMs: number = WEBHOOK_CONFIG.RETRY_SWEEP_INTERVAL_MS): void {
+    if (this.retryInterval) {
+      console.log('Webhook retry service is already running');
+      return;
+    }
+
+    this.retryInterval = setInterval(async () => {
+      try {
+        const retried = await PaymentWebhookService.retryDueEvents();
+        if (retried > 0) {
+          console.log(`Retried ${retried} payment webhook event(s)`);
+        }
+      } catch (error) {
+        console.error('Error during webhook retry sweep:', error);
+      }
+    }, intervalMs);
+
+    console.log(`Webhook retry service started. Will run every ${intervalMs / 1000} seconds.`);
+  }
+
+  // Stop periodic retry
+  static stopPeriodicRetry(): void {
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval);
+      this.retryInterval = null;
+      console.log('Webhook retry service stopped');
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { User, OtpCode, OtpPurpose, UserRole, Prisma, DrinkFlavour, DrinkType } from '@prisma/client';
+import { User, OtpCode, OtpPurpose, UserRole, Prisma, DrinkFlavour, DrinkType, VendingMachine } from '@prisma/client';
 
 // API Response types
 export interface ApiResponse<T = any> {
@@ -18,27 +18,45 @@ export type CreateUserRequest = Prisma.UserCreateInput;
 export interface SendOtpRequest {
   phone: string;
   purpose?: OtpPurpose;
+  deviceFingerprint?: string; // Binds the OTP to this device
 }
 
 export interface VerifyOtpRequest {
   phone: string;
+  otpRequestId: string;       // From the send-OTP response
   code: string;
   purpose?: OtpPurpose;
+  deviceFingerprint?: string; // Required if the OTP was requested with one
+  deviceName?: string;        // Shown in the session list, e.g. "Pixel 8"
 }
 
 export interface OtpResponse {
   message: string;
+  otpRequestId: string;
   expiresAt: Date;
 }
 
 export interface LoginResponse {
   user: UserResponse;
   token: string; // Access token
-  refreshToken?: string; // Refresh token for future implementation
+  refreshToken?: string; // Single-use; exchange at /api/auth/refresh-token
   expiresIn: string; // Token expiry information
   message: string;
 }
 
+// Active session as shown to its user; id is the session (refresh token family) ID
+export interface SessionResponse {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  location: string | null;
+  signedInAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean; // Session of the access token making the request
+}
+
 // Extended Request/Response types
 export interface TypedRequest<T = any> extends Request {
   body: T;
@@ -112,7 +130,7 @@ export interface GenerateMachineQRRequest {
   machineId: string;
   drinkType: DrinkType;
   drinkFlavour: DrinkFlavour;
-  price: number;
+  price?: number; // Optional; must match the configured slot price when provided
 }
 
 export interface GenerateMachineQRResponse {
@@ -132,6 +150,123 @@ export interface QRScanRequest {
   voucherId: string;
 }
 
+export interface DispenseResultRequest {
+  success: boolean;
+  errorCode?: string;
+  message?: string;
+}
+
+export interface MachineHeartbeatRequest {
+  version?: string;
+  temperature?: number;  // Degrees Celsius
+  waterLevel?: number;   // Percentage (0-100)
+  errorCodes?: string[];
+}
+
+// Vending machine management types
+export type MachineResponse = Omit<VendingMachine, 'apiKey'>;
+
+export interface CreateMachineRequest {
+  machineId: string;
+  name: string;
+  location: string;
+  address?: string;
+  city: string;
+  state?: string;
+  pincode?: string;
+  latitude?: number;
+  longitude?: number;
+  apiEndpoint?: string;
+  isActive?: boolean;
+}
+
+export type UpdateMachineRequest = Partial<Omit<CreateMachineRequest, 'machineId' | 'isActive'>>;
+
+export interface MachineListFilters {
+  city?: string;
+  isOnline?: boolean;
+  isActive?: boolean;
+  version?: string;
+}
+
+export interface ConfigureSlotRequest {
+  drinkType: DrinkType;
+  drinkFlavour: DrinkFlavour;
+  price: number;
+  capacity: number;
+  stock?: number;
+  isActive?: boolean;
+}
+
+export interface RefillSlotRequest {
+  stock?: number; // Defaults to the slot capacity
+}
+
+export interface StockAlertRuleRequest {
+  name: string;
+  city?: string | null;
+  machineId?: string | null; // External machine ID
+  drinkType?: DrinkType | null;
+  drinkFlavour?: DrinkFlavour | null;
+  thresholdPercent: number;
+  isActive?: boolean;
+}
+
+export type RefillUrgency = 'CRITICAL' | 'HIGH' | 'MEDIUM';
+
+export interface RefillPlanSlot {
+  slotNumber: number;
+  drinkType: DrinkType;
+  drinkFlavour: DrinkFlavour;
+  stock: number;
+  capacity: number;
+  fillPercent: number;
+  refillQuantity: number;
+  lastRefilledAt: Date | null;
+}
+
+export interface RefillPlanMachine {
+  machineId: string;
+  name: string;
+  location: string;
+  address: string | null;
+  isOnline: boolean;
+  urgency: RefillUrgency;
+  emptySlots: number;
+  lowestFillPercent: number;
+  openAlerts: number;
+  slots: RefillPlanSlot[];
+}
+
+export interface RefillPlanCity {
+  city: string;
+  machineCount: number;
+  machines: RefillPlanMachine[];
+}
+
+export interface AvailableDrinks {
+  drinkTypes: DrinkType[];
+  drinkFlavours: DrinkFlavour[];
+  products: {
+    drinkType: DrinkType;
+    drinkFlavour: DrinkFlavour;
+    price: number;
+  }[];
+}
+
+export interface NearbyMachine {
+  machineId: string;
+  name: string;
+  location: string;
+  address: string | null;
+  city: string;
+  latitude: number;
+  longitude: number;
+  distanceKm: number;
+  isOnline: boolean;
+  availableDrinks: AvailableDrinks;
+}
+
 export interface PaymentStatusResponse {
   paymentCompleted: boolean;
   sessionId: string;
@@ -146,7 +281,6 @@ export interface PaymentStatusResponse {
 // Payment related types
 export interface VoucherPurchaseRequest {
   packageId: string;
-  expiryDays?: number;
 }
 
 export interface OrderResponse {
@@ -186,5 +320,51 @@ export interface VoucherResponse {
   };
 }
 
+export interface VoucherPackageRequest {
+  id?: string; // Package code; set on create only
+  name: string;
+  description?: string | null;
+  totalDrinks: number;
+  totalPrice: number;
+  originalPrice?: number | null; // Defaults to totalPrice
+  recommended?: boolean;
+  validityDays?: number | null;  // null = vouchers never expire
+  validityStartsOnFirstUse?: boolean; // Count validityDays from first use instead of purchase
+  availableFrom?: string | null;
+  availableUntil?: string | null;
+  cities?: string[];             // Empty = sold everywhere
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+// Package as shown to customers
+export interface PublicVoucherPackage {
+  id: string;
+  name: string;
+  description: string | null;
+  totalDrinks: number;
+  pricePerDrink: number;
+  totalPrice: number;
+  originalPrice: number;
+  savings: number;
+  recommended: boolean;
+  validityDays: number | null;
+  validityStartsOnFirstUse: boolean;
+  availableUntil: Date | null;
+}
+
+// Copy of the package stored on each order
+export interface VoucherPackageSnapshot {
+  id: string;
+  name: string;
+  totalDrinks: number;
+  pricePerDrink: number;
+  totalPrice: number;
+  originalPrice: number;
+  validityDays: number | null;
+  validityStartsOnFirstUse?: boolean; // Missing on snapshots taken before validity rules
+  capturedAt: string;
+}
+
 // Re-export Prisma types for convenience
 export { User, OtpCode, OtpPurpose, UserRole, Prisma }; 
\ No newline at end of file
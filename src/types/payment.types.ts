@@ -23,7 +23,7 @@ export interface PaymentInitiationResponse {
     data?: {
       merchantId: string;
       merchantTransactionId: string;
-      checksum: string;
+      checksum?: string;
       paymentUrl?: string;
       redirectUrl?: string;
       qrData?: string;
@@ -73,8 +73,96 @@ export interface RefundResponse {
     };
 }
   
+// Refund worked out from the unused drinks on a payment's voucher
+export interface RefundQuote {
+    paymentTransactionId: string;
+    orderId: string;
+    voucherId: string;
+    voucherNumber: string;
+    pricePerDrink: number;     // Price per drink of the payment's order
+    totalDrinks: number;
+    consumedDrinks: number;
+    refundableDrinks: number;  // Drinks this payment bought that are not yet consumed or refunded
+    drinks: number;            // Drinks being refunded
+    amount: number;            // in rupees
+    alreadyRefunded: number;   // Completed and pending refunds of this payment, in rupees
+}
+
+// Transaction data decoded from a verified callback, with the response code and message alongside it
+export interface PaymentCallbackData {
+    merchantId?: string;
+    merchantTransactionId?: string;
+    transactionId?: string;
+    amount?: number;
+    state?: string;
+    responseCode?: string;
+    code?: string;
+    message?: string;
+    paymentInstrument?: {
+      type: string;
+      utr?: string;
+      cardType?: string;
+      pgTransactionId?: string;
+    };
+}
+
+// Gateway data a refund state change is recorded with: a callback, a status check or the refund response
+export type RefundGatewayData = PaymentCallbackData | PaymentStatusResponse | RefundResponse;
+
 export interface CallbackVerificationResult {
     isValid: boolean;
-    transactionData?: any;
+    transactionData?: PaymentCallbackData;
     error?: string;
-}  
\ No newline at end of file
+}  
+export type ReconciliationAction = 'COMPLETED' | 'FAILED' | 'STILL_PENDING' | 'SKIPPED' | 'ERROR';
+
+export interface ReconciliationRunSummary {
+    checked: number;
+    completed: number;
+    failed: number;
+    stillPending: number;
+    skipped: number;
+    errors: number;
+    expiredOrders: number;
+}
+
+export type ReconciliationMismatchType =
+    | 'STATUS_MISMATCH'       // Local transaction status disagrees with the gateway state
+    | 'AMOUNT_MISMATCH'       // Gateway amount differs from the local amount
+    | 'ORDER_NOT_COMPLETED'   // Payment succeeded but the order was not completed
+    | 'MISSING_VOUCHER'       // Order completed without a voucher
+    | 'STILL_PENDING'         // Gateway still reports the payment as pending
+    | 'GATEWAY_ERROR';        // Status could not be fetched
+
+export interface ReconciliationMismatch {
+    type: ReconciliationMismatchType;
+    transactionId: string;
+    merchantTransactionId: string | null;
+    orderId: string | null;
+    localStatus: string;
+    gatewayState: string | null;
+    localAmount: number;
+    gatewayAmount: number | null;
+    message: string;
+}
+
+export type PaymentProviderName = 'phonepe' | 'simulated';
+
+export interface ProviderInitiationRequest {
+    merchantTransactionId: string;
+    amount: number; // in paise
+    userId: string;
+    userPhone: string;
+}
+
+/**
+ * A payment gateway. Responses use the PhonePe shapes above so callers stay provider-agnostic;
+ * verifyCallback returns the callback's transaction data (merchantTransactionId, state, ...).
+ */
+export interface PaymentProvider {
+    readonly name: PaymentProviderName;
+    initiate(request: ProviderInitiationRequest): Promise<PaymentInitiationResponse>;
+    status(merchantTransactionId: string): Promise<PaymentStatusResponse>;
+    refund(request: RefundRequest): Promise<RefundResponse>;
+    verifyCallback(signature: string, responseBody: string): CallbackVerificationResult;
+}
@@ -0,0 +1,42 @@
+import { SmsDeliveryStatus } from '@prisma/client';
+
+export type SmsProviderName = 'msg91' | 'twilio' | 'sns' | 'console' | 'file';
+
+export interface SmsMessage {
+  to: string;                          // E.164, e.g. +919876543210
+  body: string;                        // Full text; must match the DLT template for Indian numbers
+  templateId?: string;                 // DLT content template ID
+  variables?: Record<string, string>;  // Template variables for providers that render templates themselves
+}
+
+export interface SmsSendResult {
+  success: boolean;
+  status: SmsDeliveryStatus;
+  providerMessageId?: string;
+  error?: string;
+}
+
+export interface SmsDeliveryReport {
+  providerMessageId: string;
+  status: SmsDeliveryStatus;
+  error?: string;
+}
+
+// What a provider needs from an incoming delivery report callback
+export interface SmsDeliveryReportRequest {
+  url: string;                         // Public URL the callback was sent to
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, unknown>;
+  body: unknown;
+}
+
+/**
+ * An SMS gateway. send() returns `{ success: false }` for gateway rejections and throws on
+ * network failures. parseDeliveryReport returns null when the callback cannot be authenticated;
+ * providers without delivery callbacks leave it out.
+ */
+export interface SmsProvider {
+  readonly name: SmsProviderName;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+  parseDeliveryReport?(request: SmsDeliveryReportRequest): SmsDeliveryReport[] | null;
+}
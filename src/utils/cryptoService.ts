@@ -50,6 +50,16 @@ export class CryptoService {
     return hash + '###' + this.saltIndex;
   }
 
+  /**
+   * Generate the X-VERIFY checksum PhonePe sends with S2S callbacks
+   * @param response - Base64 encoded callback response
+   * @returns Checksum string in format: hash###saltIndex
+   */
+  generateCallbackChecksum(response: string): string {
+    const hash = crypto.createHash('sha256').update(response + this.saltKey).digest('hex');
+    return hash + '###' + this.saltIndex;
+  }
+
   /**
    * Verify callback signature from PhonePe webhook
    * @param xVerify - X-VERIFY header value from callback
@@ -59,6 +69,10 @@ export class CryptoService {
   verifyCallbackChecksum(xVerify: string, response: string): boolean {
     try {
       const [hash, index] = xVerify.split('###');
+
+      if (!hash || !index) {
+        return false;
+      }
       
       // Verify salt index matches
       if (parseInt(index) !== this.saltIndex) {
@@ -70,8 +84,13 @@ export class CryptoService {
       const stringToHash = response + this.saltKey;
       const computedHash = crypto.createHash('sha256').update(stringToHash).digest('hex');
       
-      // Compare hashes
-      return hash === computedHash;
+      // Compare hashes in constant time to avoid leaking the expected checksum
+      const expected = Buffer.from(computedHash, 'utf-8');
+      const provided = Buffer.from(hash.toLowerCase(), 'utf-8');
+      if (expected.length !== provided.length) {
+        return false;
+      }
+      return crypto.timingSafeEqual(expected, provided);
     } catch (error) {
       console.error('Checksum verification error:', error);
       return false;
@@ -20,6 +20,7 @@ export class AuthValidation {
   static validateSendOtpRequest(data: {
     phone?: string;
     purpose?: OtpPurpose;
+    deviceFingerprint?: unknown;
   }): ValidationResult {
     const errors: string[] = [];
 
@@ -36,6 +37,8 @@ export class AuthValidation {
       errors.push('Invalid OTP purpose');
     }
 
+    this.checkDeviceFingerprint(data.deviceFingerprint, errors);
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -47,8 +50,11 @@ export class AuthValidation {
    */
   static validateVerifyOtpRequest(data: {
     phone?: string;
+    otpRequestId?: unknown;
     code?: string;
     purpose?: OtpPurpose;
+    deviceFingerprint?: unknown;
+    deviceName?: unknown;
   }): ValidationResult {
     const errors: string[] = [];
 
@@ -61,6 +67,10 @@ export class AuthValidation {
       }
     }
 
+    if (!data.otpRequestId || typeof data.otpRequestId !== 'string') {
+      errors.push('OTP request ID is required');
+    }
+
     if (!data.code) {
       errors.push('OTP code is required');
     }
@@ -69,6 +79,13 @@ export class AuthValidation {
       errors.push('Invalid OTP purpose');
     }
 
+    this.checkDeviceFingerprint(data.deviceFingerprint, errors);
+
+    if (data.deviceName !== undefined && (typeof data.deviceName !== 'string' ||
+      data.deviceName.trim().length > AUTH_CONFIG.MAX_DEVICE_NAME_LENGTH)) {
+      errors.push(`Device name must be a string of at most ${AUTH_CONFIG.MAX_DEVICE_NAME_LENGTH} characters`);
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -81,6 +98,7 @@ export class AuthValidation {
   static validateRegistrationRequest(data: {
     phone?: string;
     name?: string;
+    deviceFingerprint?: unknown;
   }): ValidationResult {
     const errors: string[] = [];
 
@@ -97,6 +115,8 @@ export class AuthValidation {
       errors.push('Name is required for registration');
     }
 
+    this.checkDeviceFingerprint(data.deviceFingerprint, errors);
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -108,6 +128,7 @@ export class AuthValidation {
    */
   static validateLoginRequest(data: {
     phone?: string;
+    deviceFingerprint?: unknown;
   }): ValidationResult {
     const errors: string[] = [];
 
@@ -120,6 +141,8 @@ export class AuthValidation {
       }
     }
 
+    this.checkDeviceFingerprint(data.deviceFingerprint, errors);
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -130,11 +153,11 @@ export class AuthValidation {
    * Validates refresh token request
    */
   static validateRefreshTokenRequest(data: {
-    refreshToken?: string;
+    refreshToken?: unknown;
   }): ValidationResult {
     const errors: string[] = [];
 
-    if (!data.refreshToken) {
+    if (!data.refreshToken || typeof data.refreshToken !== 'string') {
       errors.push('Refresh token is required');
     }
 
@@ -255,4 +278,16 @@ export class AuthValidation {
       errors,
     };
   }
+
+  // Optional device fingerprint an OTP is bound to
+  private static checkDeviceFingerprint(deviceFingerprint: unknown, errors: string[]): void {
+    if (deviceFingerprint === undefined) {
+      return;
+    }
+
+    if (typeof deviceFingerprint !== 'string' || !deviceFingerprint.trim() ||
+      deviceFingerprint.length > AUTH_CONFIG.MAX_DEVICE_FINGERPRINT_LENGTH) {
+      errors.push(`Device fingerprint must be a non-empty string of at most ${AUTH_CONFIG.MAX_DEVICE_FINGERPRINT_LENGTH} characters`);
+    }
+  }
 } 
\ No newline at end of file
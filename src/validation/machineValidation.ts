@@ -1,5 +1,5 @@
 import { DrinkType, DrinkFlavour } from '@prisma/client';
-import { DRINK_CONFIG } from '../config/constants';
+import { DRINK_CONFIG, MACHINE_CONFIG, MACHINE_HEARTBEAT_CONFIG, SESSION_CONFIG } from '../config/constants';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -42,10 +42,127 @@ export class ValidationService {
       }
     }
 
-    if (typeof data.price !== 'number' || data.price <= 0) {
-      errors.push('Price is required and must be a positive number');
-    } else if (data.price < DRINK_CONFIG.MIN_PRICE || data.price > DRINK_CONFIG.MAX_PRICE) {
-      errors.push(`Price must be between ${DRINK_CONFIG.MIN_PRICE} and ${DRINK_CONFIG.MAX_PRICE}`);
+    // Price is optional; the configured slot price is authoritative
+    if (data.price !== undefined) {
+      errors.push(...this.validatePrice(data.price));
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  // Shared price range check
+  private static validatePrice(price: unknown): string[] {
+    if (typeof price !== 'number' || !Number.isFinite(price) || price <= 0) {
+      return ['Price must be a positive number'];
+    }
+    if (price < DRINK_CONFIG.MIN_PRICE || price > DRINK_CONFIG.MAX_PRICE) {
+      return [`Price must be between ${DRINK_CONFIG.MIN_PRICE} and ${DRINK_CONFIG.MAX_PRICE}`];
+    }
+    return [];
+  }
+
+  /**
+   * Validates slot configuration request
+   */
+  static validateConfigureSlotRequest(slotNumber: number, data: Record<string, unknown>): ValidationResult {
+    const errors: string[] = [];
+
+    if (!Number.isInteger(slotNumber) || slotNumber < 1 || slotNumber > MACHINE_CONFIG.MAX_SLOT_NUMBER) {
+      errors.push(`Slot number must be an integer between 1 and ${MACHINE_CONFIG.MAX_SLOT_NUMBER}`);
+    }
+
+    const validDrinkTypes = Object.values(DrinkType);
+    if (!validDrinkTypes.includes(data.drinkType as DrinkType)) {
+      errors.push(`Drink type must be one of: ${validDrinkTypes.join(', ')}`);
+    }
+
+    const validDrinkFlavours = Object.values(DrinkFlavour);
+    if (!validDrinkFlavours.includes(data.drinkFlavour as DrinkFlavour)) {
+      errors.push(`Drink flavour must be one of: ${validDrinkFlavours.join(', ')}`);
+    }
+
+    if (data.price === undefined) {
+      errors.push('Price is required');
+    } else {
+      errors.push(...this.validatePrice(data.price));
+    }
+
+    if (typeof data.capacity !== 'number' || !Number.isInteger(data.capacity) || data.capacity < 1 || data.capacity > MACHINE_CONFIG.MAX_SLOT_CAPACITY) {
+      errors.push(`Capacity is required and must be an integer between 1 and ${MACHINE_CONFIG.MAX_SLOT_CAPACITY}`);
+    }
+
+    if (data.stock !== undefined && (typeof data.stock !== 'number' || !Number.isInteger(data.stock) || data.stock < 0)) {
+      errors.push('Stock must be a non-negative integer');
+    }
+
+    if (data.isActive !== undefined && typeof data.isActive !== 'boolean') {
+      errors.push('isActive must be a boolean');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validates slot refill request
+   */
+  static validateRefillSlotRequest(slotNumber: number, data: Record<string, unknown>): ValidationResult {
+    const errors: string[] = [];
+
+    if (!Number.isInteger(slotNumber) || slotNumber < 1 || slotNumber > MACHINE_CONFIG.MAX_SLOT_NUMBER) {
+      errors.push(`Slot number must be an integer between 1 and ${MACHINE_CONFIG.MAX_SLOT_NUMBER}`);
+    }
+
+    if (data.stock !== undefined && (typeof data.stock !== 'number' || !Number.isInteger(data.stock) || data.stock < 0)) {
+      errors.push('Stock must be a non-negative integer');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validates low-stock alert rule request
+   */
+  static validateStockAlertRuleRequest(data: Record<string, unknown>): ValidationResult {
+    const errors: string[] = [];
+
+    if (typeof data.name !== 'string' || data.name.trim() === '') {
+      errors.push('Name is required and must be a non-empty string');
+    } else if (data.name.length > MACHINE_CONFIG.MAX_NAME_LENGTH) {
+      errors.push(`Name must be at most ${MACHINE_CONFIG.MAX_NAME_LENGTH} characters`);
+    }
+
+    if (typeof data.thresholdPercent !== 'number' || !Number.isInteger(data.thresholdPercent) ||
+      data.thresholdPercent < 1 || data.thresholdPercent > 100) {
+      errors.push('Threshold percent is required and must be an integer between 1 and 100');
+    }
+
+    if (data.city != null && (typeof data.city !== 'string' || data.city.length > MACHINE_CONFIG.MAX_CITY_LENGTH)) {
+      errors.push(`City must be a string of at most ${MACHINE_CONFIG.MAX_CITY_LENGTH} characters`);
+    }
+
+    if (data.machineId != null && typeof data.machineId !== 'string') {
+      errors.push('Machine ID must be a string');
+    }
+
+    if (data.drinkType != null && !Object.values(DrinkType).includes(data.drinkType as DrinkType)) {
+      errors.push(`Drink type must be one of: ${Object.values(DrinkType).join(', ')}`);
+    }
+
+    if (data.drinkFlavour != null && !Object.values(DrinkFlavour).includes(data.drinkFlavour as DrinkFlavour)) {
+      errors.push(`Drink flavour must be one of: ${Object.values(DrinkFlavour).join(', ')}`);
+    }
+
+    if (data.isActive !== undefined && typeof data.isActive !== 'boolean') {
+      errors.push('isActive must be a boolean');
     }
 
     return {
@@ -77,6 +194,234 @@ export class ValidationService {
     };
   }
 
+  /**
+   * Validates dispense result reported by a machine
+   */
+  static validateDispenseResultRequest(data: {
+    success?: boolean;
+    errorCode?: string;
+    message?: string;
+  }): ValidationResult {
+    const errors: string[] = [];
+
+    if (typeof data.success !== 'boolean') {
+      errors.push('Success is required and must be a boolean');
+    } else if (!data.success) {
+      if (!data.errorCode || typeof data.errorCode !== 'string' || data.errorCode.trim() === '') {
+        errors.push('Error code is required when dispense fails');
+      } else if (data.errorCode.length > SESSION_CONFIG.MAX_DISPENSE_ERROR_CODE_LENGTH) {
+        errors.push(`Error code must be at most ${SESSION_CONFIG.MAX_DISPENSE_ERROR_CODE_LENGTH} characters`);
+      }
+    }
+
+    if (data.message !== undefined && typeof data.message !== 'string') {
+      errors.push('Message must be a string');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validates machine registration request
+   */
+  static validateCreateMachineRequest(data: Record<string, unknown>): ValidationResult {
+    const errors: string[] = [];
+
+    if (typeof data.machineId !== 'string' || !MACHINE_CONFIG.MACHINE_ID_PATTERN.test(data.machineId)) {
+      errors.push('Machine ID is required and must be 3-50 letters, digits, underscores or hyphens');
+    }
+
+    for (const field of ['name', 'location', 'city'] as const) {
+      if (typeof data[field] !== 'string' || (data[field] as string).trim() === '') {
+        errors.push(`${field.charAt(0).toUpperCase() + field.slice(1)} is required and must be a non-empty string`);
+      }
+    }
+
+    if (data.isActive !== undefined && typeof data.isActive !== 'boolean') {
+      errors.push('isActive must be a boolean');
+    }
+
+    errors.push(...this.validateMachineDetails(data));
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validates machine update request (all fields optional, at least one required)
+   */
+  static validateUpdateMachineRequest(data: Record<string, unknown>): ValidationResult {
+    const errors: string[] = [];
+    const updatableFields = ['name', 'location', 'address', 'city', 'state', 'pincode', 'latitude', 'longitude', 'apiEndpoint'];
+
+    if (!updatableFields.some((field) => data[field] !== undefined)) {
+      errors.push(`At least one of ${updatableFields.join(', ')} must be provided`);
+    }
+
+    for (const field of ['machineId', 'qrCode', 'isActive', 'isOnline', 'apiKey']) {
+      if (data[field] !== undefined) {
+        errors.push(`${field} cannot be changed through this endpoint`);
+      }
+    }
+
+    for (const field of ['name', 'location', 'city'] as const) {
+      if (data[field] !== undefined && (typeof data[field] !== 'string' || (data[field] as string).trim() === '')) {
+        errors.push(`${field.charAt(0).toUpperCase() + field.slice(1)} must be a non-empty string`);
+      }
+    }
+
+    errors.push(...this.validateMachineDetails(data));
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  // Length and format checks shared by create and update
+  private static validateMachineDetails(data: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+
+    if (typeof data.name === 'string' && data.name.length > MACHINE_CONFIG.MAX_NAME_LENGTH) {
+      errors.push(`Name must be at most ${MACHINE_CONFIG.MAX_NAME_LENGTH} characters`);
+    }
+
+    for (const field of ['location', 'address'] as const) {
+      const value = data[field];
+      if (value !== undefined && typeof value !== 'string') {
+        errors.push(`${field.charAt(0).toUpperCase() + field.slice(1)} must be a string`);
+      } else if (typeof value === 'string' && value.length > MACHINE_CONFIG.MAX_LOCATION_LENGTH) {
+        errors.push(`${field.charAt(0).toUpperCase() + field.slice(1)} must be at most ${MACHINE_CONFIG.MAX_LOCATION_LENGTH} characters`);
+      }
+    }
+
+    for (const field of ['city', 'state'] as const) {
+      const value = data[field];
+      if (value !== undefined && typeof value !== 'string') {
+        errors.push(`${field.charAt(0).toUpperCase() + field.slice(1)} must be a string`);
+      } else if (typeof value === 'string' && value.length > MACHINE_CONFIG.MAX_CITY_LENGTH) {
+        errors.push(`${field.charAt(0).toUpperCase() + field.slice(1)} must be at most ${MACHINE_CONFIG.MAX_CITY_LENGTH} characters`);
+      }
+    }
+
+    if (data.pincode !== undefined && (typeof data.pincode !== 'string' || !MACHINE_CONFIG.PINCODE_PATTERN.test(data.pincode))) {
+      errors.push('Pincode must be a 6 digit string');
+    }
+
+    if ((data.latitude === undefined) !== (data.longitude === undefined)) {
+      errors.push('Latitude and longitude must be provided together');
+    }
+    errors.push(...this.validateCoordinates(data.latitude, data.longitude));
+
+    if (data.apiEndpoint !== undefined) {
+      let validUrl = false;
+      if (typeof data.apiEndpoint === 'string') {
+        try {
+          const url = new URL(data.apiEndpoint);
+          validUrl = url.protocol === 'https:' || url.protocol === 'http:';
+        } catch {
+          validUrl = false;
+        }
+      }
+      if (!validUrl) {
+        errors.push('API endpoint must be a valid http(s) URL');
+      }
+    }
+
+    return errors;
+  }
+
+  // Range checks for optional coordinates
+  private static validateCoordinates(latitude: unknown, longitude: unknown): string[] {
+    const errors: string[] = [];
+
+    if (latitude !== undefined && (typeof latitude !== 'number' || !Number.isFinite(latitude) || latitude < -90 || latitude > 90)) {
+      errors.push('Latitude must be a number between -90 and 90');
+    }
+
+    if (longitude !== undefined && (typeof longitude !== 'number' || !Number.isFinite(longitude) || longitude < -180 || longitude > 180)) {
+      errors.push('Longitude must be a number between -180 and 180');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates nearby machine search parameters (already parsed from the query string)
+   */
+  static validateNearbySearch(params: {
+    latitude: number;
+    longitude: number;
+    radiusKm: number;
+  }): ValidationResult {
+    const errors = this.validateCoordinates(params.latitude, params.longitude);
+
+    if (!Number.isFinite(params.radiusKm) || params.radiusKm <= 0 || params.radiusKm > MACHINE_CONFIG.MAX_NEARBY_RADIUS_KM) {
+      errors.push(`Radius must be a positive number of kilometres up to ${MACHINE_CONFIG.MAX_NEARBY_RADIUS_KM}`);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validates heartbeat and telemetry reported by a machine
+   */
+  static validateHeartbeatRequest(data: {
+    version?: unknown;
+    temperature?: unknown;
+    waterLevel?: unknown;
+    errorCodes?: unknown;
+  }): ValidationResult {
+    const errors: string[] = [];
+
+    if (data.version !== undefined) {
+      if (typeof data.version !== 'string' || data.version.trim() === '') {
+        errors.push('Version must be a non-empty string');
+      } else if (data.version.length > MACHINE_HEARTBEAT_CONFIG.MAX_VERSION_LENGTH) {
+        errors.push(`Version must be at most ${MACHINE_HEARTBEAT_CONFIG.MAX_VERSION_LENGTH} characters`);
+      }
+    }
+
+    if (data.temperature !== undefined) {
+      if (typeof data.temperature !== 'number' || !Number.isFinite(data.temperature)) {
+        errors.push('Temperature must be a number');
+      } else if (data.temperature < MACHINE_HEARTBEAT_CONFIG.MIN_TEMPERATURE || data.temperature > MACHINE_HEARTBEAT_CONFIG.MAX_TEMPERATURE) {
+        errors.push(`Temperature must be between ${MACHINE_HEARTBEAT_CONFIG.MIN_TEMPERATURE} and ${MACHINE_HEARTBEAT_CONFIG.MAX_TEMPERATURE}`);
+      }
+    }
+
+    if (data.waterLevel !== undefined) {
+      if (typeof data.waterLevel !== 'number' || !Number.isInteger(data.waterLevel) || data.waterLevel < 0 || data.waterLevel > 100) {
+        errors.push('Water level must be an integer percentage between 0 and 100');
+      }
+    }
+
+    if (data.errorCodes !== undefined) {
+      if (!Array.isArray(data.errorCodes)) {
+        errors.push('Error codes must be an array of strings');
+      } else if (data.errorCodes.length > MACHINE_HEARTBEAT_CONFIG.MAX_ERROR_CODES) {
+        errors.push(`At most ${MACHINE_HEARTBEAT_CONFIG.MAX_ERROR_CODES} error codes can be reported`);
+      } else if (data.errorCodes.some((code) =>
+        typeof code !== 'string' || code.trim() === '' || code.length > MACHINE_HEARTBEAT_CONFIG.MAX_ERROR_CODE_LENGTH
+      )) {
+        errors.push(`Each error code must be a non-empty string of at most ${MACHINE_HEARTBEAT_CONFIG.MAX_ERROR_CODE_LENGTH} characters`);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
   /**
    * Validates pagination parameters
    */
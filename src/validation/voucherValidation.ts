@@ -0,0 +1,110 @@
+import { MACHINE_CONFIG, VOUCHER_PACKAGE_CONFIG } from '../config/constants';
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+export class VoucherValidation {
+  /**
+   * Validates a voucher package create/update request
+   * @param requireId - The package ID (code) is only set on create
+   */
+  static validatePackageRequest(data: Record<string, unknown>, requireId: boolean): ValidationResult {
+    const errors: string[] = [];
+
+    if (requireId && (typeof data.id !== 'string' || !VOUCHER_PACKAGE_CONFIG.ID_PATTERN.test(data.id))) {
+      errors.push('ID is required and must be 2-40 lowercase letters, digits or hyphens');
+    }
+
+    if (typeof data.name !== 'string' || data.name.trim() === '') {
+      errors.push('Name is required and must be a non-empty string');
+    } else if (data.name.length > VOUCHER_PACKAGE_CONFIG.MAX_NAME_LENGTH) {
+      errors.push(`Name must be at most ${VOUCHER_PACKAGE_CONFIG.MAX_NAME_LENGTH} characters`);
+    }
+
+    if (data.description != null &&
+      (typeof data.description !== 'string' || data.description.length > VOUCHER_PACKAGE_CONFIG.MAX_DESCRIPTION_LENGTH)) {
+      errors.push(`Description must be a string of at most ${VOUCHER_PACKAGE_CONFIG.MAX_DESCRIPTION_LENGTH} characters`);
+    }
+
+    if (typeof data.totalDrinks !== 'number' || !Number.isInteger(data.totalDrinks) ||
+      data.totalDrinks < 1 || data.totalDrinks > VOUCHER_PACKAGE_CONFIG.MAX_DRINKS) {
+      errors.push(`Total drinks is required and must be an integer between 1 and ${VOUCHER_PACKAGE_CONFIG.MAX_DRINKS}`);
+    }
+
+    if (typeof data.totalPrice !== 'number' || !Number.isFinite(data.totalPrice) ||
+      data.totalPrice <= 0 || data.totalPrice > VOUCHER_PACKAGE_CONFIG.MAX_TOTAL_PRICE) {
+      errors.push(`Total price is required and must be greater than 0 and at most ${VOUCHER_PACKAGE_CONFIG.MAX_TOTAL_PRICE}`);
+    }
+
+    if (data.originalPrice != null) {
+      if (typeof data.originalPrice !== 'number' || !Number.isFinite(data.originalPrice) || data.originalPrice <= 0) {
+        errors.push('Original price must be a positive number');
+      } else if (typeof data.totalPrice === 'number' && data.originalPrice < data.totalPrice) {
+        errors.push('Original price cannot be lower than the total price');
+      }
+    }
+
+    if (data.validityDays != null && (typeof data.validityDays !== 'number' || !Number.isInteger(data.validityDays) ||
+      data.validityDays < 1 || data.validityDays > VOUCHER_PACKAGE_CONFIG.MAX_VALIDITY_DAYS)) {
+      errors.push(`Validity days must be an integer between 1 and ${VOUCHER_PACKAGE_CONFIG.MAX_VALIDITY_DAYS}`);
+    }
+
+    if (data.validityStartsOnFirstUse !== undefined) {
+      if (typeof data.validityStartsOnFirstUse !== 'boolean') {
+        errors.push('validityStartsOnFirstUse must be a boolean');
+      } else if (data.validityStartsOnFirstUse && data.validityDays == null) {
+        errors.push('validityStartsOnFirstUse requires validityDays');
+      }
+    }
+
+    const availableFrom = this.parseDate(data.availableFrom);
+    const availableUntil = this.parseDate(data.availableUntil);
+    if (availableFrom === undefined) {
+      errors.push('availableFrom must be an ISO 8601 date');
+    }
+    if (availableUntil === undefined) {
+      errors.push('availableUntil must be an ISO 8601 date');
+    }
+    if (availableFrom && availableUntil && availableFrom >= availableUntil) {
+      errors.push('availableUntil must be after availableFrom');
+    }
+
+    if (data.cities !== undefined) {
+      if (!Array.isArray(data.cities) || data.cities.length > VOUCHER_PACKAGE_CONFIG.MAX_CITIES ||
+        data.cities.some((city) => typeof city !== 'string' || city.trim() === '' || city.length > MACHINE_CONFIG.MAX_CITY_LENGTH)) {
+        errors.push(`Cities must be a list of at most ${VOUCHER_PACKAGE_CONFIG.MAX_CITIES} non-empty city names`);
+      }
+    }
+
+    if (data.sortOrder !== undefined && (typeof data.sortOrder !== 'number' || !Number.isInteger(data.sortOrder))) {
+      errors.push('Sort order must be an integer');
+    }
+
+    if (data.recommended !== undefined && typeof data.recommended !== 'boolean') {
+      errors.push('recommended must be a boolean');
+    }
+
+    if (data.isActive !== undefined && typeof data.isActive !== 'boolean') {
+      errors.push('isActive must be a boolean');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  // null/undefined -> null (not set), invalid -> undefined
+  private static parseDate(value: unknown): Date | null | undefined {
+    if (value == null) {
+      return null;
+    }
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+}
@@ -0,0 +1,368 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+
+/**
+ * In-memory stand-in for the Prisma client, installed in place of src/config/database so unit
+ * tests never reach a database. Import it before any service. Tables support the query shapes the
+ * tested services use: equality, null, lt/lte/gt/gte/in filters, OR, compound unique keys,
+ * relation filters and `include`, unique constraints, `{ increment }`/`{ decrement }` updates,
+ * orderBy, and count/aggregate/groupBy sums.
+ */
+
+type Row = Record<string, any>;
+type Where = Record<string, any>;
+type OrderBy = Record<string, 'asc' | 'desc'>;
+
+// A relation is the rows of `table` whose `references` column equals this row's `field`
+interface Relation {
+  table: () => FakeTable;
+  field: string;
+  references: string;
+  many?: boolean;
+}
+
+function matchesFilter(value: any, filter: any): boolean {
+  if (filter === null || filter instanceof Date || typeof filter !== 'object') {
+    if (filter instanceof Date) {
+      return value instanceof Date && value.getTime() === filter.getTime();
+    }
+    return value === filter;
+  }
+
+  const compare = (operand: any) => (value instanceof Date ? value.getTime() : value) - (operand instanceof Date ? operand.getTime() : operand);
+
+  return Object.entries(filter).every(([operator, operand]) => {
+    switch (operator) {
+      case 'lt': return value !== null && compare(operand) < 0;
+      case 'lte': return value !== null && compare(operand) <= 0;
+      case 'gt': return value !== null && compare(operand) > 0;
+      case 'gte': return value !== null && compare(operand) >= 0;
+      case 'in': return (operand as any[]).includes(value);
+      default: throw new Error(`Unsupported filter operator: ${operator}`);
+    }
+  });
+}
+
+function applyData(row: Row, data: Row): void {
+  for (const [field, value] of Object.entries(data)) {
+    if (value !== null && typeof value === 'object' && 'increment' in value) {
+      row[field] = Number(row[field] ?? 0) + Number(value.increment);
+    } else if (value !== null && typeof value === 'object' && 'decrement' in value) {
+      row[field] = Number(row[field] ?? 0) - Number(value.decrement);
+    } else if (value !== undefined) {
+      row[field] = value;
+    }
+  }
+}
+
+function sortRows(rows: Row[], orderBy: OrderBy | OrderBy[] = []): Row[] {
+  const orders = Array.isArray(orderBy) ? orderBy : [orderBy];
+  return [...rows].sort((a, b) => {
+    for (const order of orders) {
+      const [field, direction] = Object.entries(order)[0];
+      const difference = (a[field] ?? 0) < (b[field] ?? 0) ? -1 : (a[field] ?? 0) > (b[field] ?? 0) ? 1 : 0;
+      if (difference !== 0) {
+        return direction === 'desc' ? -difference : difference;
+      }
+    }
+    return 0;
+  });
+}
+
+// Sums the requested numeric fields; like Prisma, a sum over no rows is null
+function sumFields(rows: Row[], fields: Row): Row {
+  return Object.fromEntries(Object.keys(fields).map((field) => [
+    field,
+    rows.length === 0 ? null : rows.reduce((total, row) => total + Number(row[field] ?? 0), 0),
+  ]));
+}
+
+class FakeTable {
+  rows: Row[] = [];
+
+  constructor(
+    private readonly defaults: () => Row,
+    private readonly options: { unique?: string[][]; relations?: Record<string, Relation> } = {}
+  ) {}
+
+  async findUnique({ where, include }: { where: Where; include?: Row }): Promise<Row | null> {
+    const row = this.rows.find((candidate) => this.matches(candidate, where));
+    return row ? this.withRelations(row, include) : null;
+  }
+
+  async findUniqueOrThrow(args: { where: Where; include?: Row }): Promise<Row> {
+    const row = await this.findUnique(args);
+    if (!row) {
+      throw new Error('Record not found');
+    }
+    return row;
+  }
+
+  async findFirst({ where, include }: { where?: Where; include?: Row } = {}): Promise<Row | null> {
+    const row = this.rows.find((candidate) => this.matches(candidate, where));
+    return row ? this.withRelations(row, include) : null;
+  }
+
+  async findMany({ where, include, orderBy, take }: { where?: Where; include?: Row; orderBy?: OrderBy | OrderBy[]; take?: number } = {}): Promise<Row[]> {
+    const rows = sortRows(this.rows.filter((row) => this.matches(row, where)), orderBy);
+    return rows.slice(0, take ?? rows.length).map((row) => this.withRelations(row, include));
+  }
+
+  async count({ where }: { where?: Where } = {}): Promise<number> {
+    return this.rows.filter((row) => this.matches(row, where)).length;
+  }
+
+  async aggregate({ where, _sum = {} }: { where?: Where; _sum?: Row }): Promise<{ _sum: Row }> {
+    return { _sum: sumFields(this.rows.filter((row) => this.matches(row, where)), _sum) };
+  }
+
+  async groupBy({ by, where, _sum = {} }: { by: string[]; where?: Where; _sum?: Row }): Promise<Row[]> {
+    const groups = new Map<string, Row[]>();
+    for (const row of this.rows.filter((candidate) => this.matches(candidate, where))) {
+      const key = JSON.stringify(by.map((field) => row[field] ?? null));
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+
+    return [...groups.values()].map((rows) => ({
+      ...Object.fromEntries(by.map((field) => [field, rows[0][field] ?? null])),
+      _sum: sumFields(rows, _sum),
+    }));
+  }
+
+  async create({ data }: { data: Row }): Promise<Row> {
+    const row = { ...this.defaults() };
+    applyData(row, data);
+
+    const violated = this.options.unique?.find((fields) =>
+      this.rows.some((existing) => fields.every((field) => existing[field] === row[field]))
+    );
+    if (violated) {
+      throw new Prisma.PrismaClientKnownRequestError(`Unique constraint failed on the fields: (${violated.join(', ')})`, {
+        code: 'P2002',
+        clientVersion: Prisma.prismaVersion.client,
+      });
+    }
+
+    this.rows.push(row);
+    return { ...row };
+  }
+
+  async update({ where, data }: { where: Where; data: Row }): Promise<Row> {
+    const row = this.rows.find((candidate) => this.matches(candidate, where));
+    if (!row) {
+      throw new Error('Record to update not found');
+    }
+    applyData(row, { updatedAt: new Date(), ...data });
+    return { ...row };
+  }
+
+  async updateMany({ where, data }: { where?: Where; data: Row }): Promise<{ count: number }> {
+    const matched = this.rows.filter((row) => this.matches(row, where));
+    matched.forEach((row) => applyData(row, { updatedAt: new Date(), ...data }));
+    return { count: matched.length };
+  }
+
+  async upsert({ where, create, update }: { where: Where; create: Row; update: Row }): Promise<Row> {
+    const existing = this.rows.find((candidate) => this.matches(candidate, where));
+    if (existing) {
+      applyData(existing, { updatedAt: new Date(), ...update });
+      return { ...existing };
+    }
+    return this.create({ data: create });
+  }
+
+  async deleteMany({ where }: { where?: Where } = {}): Promise<{ count: number }> {
+    const before = this.rows.length;
+    this.rows = this.rows.filter((row) => !this.matches(row, where));
+    return { count: before - this.rows.length };
+  }
+
+  matches(row: Row, where: Where = {}): boolean {
+    return Object.entries(where).every(([field, filter]) => {
+      if (field === 'OR') {
+        return (filter as Where[]).some((clause) => this.matches(row, clause));
+      }
+
+      const relation = this.options.relations?.[field];
+      if (relation) {
+        const related = this.related(row, relation);
+        if (!relation.many) {
+          return related.length > 0 && relation.table().matches(related[0], filter);
+        }
+        const { some, none, every } = filter as { some?: Where; none?: Where; every?: Where };
+        return (
+          (some === undefined || related.some((candidate) => relation.table().matches(candidate, some))) &&
+          (none === undefined || !related.some((candidate) => relation.table().matches(candidate, none))) &&
+          (every === undefined || related.every((candidate) => relation.table().matches(candidate, every)))
+        );
+      }
+
+      // Compound unique keys such as provider_merchantTransactionId_state
+      if (field.includes('_') && filter !== null && typeof filter === 'object') {
+        return this.matches(row, filter);
+      }
+
+      return matchesFilter(row[field] ?? null, filter);
+    });
+  }
+
+  private related(row: Row, relation: Relation): Row[] {
+    const value = row[relation.field];
+    return value === null || value === undefined
+      ? []
+      : relation.table().rows.filter((candidate) => candidate[relation.references] === value);
+  }
+
+  // Copies a row with the relations named in `include` attached; nested `where` and `include` are honoured
+  withRelations(row: Row, include: Row = {}): Row {
+    const copy = { ...row };
+    for (const [name, wanted] of Object.entries(include)) {
+      const relation = this.options.relations?.[name];
+      if (!wanted || !relation) {
+        continue;
+      }
+      const nested = typeof wanted === 'object' ? wanted : {};
+      const related = this.related(row, relation)
+        .filter((candidate) => relation.table().matches(candidate, nested.where))
+        .map((candidate) => relation.table().withRelations(candidate, nested.include));
+      copy[name] = relation.many ? related : related[0] ?? null;
+    }
+    return copy;
+  }
+}
+
+const timestamps = (): Row => ({ createdAt: new Date(), updatedAt: new Date() });
+
+class FakePrismaClient {
+  otpCode = new FakeTable(() => ({
+    id: crypto.randomUUID(),
+    attempts: 0,
+    used: false,
+    deviceFingerprintHash: null,
+    ...timestamps(),
+  }));
+
+  otpPhoneThrottle = new FakeTable(() => ({
+    id: crypto.randomUUID(),
+    failedAttempts: 0,
+    lockoutCount: 0,
+    lockedUntil: null,
+    lastFailedAt: null,
+    ...timestamps(),
+  }));
+
+  userSession = new FakeTable(() => ({
+    id: crypto.randomUUID(),
+    deviceName: null,
+    ipAddress: null,
+    userAgent: null,
+    location: null,
+    rotatedAt: null,
+    revokedAt: null,
+    revokedReason: null,
+    lastUsedAt: new Date(),
+    ...timestamps(),
+  }));
+
+  order = new FakeTable(() => ({
+    id: crypto.randomUUID(),
+    orderType: 'VOUCHER_PURCHASE',
+    packageSnapshot: null,
+    topupVoucherId: null,
+    topupExpiryDays: null,
+    status: 'PENDING',
+    paymentStatus: 'PENDING',
+    ...timestamps(),
+  }), {
+    relations: {
+      transactions: { table: (): FakeTable => this.transaction, field: 'id', references: 'orderId', many: true },
+      drinkVouchers: { table: (): FakeTable => this.drinkVoucher, field: 'id', references: 'orderId', many: true },
+      topupVoucher: { table: (): FakeTable => this.drinkVoucher, field: 'topupVoucherId', references: 'id' },
+    },
+  });
+
+  transaction = new FakeTable(() => ({
+    id: crypto.randomUUID(),
+    orderId: null,
+    status: 'PENDING',
+    type: 'PAYMENT',
+    parentTransactionId: null,
+    refundedDrinks: null,
+    phonepeTransactionId: null,
+    phonepeMerchantId: null,
+    failureReason: null,
+    processedAt: null,
+    ...timestamps(),
+  }), {
+    relations: {
+      order: { table: (): FakeTable => this.order, field: 'orderId', references: 'id' },
+      parentTransaction: { table: (): FakeTable => this.transaction, field: 'parentTransactionId', references: 'id' },
+      refunds: { table: (): FakeTable => this.transaction, field: 'id', references: 'parentTransactionId', many: true },
+    },
+  });
+
+  drinkVoucher = new FakeTable(() => ({
+    id: crypto.randomUUID(),
+    consumedDrinks: 0,
+    status: 'ACTIVE',
+    isActivated: false,
+    purchaseDate: new Date(),
+    firstUsedAt: null,
+    expiryDate: null,
+    firstUseValidityDays: null,
+    version: 1,
+    orderId: null,
+    ...timestamps(),
+  }));
+
+  consumption = new FakeTable(() => ({
+    id: crypto.randomUUID(),
+    status: 'COMPLETED',
+    consumedAt: new Date(),
+    ...timestamps(),
+  }));
+
+  paymentWebhookEvent = new FakeTable(() => ({
+    id: crypto.randomUUID(),
+    provider: 'phonepe',
+    status: 'PENDING',
+    attempts: 0,
+    nextAttemptAt: null,
+    lastError: null,
+    resultMessage: null,
+    receivedCount: 1,
+    transactionId: null,
+    processedAt: null,
+    deadLetteredAt: null,
+    ...timestamps(),
+  }), {
+    unique: [['provider', 'merchantTransactionId', 'state']],
+  });
+
+  // Runs interactive transactions against the same tables
+  async $transaction<T>(fn: (tx: this) => Promise<T>): Promise<T> {
+    return fn(this);
+  }
+}
+
+export const fakePrisma = new FakePrismaClient();
+
+// Empties every table between tests
+export function resetFakeDatabase(): void {
+  for (const table of Object.values(fakePrisma)) {
+    if (table instanceof FakeTable) {
+      table.rows = [];
+    }
+  }
+}
+
+const databaseModule = require.resolve('../../src/config/database');
+require.cache[databaseModule] = {
+  id: databaseModule,
+  filename: databaseModule,
+  loaded: true,
+  exports: {
+    prisma: fakePrisma,
+    disconnectDatabase: async () => undefined,
+  },
+} as NodeJS.Module;
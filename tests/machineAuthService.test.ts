@@ -0,0 +1,126 @@
+import './helpers/fakeDatabase';
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MachineAuthService } from '../src/services/machineAuthService';
+import { MACHINE_AUTH_CONFIG } from '../src/config/constants';
+
+const signingKey = MachineAuthService.hashApiKey('ssmk_test_key');
+
+const request = {
+  method: 'post',
+  path: '/api/machines/ack?attempt=1',
+  timestamp: '1760000000',
+  nonce: 'nonce_0123456789abcdef',
+  body: '{"sessionId":"abc"}',
+};
+
+describe('MachineAuthService request signing', () => {
+  it('accepts a signature computed over the same request', () => {
+    const signingString = MachineAuthService.buildSigningString(request);
+    const signature = MachineAuthService.computeSignature(signingKey, signingString);
+
+    assert.equal(MachineAuthService.verifySignature(signingKey, signingString, signature), true);
+  });
+
+  it('upper-cases the method and hashes the raw body into the signing string', () => {
+    const signingString = MachineAuthService.buildSigningString(request);
+    const lines = signingString.split('\n');
+
+    assert.equal(lines.length, 5);
+    assert.equal(lines[0], 'POST');
+    assert.equal(lines[1], request.path);
+    assert.match(lines[4], /^[0-9a-f]{64}$/);
+    assert.equal(
+      MachineAuthService.buildSigningString({ ...request, body: Buffer.from(request.body) }),
+      signingString
+    );
+  });
+
+  it('rejects a signature when any signed field changes', () => {
+    const signature = MachineAuthService.computeSignature(signingKey, MachineAuthService.buildSigningString(request));
+
+    for (const change of [
+      { method: 'GET' },
+      { path: '/api/machines/ack?attempt=2' },
+      { timestamp: '1760000001' },
+      { nonce: 'nonce_fedcba9876543210' },
+      { body: '{"sessionId":"abd"}' },
+    ]) {
+      const tampered = MachineAuthService.buildSigningString({ ...request, ...change });
+      assert.equal(MachineAuthService.verifySignature(signingKey, tampered, signature), false, JSON.stringify(change));
+    }
+  });
+
+  it('rejects signatures made with another key or of the wrong length', () => {
+    const signingString = MachineAuthService.buildSigningString(request);
+    const otherKey = MachineAuthService.hashApiKey('ssmk_other_key');
+    const signature = MachineAuthService.computeSignature(otherKey, signingString);
+
+    assert.equal(MachineAuthService.verifySignature(signingKey, signingString, signature), false);
+    assert.equal(MachineAuthService.verifySignature(signingKey, signingString, signature.slice(0, 32)), false);
+    assert.equal(MachineAuthService.verifySignature(signingKey, signingString, ''), false);
+  });
+});
+
+describe('MachineAuthService timestamps and nonces', () => {
+  it('accepts timestamps inside the tolerance window in either direction', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = MACHINE_AUTH_CONFIG.TIMESTAMP_TOLERANCE_SECONDS;
+
+    assert.equal(MachineAuthService.isTimestampFresh(String(now)), true);
+    assert.equal(MachineAuthService.isTimestampFresh(String(now - tolerance + 5)), true);
+    assert.equal(MachineAuthService.isTimestampFresh(String(now + tolerance - 5)), true);
+  });
+
+  it('rejects stale, future and malformed timestamps', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = MACHINE_AUTH_CONFIG.TIMESTAMP_TOLERANCE_SECONDS;
+
+    assert.equal(MachineAuthService.isTimestampFresh(String(now - tolerance - 5)), false);
+    assert.equal(MachineAuthService.isTimestampFresh(String(now + tolerance + 5)), false);
+    assert.equal(MachineAuthService.isTimestampFresh(`${now}.5`), false);
+    assert.equal(MachineAuthService.isTimestampFresh('-1'), false);
+    assert.equal(MachineAuthService.isTimestampFresh(''), false);
+  });
+
+  it('validates nonce length and characters', () => {
+    assert.equal(MachineAuthService.isValidNonce('a'.repeat(MACHINE_AUTH_CONFIG.MIN_NONCE_LENGTH)), true);
+    assert.equal(MachineAuthService.isValidNonce('a'.repeat(MACHINE_AUTH_CONFIG.MIN_NONCE_LENGTH - 1)), false);
+    assert.equal(MachineAuthService.isValidNonce('a'.repeat(MACHINE_AUTH_CONFIG.MAX_NONCE_LENGTH + 1)), false);
+    assert.equal(MachineAuthService.isValidNonce('nonce with spaces!'), false);
+  });
+});
+
+describe('MachineAuthService signing key storage', () => {
+  const originalSecret = process.env.MACHINE_KEY_ENCRYPTION_SECRET;
+
+  afterEach(() => {
+    if (originalSecret === undefined) {
+      delete process.env.MACHINE_KEY_ENCRYPTION_SECRET;
+    } else {
+      process.env.MACHINE_KEY_ENCRYPTION_SECRET = originalSecret;
+    }
+  });
+
+  it('round-trips an encrypted signing key without storing it in the clear', () => {
+    const stored = MachineAuthService.encryptSigningKey(signingKey);
+
+    assert.ok(stored.startsWith(`${MACHINE_AUTH_CONFIG.ENCRYPTED_KEY_PREFIX}:`));
+    assert.ok(!stored.includes(signingKey));
+    assert.equal(MachineAuthService.decryptSigningKey(stored), signingKey);
+  });
+
+  it('refuses tampered values and values encrypted under another secret', () => {
+    const stored = MachineAuthService.encryptSigningKey(signingKey);
+    const [prefix, iv, authTag, ciphertext] = stored.split(':');
+    const flipped = Buffer.from(ciphertext, 'base64url');
+    flipped[0] ^= 0xff;
+
+    assert.equal(MachineAuthService.decryptSigningKey([prefix, iv, authTag, flipped.toString('base64url')].join(':')), null);
+    assert.equal(MachineAuthService.decryptSigningKey(`${prefix}:${iv}:${authTag}`), null);
+    assert.equal(MachineAuthService.decryptSigningKey('not-a-key'), null);
+
+    process.env.MACHINE_KEY_ENCRYPTION_SECRET = 'a_different_machine_key_encryption_secret';
+    assert.equal(MachineAuthService.decryptSigningKey(stored), null);
+  });
+});
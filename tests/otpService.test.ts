@@ -0,0 +1,135 @@
+import { fakePrisma, resetFakeDatabase } from './helpers/fakeDatabase';
+import { describe, it, before, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { OtpService } from '../src/services/otpService';
+import { SmsService } from '../src/services/smsService';
+import { AUTH_CONFIG, ERROR_CODES } from '../src/config/constants';
+
+const phone = '+919876543210';
+const correctCode = '000000'; // Development OTP used when NODE_ENV=test
+const wrongCode = '123456';
+
+// Sends a new OTP, which invalidates the previous one
+async function requestOtp(deviceFingerprint?: string): Promise<string> {
+  const { otpRequestId } = await OtpService.sendOtp(phone, undefined, deviceFingerprint);
+  return otpRequestId;
+}
+
+// Enters wrong codes, requesting a new OTP whenever the current one is used up
+async function failTimes(count: number) {
+  let result;
+  let requestId = await requestOtp();
+  for (let i = 1; i <= count; i++) {
+    result = await OtpService.verifyOtp(phone, requestId, wrongCode);
+    if (i % AUTH_CONFIG.MAX_OTP_VERIFY_ATTEMPTS === 0) {
+      requestId = await requestOtp();
+    }
+  }
+  return result!;
+}
+
+function throttle() {
+  return fakePrisma.otpPhoneThrottle.rows.find((row) => row.phone === phone)!;
+}
+
+describe('OtpService attempts and lockout', () => {
+  before(() => {
+    process.env.SMS_PROVIDER = 'console';
+    SmsService.initialize();
+    mock.method(console, 'log', () => undefined);
+  });
+
+  beforeEach(() => {
+    resetFakeDatabase();
+  });
+
+  it('texts the code and stores only a hash of it', async () => {
+    await requestOtp();
+
+    const [sms] = SmsService.getSentMessages(phone)!.slice(-1);
+    assert.ok(sms.body.includes(correctCode));
+    assert.ok(!JSON.stringify(fakePrisma.otpCode.rows).includes(`"${correctCode}"`));
+  });
+
+  it('accepts the right code once and clears the phone failure count', async () => {
+    const requestId = await requestOtp();
+    await OtpService.verifyOtp(phone, requestId, wrongCode);
+
+    assert.deepEqual(await OtpService.verifyOtp(phone, requestId, correctCode), { success: true });
+    assert.equal(throttle(), undefined);
+    assert.equal((await OtpService.verifyOtp(phone, requestId, correctCode)).code, ERROR_CODES.OTP_INVALID);
+  });
+
+  it('counts down the attempts left and invalidates the OTP after the last one', async () => {
+    const requestId = await requestOtp();
+
+    for (let remaining = AUTH_CONFIG.MAX_OTP_VERIFY_ATTEMPTS - 1; remaining >= 0; remaining--) {
+      const result = await OtpService.verifyOtp(phone, requestId, wrongCode);
+      assert.equal(result.code, ERROR_CODES.OTP_INVALID);
+      assert.equal(result.attemptsRemaining, remaining);
+    }
+
+    const afterLimit = await OtpService.verifyOtp(phone, requestId, correctCode);
+    assert.equal(afterLimit.success, false);
+    assert.equal(afterLimit.error, 'Invalid or expired OTP code');
+  });
+
+  it('counts a code entered from another device as wrong', async () => {
+    const requestId = await requestOtp('device-a');
+
+    const result = await OtpService.verifyOtp(phone, requestId, correctCode, undefined, 'device-b');
+
+    assert.equal(result.success, false);
+    assert.equal(result.attemptsRemaining, AUTH_CONFIG.MAX_OTP_VERIFY_ATTEMPTS - 1);
+    assert.deepEqual(await OtpService.verifyOtp(phone, requestId, correctCode, undefined, 'device-a'), { success: true });
+  });
+
+  it('locks the phone out when the per-phone failure limit is reached', async () => {
+    const beforeLimit = await failTimes(AUTH_CONFIG.MAX_FAILED_OTP_ATTEMPTS_PER_PHONE - 1);
+    assert.equal(beforeLimit.code, ERROR_CODES.OTP_INVALID);
+
+    const atLimit = await OtpService.verifyOtp(phone, await requestOtp(), wrongCode);
+    assert.equal(atLimit.code, ERROR_CODES.OTP_RATE_LIMITED);
+    assert.ok(Math.abs(atLimit.retryAfterSeconds! - AUTH_CONFIG.OTP_LOCKOUT_BASE_MS / 1000) <= 1);
+
+    // Even the right code is refused while the lockout runs
+    const locked = await OtpService.verifyOtp(phone, await requestOtp(), correctCode);
+    assert.equal(locked.code, ERROR_CODES.OTP_RATE_LIMITED);
+    assert.ok(await OtpService.getLockout(phone));
+  });
+
+  it('doubles the lockout for each further lockout', async () => {
+    await failTimes(AUTH_CONFIG.MAX_FAILED_OTP_ATTEMPTS_PER_PHONE);
+    throttle().lockedUntil = new Date(Date.now() - 1000);
+
+    const second = await failTimes(AUTH_CONFIG.MAX_FAILED_OTP_ATTEMPTS_PER_PHONE);
+
+    assert.equal(second.code, ERROR_CODES.OTP_RATE_LIMITED);
+    assert.ok(Math.abs(second.retryAfterSeconds! - (AUTH_CONFIG.OTP_LOCKOUT_BASE_MS * 2) / 1000) <= 1);
+    assert.equal(throttle().lockoutCount, 2);
+  });
+
+  it('caps the lockout length', async () => {
+    await failTimes(AUTH_CONFIG.MAX_FAILED_OTP_ATTEMPTS_PER_PHONE - 1);
+    throttle().lockoutCount = 20;
+
+    const result = await OtpService.verifyOtp(phone, await requestOtp(), wrongCode);
+
+    assert.equal(result.code, ERROR_CODES.OTP_RATE_LIMITED);
+    assert.ok(Math.abs(result.retryAfterSeconds! - AUTH_CONFIG.OTP_LOCKOUT_MAX_MS / 1000) <= 1);
+  });
+
+  it('forgets old failures and lockout history', async () => {
+    await failTimes(AUTH_CONFIG.MAX_FAILED_OTP_ATTEMPTS_PER_PHONE - 1);
+    Object.assign(throttle(), {
+      lockoutCount: 3,
+      lastFailedAt: new Date(Date.now() - AUTH_CONFIG.OTP_FAILURE_RESET_MS - 60 * 1000),
+    });
+
+    const result = await OtpService.verifyOtp(phone, await requestOtp(), wrongCode);
+
+    assert.equal(result.code, ERROR_CODES.OTP_INVALID);
+    assert.equal(throttle().failedAttempts, 1);
+    assert.equal(throttle().lockoutCount, 0);
+  });
+});
@@ -0,0 +1,122 @@
+import { fakePrisma, resetFakeDatabase } from './helpers/fakeDatabase';
+import { describe, it, before, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { PaymentWebhookService } from '../src/services/paymentWebhookService';
+import { PaymentService } from '../src/services/paymentService';
+import { VoucherService } from '../src/services/voucherService';
+import { WEBHOOK_CONFIG } from '../src/config/constants';
+import { PaymentStatusResponse } from '../src/types/payment.types';
+
+const userId = 'user-1';
+
+async function createPendingOrder(merchantTransactionIds: string[] = ['MT-1']) {
+  const order = await fakePrisma.order.create({
+    data: { userId, orderNumber: 'ORD-1', totalDrinks: 10, totalAmount: 500 },
+  });
+  for (const phonepeMerchantId of merchantTransactionIds) {
+    await fakePrisma.transaction.create({
+      data: { userId, orderId: order.id, amount: 500, phonepeMerchantId },
+    });
+  }
+  return order;
+}
+
+function statusResponse(merchantTransactionId: string, state: 'COMPLETED' | 'FAILED'): PaymentStatusResponse {
+  return {
+    success: true,
+    code: state === 'COMPLETED' ? 'PAYMENT_SUCCESS' : 'PAYMENT_ERROR',
+    message: state === 'COMPLETED' ? 'Payment successful' : 'Payment failed',
+    data: {
+      merchantId: 'SIMULATEDMERCHANT',
+      merchantTransactionId,
+      transactionId: `PG-${merchantTransactionId}`,
+      amount: 50000,
+      state,
+      responseCode: state === 'COMPLETED' ? 'SUCCESS' : 'PAYMENT_ERROR',
+      paymentInstrument: { type: 'UPI' },
+    },
+  };
+}
+
+function attempt(merchantTransactionId: string) {
+  return fakePrisma.transaction.rows.find((row) => row.phonepeMerchantId === merchantTransactionId)!;
+}
+
+describe('PaymentWebhookService event inbox', () => {
+  before(() => {
+    process.env.PAYMENT_PROVIDER = 'simulated';
+    PaymentService.initialize();
+    mock.method(console, 'error', () => undefined);
+  });
+
+  beforeEach(() => {
+    resetFakeDatabase();
+  });
+
+  it('applies a payment once however many times its state is reported', async () => {
+    await createPendingOrder();
+
+    const first = await PaymentWebhookService.applyStatusCheck('MT-1', statusResponse('MT-1', 'COMPLETED'));
+    const second = await PaymentWebhookService.applyStatusCheck('MT-1', statusResponse('MT-1', 'COMPLETED'));
+
+    assert.equal(first!.status, 'PROCESSED');
+    assert.equal(second!.id, first!.id);
+    assert.equal(second!.receivedCount, 2);
+    assert.equal(fakePrisma.paymentWebhookEvent.rows.length, 1);
+    assert.equal(fakePrisma.drinkVoucher.rows.length, 1);
+    assert.equal(fakePrisma.order.rows[0].status, 'COMPLETED');
+    assert.equal(attempt('MT-1').status, 'SUCCESS');
+    assert.equal(fakePrisma.paymentWebhookEvent.rows[0].transactionId, attempt('MT-1').id);
+  });
+
+  it('dead-letters money received on an attempt after another attempt paid the order', async () => {
+    await createPendingOrder(['MT-1', 'MT-2']);
+    await PaymentWebhookService.applyStatusCheck('MT-1', statusResponse('MT-1', 'COMPLETED'));
+
+    const event = await PaymentWebhookService.applyStatusCheck('MT-2', statusResponse('MT-2', 'COMPLETED'));
+
+    assert.equal(event!.status, 'DEAD_LETTER');
+    assert.ok(event!.deadLetteredAt);
+    assert.match(event!.lastError!, /refund it through the gateway/);
+    assert.equal(attempt('MT-2').status, 'PENDING');
+    assert.equal(fakePrisma.drinkVoucher.rows.length, 1);
+  });
+
+  it('closes a failed attempt and fails the order payment once no attempt is open', async () => {
+    await createPendingOrder(['MT-1', 'MT-2']);
+
+    const first = await PaymentWebhookService.applyStatusCheck('MT-1', statusResponse('MT-1', 'FAILED'));
+    assert.equal(first!.status, 'PROCESSED');
+    assert.equal(attempt('MT-1').status, 'FAILED');
+    assert.equal(attempt('MT-1').failureReason, 'Payment failed');
+    assert.equal(fakePrisma.order.rows[0].paymentStatus, 'PENDING');
+
+    await PaymentWebhookService.applyStatusCheck('MT-2', statusResponse('MT-2', 'FAILED'));
+    assert.equal(fakePrisma.order.rows[0].status, 'PENDING');
+    assert.equal(fakePrisma.order.rows[0].paymentStatus, 'FAILED');
+  });
+
+  it('backs off after a failed attempt and dead-letters the event after the last one', async (t) => {
+    await createPendingOrder();
+    t.mock.method(VoucherService, 'completeVoucherPurchase', async () => {
+      throw new Error('Database unavailable');
+    });
+
+    const failed = await PaymentWebhookService.applyStatusCheck('MT-1', statusResponse('MT-1', 'COMPLETED'));
+    assert.equal(failed!.status, 'FAILED');
+    assert.equal(failed!.lastError, 'Database unavailable');
+    assert.ok(failed!.nextAttemptAt!.getTime() > Date.now());
+
+    // Not due yet, so a retry sweep leaves it alone
+    assert.equal(await PaymentWebhookService.processEvent(failed!.id), null);
+
+    let event = failed;
+    for (let attempts = 2; attempts <= WEBHOOK_CONFIG.MAX_ATTEMPTS; attempts++) {
+      event = await PaymentWebhookService.processEvent(failed!.id, { ignoreBackoff: true });
+    }
+
+    assert.equal(event!.status, 'DEAD_LETTER');
+    assert.equal(event!.attempts, WEBHOOK_CONFIG.MAX_ATTEMPTS);
+    assert.equal(fakePrisma.order.rows[0].status, 'PENDING');
+  });
+});
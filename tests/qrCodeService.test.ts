@@ -0,0 +1,133 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { QRCodeService, QRCodePayload } from '../src/services/qrCodeService';
+
+const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+
+const payload: QRCodePayload = {
+  machineQrCode: 'QR_VM_GYM_ANDHERI_01',
+  sessionId: '3f0c6f9e-8d7a-4c61-9a1e-6f1f0f4b2a10',
+  drinkType: 'PROTEIN_SHAKE',
+  drinkFlavour: 'CHOCOLATE',
+  price: 120,
+  expiresAt: inMinutes(5),
+};
+
+// Re-signs a QR payload as someone who knows the secret would
+function resign(body: object): string {
+  const signedPart = `SS2.${Buffer.from(JSON.stringify(body)).toString('base64url')}`;
+  const secret = process.env.QR_SIGNING_SECRET || 'your_super_secret_qr_signing_key_change_this_in_production';
+  return `${signedPart}.${crypto.createHmac('sha256', secret).update(signedPart).digest('base64url')}`;
+}
+
+function decodeBody(qrCode: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(qrCode.split('.')[1], 'base64url').toString('utf-8'));
+}
+
+describe('QRCodeService signed QR codes', () => {
+  const originalSecret = process.env.QR_SIGNING_SECRET;
+
+  afterEach(() => {
+    if (originalSecret === undefined) {
+      delete process.env.QR_SIGNING_SECRET;
+    } else {
+      process.env.QR_SIGNING_SECRET = originalSecret;
+    }
+  });
+
+  it('parses a QR code it signed', () => {
+    const result = QRCodeService.verifyAndParse(QRCodeService.sign(payload));
+
+    assert.deepEqual(result, {
+      valid: true,
+      data: {
+        format: 'SS2',
+        machineQrCode: payload.machineQrCode,
+        sessionId: payload.sessionId,
+        drinkType: payload.drinkType,
+        drinkFlavour: payload.drinkFlavour,
+        price: payload.price,
+      },
+    });
+  });
+
+  it('gives every QR code a fresh nonce', () => {
+    assert.notEqual(QRCodeService.sign(payload), QRCodeService.sign(payload));
+  });
+
+  it('rejects a QR code whose payload was edited', () => {
+    const qrCode = QRCodeService.sign(payload);
+    const [prefix, , signature] = qrCode.split('.');
+    const cheaper = Buffer.from(JSON.stringify({ ...decodeBody(qrCode), p: 1 })).toString('base64url');
+
+    assert.deepEqual(QRCodeService.verifyAndParse(`${prefix}.${cheaper}.${signature}`), {
+      valid: false,
+      error: 'Invalid QR code signature',
+    });
+  });
+
+  it('rejects a QR code signed with another secret', () => {
+    process.env.QR_SIGNING_SECRET = 'another_qr_signing_secret_used_by_someone_else';
+    const qrCode = QRCodeService.sign(payload);
+    process.env.QR_SIGNING_SECRET = 'the_qr_signing_secret_the_server_actually_uses';
+
+    assert.equal(QRCodeService.verifyAndParse(qrCode).error, 'Invalid QR code signature');
+  });
+
+  it('rejects malformed signed QR codes', () => {
+    const qrCode = QRCodeService.sign(payload);
+
+    assert.equal(QRCodeService.verifyAndParse(`${qrCode}.extra`).error, 'Invalid QR code format');
+    assert.equal(QRCodeService.verifyAndParse(qrCode.slice(0, -1)).valid, false);
+    assert.equal(QRCodeService.verifyAndParse('SS2.').valid, false);
+  });
+
+  it('rejects expired QR codes', () => {
+    const result = QRCodeService.verifyAndParse(QRCodeService.sign({ ...payload, expiresAt: inMinutes(-1) }));
+
+    assert.deepEqual(result, { valid: false, error: 'QR code has expired' });
+  });
+
+  it('rejects QR codes without an expiry or with another payload version', () => {
+    const body = decodeBody(QRCodeService.sign(payload));
+
+    assert.equal(QRCodeService.verifyAndParse(resign({ ...body, exp: undefined })).error, 'QR code has expired');
+    assert.equal(QRCodeService.verifyAndParse(resign({ ...body, v: 1 })).error, 'Unsupported QR code version');
+  });
+});
+
+describe('QRCodeService legacy QR codes', () => {
+  const legacyQrCode = 'QR_VM_GYM_ANDHERI_01|SESSION:abc|DRINK:WATER|FLAVOUR:VANILLA|PRICE:25';
+  const originalSetting = process.env.QR_ALLOW_LEGACY_FORMAT;
+
+  afterEach(() => {
+    if (originalSetting === undefined) {
+      delete process.env.QR_ALLOW_LEGACY_FORMAT;
+    } else {
+      process.env.QR_ALLOW_LEGACY_FORMAT = originalSetting;
+    }
+  });
+
+  it('rejects the legacy format unless it is enabled', () => {
+    delete process.env.QR_ALLOW_LEGACY_FORMAT;
+
+    assert.equal(QRCodeService.verifyAndParse(legacyQrCode).valid, false);
+  });
+
+  it('parses the legacy format while it is enabled', () => {
+    process.env.QR_ALLOW_LEGACY_FORMAT = 'true';
+
+    assert.deepEqual(QRCodeService.verifyAndParse(legacyQrCode), {
+      valid: true,
+      data: {
+        format: 'LEGACY',
+        machineQrCode: 'QR_VM_GYM_ANDHERI_01',
+        sessionId: 'abc',
+        drinkType: 'WATER',
+        drinkFlavour: 'VANILLA',
+        price: 25,
+      },
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { fakePrisma, resetFakeDatabase } from './helpers/fakeDatabase';
+import { describe, it, before, beforeEach, mock, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { RefundService } from '../src/services/refundService';
+import { PaymentService } from '../src/services/paymentService';
+import { RefundRequest, RefundResponse } from '../src/types/payment.types';
+
+const userId = 'user-1';
+
+// A paid 10-drink order for ₹500 whose voucher has some drinks consumed
+async function createPaidVoucher(consumedDrinks: number) {
+  const order = await fakePrisma.order.create({
+    data: { userId, orderNumber: 'ORD-1', totalDrinks: 10, totalAmount: 500, status: 'COMPLETED', paymentStatus: 'PAID' },
+  });
+  const payment = await fakePrisma.transaction.create({
+    data: { userId, orderId: order.id, amount: 500, status: 'SUCCESS', phonepeMerchantId: 'MT-1', phonepeTransactionId: 'PG-1' },
+  });
+  await fakePrisma.drinkVoucher.create({
+    data: { userId, orderId: order.id, voucherNumber: 'VCH-1', totalDrinks: 10, consumedDrinks, pricePerDrink: 50, totalPrice: 500 },
+  });
+  return payment;
+}
+
+function gatewayReplies(t: TestContext, response: Partial<RefundResponse> & { state?: string }) {
+  const { state, ...rest } = response;
+  return t.mock.method(PaymentService, 'processRefund', async (_request: RefundRequest): Promise<RefundResponse> => ({
+    success: true,
+    code: 'PAYMENT_SUCCESS',
+    message: 'Refund accepted',
+    ...(state && {
+      data: {
+        merchantId: 'SIMULATEDMERCHANT',
+        merchantTransactionId: 'REFUND',
+        transactionId: 'PG-REFUND-1',
+        amount: 0,
+        state,
+        responseCode: 'SUCCESS',
+      },
+    }),
+    ...rest,
+  }));
+}
+
+function voucher() {
+  return fakePrisma.drinkVoucher.rows[0];
+}
+
+function refund() {
+  return fakePrisma.transaction.rows.find((row) => row.type === 'REFUND')!;
+}
+
+describe('RefundService refunds of unused drinks', () => {
+  before(() => {
+    mock.method(console, 'error', () => undefined);
+  });
+
+  beforeEach(() => {
+    resetFakeDatabase();
+  });
+
+  it('takes the refunded drinks off the voucher while the refund is pending', async (t) => {
+    const payment = await createPaidVoucher(4);
+    const gateway = gatewayReplies(t, { state: 'PENDING' });
+
+    const result = await RefundService.initiateRefund({ paymentTransactionId: payment.id, drinks: 2 });
+
+    assert.equal(result.success, true);
+    assert.equal(result.quote!.amount, 100);
+    assert.equal(gateway.mock.calls[0].arguments[0].amount, 10000);
+    assert.equal(refund().status, 'PENDING');
+    assert.equal(refund().refundedDrinks, 2);
+    assert.equal(voucher().totalDrinks, 8);
+    assert.equal(voucher().totalPrice, 400);
+    assert.equal(voucher().status, 'ACTIVE');
+  });
+
+  it('cancels the voucher when its last unused drinks are refunded', async (t) => {
+    const payment = await createPaidVoucher(4);
+    gatewayReplies(t, { state: 'PENDING' });
+
+    const result = await RefundService.initiateRefund({ paymentTransactionId: payment.id });
+
+    assert.equal(result.quote!.drinks, 6);
+    assert.equal(result.quote!.amount, 300);
+    assert.equal(voucher().totalDrinks, 4);
+    assert.equal(voucher().status, 'CANCELLED');
+  });
+
+  it('puts the drinks back and reactivates the voucher when the gateway rejects the refund', async (t) => {
+    const payment = await createPaidVoucher(4);
+    gatewayReplies(t, { success: false, code: 'BAD_REQUEST', message: 'Refund declined' });
+
+    const result = await RefundService.initiateRefund({ paymentTransactionId: payment.id });
+
+    assert.deepEqual([result.success, result.error], [false, 'Refund declined']);
+    assert.equal(refund().status, 'FAILED');
+    assert.equal(refund().failureReason, 'Refund declined');
+    assert.equal(voucher().totalDrinks, 10);
+    assert.equal(voucher().totalPrice, 500);
+    assert.equal(voucher().status, 'ACTIVE');
+  });
+
+  it('returns the drinks of a refund that fails later exactly once', async (t) => {
+    const payment = await createPaidVoucher(4);
+    gatewayReplies(t, { state: 'PENDING' });
+    await RefundService.initiateRefund({ paymentTransactionId: payment.id });
+
+    const failed = await RefundService.applyRefundState(refund().id, 'FAILED', { message: 'Bank rejected the refund' });
+    const again = await RefundService.applyRefundState(refund().id, 'FAILED', { message: 'Bank rejected the refund' });
+
+    assert.equal(failed.applied, true);
+    assert.equal(again.applied, false);
+    assert.equal(voucher().totalDrinks, 10);
+    assert.equal(voucher().status, 'ACTIVE');
+  });
+
+  it('marks the payment and order refunded once the whole payment is refunded', async (t) => {
+    const payment = await createPaidVoucher(0);
+    gatewayReplies(t, { state: 'COMPLETED' });
+
+    const result = await RefundService.initiateRefund({ paymentTransactionId: payment.id });
+
+    assert.equal(result.refund!.status, 'SUCCESS');
+    assert.equal(Number(result.refund!.amount), 500);
+    assert.equal(fakePrisma.transaction.rows[0].status, 'REFUNDED');
+    assert.equal(fakePrisma.order.rows[0].status, 'REFUNDED');
+    assert.equal(fakePrisma.order.rows[0].paymentStatus, 'REFUNDED');
+  });
+
+  it('refuses while a dispense from the voucher awaits acknowledgement', async (t) => {
+    const payment = await createPaidVoucher(4);
+    const gateway = gatewayReplies(t, { state: 'PENDING' });
+    await fakePrisma.consumption.create({ data: { userId, voucherId: voucher().id, quantity: 1, status: 'PENDING' } });
+
+    const result = await RefundService.initiateRefund({ paymentTransactionId: payment.id });
+
+    assert.equal(result.success, false);
+    assert.equal(gateway.mock.callCount(), 0);
+    assert.equal(voucher().totalDrinks, 10);
+  });
+});
@@ -0,0 +1,91 @@
+import { fakePrisma, resetFakeDatabase } from './helpers/fakeDatabase';
+import { describe, it, before, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { SessionService } from '../src/services/sessionService';
+import { ERROR_CODES } from '../src/config/constants';
+
+const userId = 'user-1';
+const client = { deviceName: 'Pixel 8', ipAddress: '203.0.113.7', userAgent: 'SmartShake/2.0' };
+
+describe('SessionService refresh token rotation', () => {
+  before(() => {
+    mock.method(console, 'warn', () => undefined);
+  });
+
+  beforeEach(() => {
+    resetFakeDatabase();
+  });
+
+  it('stores only a hash of the refresh token', async () => {
+    const { refreshToken } = await SessionService.createSession(userId, client);
+
+    assert.equal(fakePrisma.userSession.rows.length, 1);
+    assert.ok(!JSON.stringify(fakePrisma.userSession.rows).includes(refreshToken));
+  });
+
+  it('exchanges a refresh token for a new one in the same family', async () => {
+    const { refreshToken, session } = await SessionService.createSession(userId, client);
+
+    const rotated = await SessionService.rotateRefreshToken(refreshToken, {});
+
+    assert.equal(rotated.success, true);
+    assert.notEqual(rotated.refreshToken, refreshToken);
+    assert.equal(rotated.session!.familyId, session.familyId);
+    assert.equal(rotated.session!.deviceName, client.deviceName);
+    assert.equal(await SessionService.validateSession(session.familyId, userId), true);
+
+    const next = await SessionService.rotateRefreshToken(rotated.refreshToken!, {});
+    assert.equal(next.success, true);
+  });
+
+  it('revokes the whole family when a rotated token is presented again', async () => {
+    const { refreshToken, session } = await SessionService.createSession(userId, client);
+    const rotated = await SessionService.rotateRefreshToken(refreshToken, {});
+
+    const reused = await SessionService.rotateRefreshToken(refreshToken, {});
+
+    assert.equal(reused.success, false);
+    assert.equal(reused.code, ERROR_CODES.REFRESH_TOKEN_REUSED);
+    assert.ok(fakePrisma.userSession.rows.every((row) => row.revokedAt && row.revokedReason === 'refresh_token_reuse'));
+    assert.equal(await SessionService.validateSession(session.familyId, userId), false);
+
+    // The token issued by the legitimate rotation stops working too
+    const afterRevoke = await SessionService.rotateRefreshToken(rotated.refreshToken!, {});
+    assert.equal(afterRevoke.code, ERROR_CODES.REFRESH_TOKEN_INVALID);
+  });
+
+  it('leaves the user\'s other sessions alone when one family is revoked', async () => {
+    const phone = await SessionService.createSession(userId, client);
+    const laptop = await SessionService.createSession(userId, { deviceName: 'Laptop' });
+    await SessionService.rotateRefreshToken(phone.refreshToken, {});
+
+    await SessionService.rotateRefreshToken(phone.refreshToken, {});
+
+    assert.equal(await SessionService.validateSession(laptop.session.familyId, userId), true);
+    assert.equal((await SessionService.rotateRefreshToken(laptop.refreshToken, {})).success, true);
+  });
+
+  it('lets only one of two concurrent refreshes with the same token through', async () => {
+    const { refreshToken } = await SessionService.createSession(userId, client);
+
+    const results = await Promise.all([
+      SessionService.rotateRefreshToken(refreshToken, {}),
+      SessionService.rotateRefreshToken(refreshToken, {}),
+    ]);
+
+    assert.equal(results.filter((result) => result.success).length, 1);
+    assert.equal(results.find((result) => !result.success)!.code, ERROR_CODES.REFRESH_TOKEN_REUSED);
+  });
+
+  it('rejects unknown and expired refresh tokens without revoking anything', async () => {
+    const { refreshToken } = await SessionService.createSession(userId, client);
+
+    const unknown = await SessionService.rotateRefreshToken('not-a-refresh-token', {});
+    assert.equal(unknown.code, ERROR_CODES.REFRESH_TOKEN_INVALID);
+
+    fakePrisma.userSession.rows[0].expiresAt = new Date(Date.now() - 1000);
+    const expired = await SessionService.rotateRefreshToken(refreshToken, {});
+    assert.equal(expired.code, ERROR_CODES.REFRESH_TOKEN_INVALID);
+    assert.equal(fakePrisma.userSession.rows[0].revokedAt, null);
+  });
+});
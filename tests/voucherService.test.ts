@@ -0,0 +1,158 @@
+import { fakePrisma, resetFakeDatabase } from './helpers/fakeDatabase';
+import { describe, it, before, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { VoucherService } from '../src/services/voucherService';
+import { VoucherPackageService } from '../src/services/voucherPackageService';
+import { PaymentService } from '../src/services/paymentService';
+import { VoucherPackage } from '@prisma/client';
+
+const userId = 'user-1';
+
+async function createPendingOrder(drinks = 10, amount = 500) {
+  const order = await fakePrisma.order.create({
+    data: { userId, orderNumber: 'ORD-1', totalDrinks: drinks, totalAmount: amount },
+  });
+  await fakePrisma.transaction.create({
+    data: { userId, orderId: order.id, amount, phonepeMerchantId: 'MT-1' },
+  });
+  return order;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function createVoucher(data: Record<string, unknown> = {}) {
+  return await fakePrisma.drinkVoucher.create({
+    data: {
+      userId,
+      voucherNumber: 'VCH-1',
+      totalDrinks: 10,
+      pricePerDrink: 50,
+      totalPrice: 500,
+      expiryDate: new Date(Date.now() + 10 * DAY_MS),
+      ...data,
+    },
+  });
+}
+
+async function createTopupOrder(voucherId: string, drinks: number, amount: number, topupExpiryDays: number | null = null) {
+  const order = await fakePrisma.order.create({
+    data: {
+      userId,
+      orderNumber: 'ORD-2',
+      orderType: 'VOUCHER_TOPUP',
+      totalDrinks: drinks,
+      totalAmount: amount,
+      topupVoucherId: voucherId,
+      topupExpiryDays,
+    },
+  });
+  await fakePrisma.transaction.create({
+    data: { userId, orderId: order.id, amount, phonepeMerchantId: 'MT-2' },
+  });
+  return order;
+}
+
+describe('VoucherService order completion', () => {
+  before(() => {
+    mock.method(console, 'error', () => undefined);
+  });
+
+  beforeEach(() => {
+    resetFakeDatabase();
+  });
+
+  it('issues a voucher and marks the order and payment attempt paid', async () => {
+    const order = await createPendingOrder();
+
+    const voucher = await VoucherService.completeVoucherPurchase(order.id, 'MT-1', 'PG-1');
+
+    assert.equal(voucher.totalDrinks, 10);
+    assert.equal(voucher.pricePerDrink, 50);
+    assert.equal(voucher.order.status, 'COMPLETED');
+    assert.equal(voucher.order.paymentStatus, 'PAID');
+    assert.equal(fakePrisma.transaction.rows[0].status, 'SUCCESS');
+    assert.equal(fakePrisma.transaction.rows[0].phonepeTransactionId, 'PG-1');
+  });
+
+  it('issues one voucher when two completions of the same order race', async () => {
+    const order = await createPendingOrder();
+
+    const results = await Promise.allSettled([
+      VoucherService.completeVoucherPurchase(order.id, 'MT-1', 'PG-1'),
+      VoucherService.completeVoucherPurchase(order.id, 'MT-1', 'PG-1'),
+    ]);
+
+    assert.equal(results.filter((result) => result.status === 'fulfilled').length, 1);
+    assert.equal(fakePrisma.drinkVoucher.rows.length, 1);
+  });
+
+  it('refuses to complete an order that is no longer pending', async () => {
+    const order = await createPendingOrder();
+    fakePrisma.order.rows[0].status = 'CANCELLED';
+
+    await assert.rejects(VoucherService.completeVoucherPurchase(order.id, 'MT-1', 'PG-1'));
+    assert.equal(fakePrisma.drinkVoucher.rows.length, 0);
+  });
+});
+
+describe('VoucherService top-ups', () => {
+  before(() => {
+    process.env.PAYMENT_PROVIDER = 'simulated';
+    PaymentService.initialize();
+    mock.method(console, 'error', () => undefined);
+  });
+
+  beforeEach(() => {
+    resetFakeDatabase();
+  });
+
+  it('adds the drinks and blends the price per drink', async () => {
+    const voucher = await createVoucher({ consumedDrinks: 10, status: 'EXHAUSTED' });
+    const order = await createTopupOrder(voucher.id, 5, 200);
+
+    const toppedUp = await VoucherService.completeVoucherPurchase(order.id, 'MT-2', 'PG-2');
+
+    assert.equal(toppedUp.id, voucher.id);
+    assert.equal(toppedUp.totalDrinks, 15);
+    assert.equal(toppedUp.remainingDrinks, 5);
+    assert.equal(toppedUp.totalPrice, 700);
+    assert.equal(toppedUp.pricePerDrink, 46.67);
+    assert.equal(toppedUp.status, 'ACTIVE');
+    assert.equal(fakePrisma.drinkVoucher.rows.length, 1);
+    assert.equal(fakePrisma.drinkVoucher.rows[0].version, 2);
+  });
+
+  it('pushes the expiry out to the requested days but never shortens it', async () => {
+    const soon = await createVoucher();
+    await VoucherService.completeVoucherPurchase((await createTopupOrder(soon.id, 5, 250, 90)).id, 'MT-2', 'PG-2');
+    assert.ok(Math.abs(fakePrisma.drinkVoucher.rows[0].expiryDate.getTime() - (Date.now() + 90 * DAY_MS)) < 2 * 60 * 60 * 1000);
+
+    resetFakeDatabase();
+    const later = new Date(Date.now() + 200 * DAY_MS);
+    const distant = await createVoucher({ expiryDate: later });
+    await VoucherService.completeVoucherPurchase((await createTopupOrder(distant.id, 5, 250, 90)).id, 'MT-2', 'PG-2');
+    assert.equal(fakePrisma.drinkVoucher.rows[0].expiryDate.getTime(), later.getTime());
+  });
+
+  it('refuses an expiry extension for a voucher whose validity starts at first use', async () => {
+    const voucher = await createVoucher({ expiryDate: null, firstUseValidityDays: 30 });
+
+    await assert.rejects(
+      VoucherService.createTopupOrder(userId, voucher.id, { drinks: 5, extendExpiryDays: 90 }),
+      { message: 'Voucher has no expiry date to extend' }
+    );
+    assert.equal(fakePrisma.order.rows.length, 0);
+  });
+
+  it('prices a custom top-up at the rate of the packages sold in the city', async (t) => {
+    const voucher = await createVoucher();
+    const listPackages = t.mock.method(VoucherPackageService, 'listAvailablePackages', async (city?: string) => [
+      { totalDrinks: 10, pricePerDrink: city === 'Bengaluru' ? 40 : 50 } as unknown as VoucherPackage,
+    ]);
+
+    const order = await VoucherService.createTopupOrder(userId, voucher.id, { drinks: 10, city: 'Bengaluru' });
+
+    assert.equal(listPackages.mock.calls[0].arguments[0], 'Bengaluru');
+    assert.equal(order.totalAmount, 400);
+  });
+});